@@ -8,12 +8,21 @@
  * @module
  */
 
+import type * as attachments from "../attachments.js";
+import type * as catalog from "../catalog.js";
 import type * as costs from "../costs.js";
+import type * as customs from "../customs.js";
+import type * as documents from "../documents.js";
+import type * as files from "../files.js";
 import type * as helpers from "../helpers.js";
 import type * as milestones from "../milestones.js";
 import type * as orders from "../orders.js";
 import type * as payments from "../payments.js";
+import type * as paymentTerms from "../paymentTerms.js";
 import type * as products from "../products.js";
+import type * as rates from "../rates.js";
+import type * as settings from "../settings.js";
+import type * as shipments from "../shipments.js";
 import type * as suppliers from "../suppliers.js";
 
 import type {
@@ -23,12 +32,21 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  attachments: typeof attachments;
+  catalog: typeof catalog;
   costs: typeof costs;
+  customs: typeof customs;
+  documents: typeof documents;
+  files: typeof files;
   helpers: typeof helpers;
   milestones: typeof milestones;
   orders: typeof orders;
   payments: typeof payments;
+  paymentTerms: typeof paymentTerms;
   products: typeof products;
+  rates: typeof rates;
+  settings: typeof settings;
+  shipments: typeof shipments;
   suppliers: typeof suppliers;
 }>;
 
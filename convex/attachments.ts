@@ -0,0 +1,143 @@
+import { v } from "convex/values";
+import { query, mutation, type MutationCtx } from "./_generated/server";
+import { generateId } from "./helpers";
+
+const entityTypeValidator = v.union(
+  v.literal("order"),
+  v.literal("product"),
+  v.literal("cost"),
+  v.literal("payment")
+);
+
+const documentTypeValidator = v.union(
+  v.literal("PI"),
+  v.literal("CI"),
+  v.literal("BL"),
+  v.literal("SWIFT"),
+  v.literal("photo"),
+  v.literal("certificate")
+);
+
+// Removes the attachments of one order, product, cost or payment with their files
+export async function deleteAttachmentsFor(
+  ctx: MutationCtx,
+  entityType: "order" | "product" | "cost" | "payment",
+  entityId: string
+): Promise<void> {
+  const attachments = await ctx.db
+    .query("attachments")
+    .withIndex("by_entity", (q) => q.eq("entityType", entityType).eq("entityId", entityId))
+    .collect();
+
+  for (const attachment of attachments) {
+    await ctx.storage.delete(attachment.storageId);
+    await ctx.db.delete(attachment._id);
+  }
+}
+
+// The order an order, product, cost or payment belongs to, or null when the
+// entity doesn't exist
+async function getEntityOrderId(
+  ctx: MutationCtx,
+  entityType: "order" | "product" | "cost" | "payment",
+  entityId: string
+): Promise<string | null> {
+  switch (entityType) {
+    case "order": {
+      const order = await ctx.db
+        .query("orders")
+        .withIndex("by_orderId", (q) => q.eq("orderId", entityId))
+        .first();
+      return order?.orderId ?? null;
+    }
+    case "product": {
+      const product = await ctx.db
+        .query("products")
+        .withIndex("by_productId", (q) => q.eq("productId", entityId))
+        .first();
+      return product?.orderId ?? null;
+    }
+    case "cost": {
+      const cost = await ctx.db
+        .query("additionalCosts")
+        .withIndex("by_costId", (q) => q.eq("costId", entityId))
+        .first();
+      return cost?.orderId ?? null;
+    }
+    case "payment": {
+      const payment = await ctx.db
+        .query("payments")
+        .withIndex("by_paymentId", (q) => q.eq("paymentId", entityId))
+        .first();
+      return payment?.orderId ?? null;
+    }
+  }
+}
+
+// Everything attached to the order and its products, costs and payments,
+// newest first, with a URL to open each file
+export const getOrderAttachments = query({
+  args: { orderId: v.string() },
+  handler: async (ctx, { orderId }) => {
+    const attachments = await ctx.db
+      .query("attachments")
+      .withIndex("by_orderId", (q) => q.eq("orderId", orderId))
+      .collect();
+
+    const withUrls = await Promise.all(
+      attachments.map(async (attachment) => ({
+        ...attachment,
+        url: await ctx.storage.getUrl(attachment.storageId),
+      }))
+    );
+
+    return withUrls.sort((a, b) => b.uploadedDate.localeCompare(a.uploadedDate));
+  },
+});
+
+export const addAttachment = mutation({
+  args: {
+    orderId: v.string(),
+    entityType: entityTypeValidator,
+    entityId: v.string(),
+    documentType: documentTypeValidator,
+    storageId: v.id("_storage"),
+    fileName: v.string(),
+    contentType: v.optional(v.string()),
+    size: v.optional(v.number()),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const entityOrderId = await getEntityOrderId(ctx, args.entityType, args.entityId);
+    if (!entityOrderId) throw new Error(`${args.entityType} ${args.entityId} not found`);
+    if (entityOrderId !== args.orderId) {
+      throw new Error(`${args.entityType} ${args.entityId} does not belong to order ${args.orderId}`);
+    }
+
+    const attachmentId = generateId("ATT");
+
+    await ctx.db.insert("attachments", {
+      attachmentId,
+      ...args,
+      uploadedDate: new Date().toISOString(),
+    });
+
+    return attachmentId;
+  },
+});
+
+export const deleteAttachment = mutation({
+  args: { attachmentId: v.string() },
+  handler: async (ctx, { attachmentId }) => {
+    const attachment = await ctx.db
+      .query("attachments")
+      .withIndex("by_attachmentId", (q) => q.eq("attachmentId", attachmentId))
+      .first();
+
+    if (!attachment) return false;
+
+    await ctx.storage.delete(attachment.storageId);
+    await ctx.db.delete(attachment._id);
+    return true;
+  },
+});
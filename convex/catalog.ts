@@ -0,0 +1,181 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { generateId } from "./helpers";
+import { resolveSupplier } from "./suppliers";
+
+// The most recently added order line for each catalog item
+function latestLines(products: Doc<"products">[]): Map<string, Doc<"products">> {
+  const latest = new Map<string, Doc<"products">>();
+  for (const product of products) {
+    if (!product.catalogId) continue;
+    const current = latest.get(product.catalogId);
+    if (!current || product._creationTime > current._creationTime) {
+      latest.set(product.catalogId, product);
+    }
+  }
+  return latest;
+}
+
+// Catalog items with their photo URL, how often they were ordered and the
+// unit price on the latest order line
+export const getCatalogItems = query({
+  args: {},
+  handler: async (ctx) => {
+    const [items, products] = await Promise.all([
+      ctx.db.query("catalogItems").collect(),
+      ctx.db.query("products").collect(),
+    ]);
+
+    const latest = latestLines(products);
+
+    const withDetails = await Promise.all(
+      items.map(async (item) => {
+        const lastLine = latest.get(item.catalogId);
+        return {
+          ...item,
+          photoUrl: item.photoStorageId ? await ctx.storage.getUrl(item.photoStorageId) : null,
+          orderLineCount: products.filter((p) => p.catalogId === item.catalogId).length,
+          lastPrice: lastLine
+            ? {
+                pricePerUnit: lastLine.pricePerUnit,
+                currency: lastLine.currency,
+                orderId: lastLine.orderId,
+              }
+            : null,
+        };
+      })
+    );
+
+    return withDetails.sort((a, b) => a.sku.localeCompare(b.sku));
+  },
+});
+
+export const addCatalogItem = mutation({
+  args: {
+    sku: v.string(),
+    name: v.string(),
+    supplierId: v.optional(v.string()),
+    supplier: v.optional(v.string()),
+    cbmPerUnit: v.number(),
+    kgPerUnit: v.number(),
+    hsCode: v.optional(v.string()),
+    photoStorageId: v.optional(v.id("_storage")),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const sku = args.sku.trim();
+    if (!sku) throw new Error("SKU is required");
+
+    const existing = await ctx.db
+      .query("catalogItems")
+      .withIndex("by_sku", (q) => q.eq("sku", sku))
+      .first();
+    if (existing) throw new Error(`SKU ${sku} already exists`);
+
+    const supplier = await resolveSupplier(ctx, args.supplierId, args.supplier);
+    const catalogId = generateId("CAT");
+
+    await ctx.db.insert("catalogItems", {
+      catalogId,
+      sku,
+      name: args.name,
+      supplierId: supplier?.supplierId,
+      supplier: supplier?.name,
+      cbmPerUnit: args.cbmPerUnit,
+      kgPerUnit: args.kgPerUnit,
+      hsCode: args.hsCode,
+      photoStorageId: args.photoStorageId,
+      notes: args.notes,
+      createdDate: new Date().toISOString(),
+    });
+
+    return catalogId;
+  },
+});
+
+export const updateCatalogItem = mutation({
+  args: {
+    catalogId: v.string(),
+    sku: v.optional(v.string()),
+    name: v.optional(v.string()),
+    supplierId: v.optional(v.string()),
+    supplier: v.optional(v.string()),
+    cbmPerUnit: v.optional(v.number()),
+    kgPerUnit: v.optional(v.number()),
+    hsCode: v.optional(v.string()),
+    photoStorageId: v.optional(v.id("_storage")),
+    // Drops the current photo
+    removePhoto: v.optional(v.boolean()),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const item = await ctx.db
+      .query("catalogItems")
+      .withIndex("by_catalogId", (q) => q.eq("catalogId", args.catalogId))
+      .first();
+
+    if (!item) return false;
+
+    const updates: Record<string, unknown> = {};
+    if (args.sku !== undefined) {
+      const sku = args.sku.trim();
+      if (!sku) throw new Error("SKU is required");
+      const existing = await ctx.db
+        .query("catalogItems")
+        .withIndex("by_sku", (q) => q.eq("sku", sku))
+        .first();
+      if (existing && existing.catalogId !== item.catalogId) {
+        throw new Error(`SKU ${sku} already exists`);
+      }
+      updates.sku = sku;
+    }
+    if (args.name !== undefined) updates.name = args.name;
+    if (args.supplier !== undefined || args.supplierId !== undefined) {
+      const supplier = await resolveSupplier(ctx, args.supplierId, args.supplier);
+      updates.supplier = supplier?.name;
+      updates.supplierId = supplier?.supplierId;
+    }
+    if (args.cbmPerUnit !== undefined) updates.cbmPerUnit = args.cbmPerUnit;
+    if (args.kgPerUnit !== undefined) updates.kgPerUnit = args.kgPerUnit;
+    if (args.hsCode !== undefined) updates.hsCode = args.hsCode;
+    if (args.notes !== undefined) updates.notes = args.notes;
+
+    // A new or removed photo replaces the stored file
+    if (args.photoStorageId !== undefined || args.removePhoto) {
+      if (item.photoStorageId && item.photoStorageId !== args.photoStorageId) {
+        await ctx.storage.delete(item.photoStorageId);
+      }
+      updates.photoStorageId = args.photoStorageId;
+    }
+
+    await ctx.db.patch(item._id, updates);
+    return true;
+  },
+});
+
+export const deleteCatalogItem = mutation({
+  args: { catalogId: v.string() },
+  handler: async (ctx, { catalogId }) => {
+    const item = await ctx.db
+      .query("catalogItems")
+      .withIndex("by_catalogId", (q) => q.eq("catalogId", catalogId))
+      .first();
+
+    if (!item) return false;
+
+    // Order lines keep their own copy of the item's details
+    const products = await ctx.db
+      .query("products")
+      .withIndex("by_catalogId", (q) => q.eq("catalogId", catalogId))
+      .collect();
+    for (const product of products) {
+      await ctx.db.patch(product._id, { catalogId: undefined });
+    }
+
+    if (item.photoStorageId) await ctx.storage.delete(item.photoStorageId);
+
+    await ctx.db.delete(item._id);
+    return true;
+  },
+});
@@ -1,6 +1,50 @@
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
-import { generateId } from "./helpers";
+import { query, mutation, type MutationCtx } from "./_generated/server";
+import {
+  generateId,
+  requireOrderRate,
+  validateAllocationWeights,
+} from "./helpers";
+import { deleteAttachmentsFor } from "./attachments";
+import { clearPaymentLinkAmounts } from "./payments";
+
+// A cost can only be scoped to one of its own order's shipments
+async function requireOrderShipment(ctx: MutationCtx, orderId: string, shipmentId: string) {
+  const shipment = await ctx.db
+    .query("shipments")
+    .withIndex("by_shipmentId", (q) => q.eq("shipmentId", shipmentId))
+    .first();
+  if (!shipment || shipment.orderId !== orderId) {
+    throw new Error(`Shipment ${shipmentId} is not part of order ${orderId}`);
+  }
+}
+
+async function replaceCostProductLinks(
+  ctx: MutationCtx,
+  costId: string,
+  linkedProductIds: string[],
+  weights?: Record<string, number>
+) {
+  // Delete existing links for this cost
+  const existingLinks = await ctx.db
+    .query("costProductLinks")
+    .withIndex("by_costId", (q) => q.eq("costId", costId))
+    .collect();
+
+  for (const link of existingLinks) {
+    await ctx.db.delete(link._id);
+  }
+
+  // Create new links
+  for (const productId of linkedProductIds) {
+    await ctx.db.insert("costProductLinks", {
+      costId,
+      productId,
+      isLinked: true,
+      weight: weights?.[productId],
+    });
+  }
+}
 
 export const getCostsByOrderId = query({
   args: { orderId: v.string() },
@@ -44,17 +88,45 @@ export const addCost = mutation({
     orderId: v.string(),
     description: v.string(),
     amount: v.number(),
-    currency: v.union(v.literal("USD"), v.literal("CNY"), v.literal("ILS")),
+    currency: v.string(),
     allocationMethod: v.union(
       v.literal("שווה"),
       v.literal("נפח"),
       v.literal("משקל"),
       v.literal("עלות"),
-      v.literal("כמות")
+      v.literal("כמות"),
+      v.literal("אחוזים"),
+      v.literal("ידני"),
+      v.literal("משקל לחיוב")
     ),
+    volumetricDivisor: v.optional(v.number()),
+    category: v.optional(
+      v.union(
+        v.literal("freight"),
+        v.literal("insurance"),
+        v.literal("origin"),
+        v.literal("destination"),
+        v.literal("clearance"),
+        v.literal("other")
+      )
+    ),
+    supplier: v.optional(v.string()),
+    shipmentId: v.optional(v.string()),
     notes: v.optional(v.string()),
+    // Products the cost is split over, with weights for manual methods
+    linkedProductIds: v.optional(v.array(v.string())),
+    weights: v.optional(v.record(v.string(), v.number())),
   },
   handler: async (ctx, args) => {
+    await requireOrderRate(ctx, args.orderId, args.currency);
+    if (args.shipmentId) await requireOrderShipment(ctx, args.orderId, args.shipmentId);
+
+    const error = validateAllocationWeights(
+      args.allocationMethod,
+      (args.linkedProductIds ?? []).map((id) => args.weights?.[id] ?? 0)
+    );
+    if (error) throw new Error(error);
+
     const costId = generateId("COST");
 
     await ctx.db.insert("additionalCosts", {
@@ -64,9 +136,17 @@ export const addCost = mutation({
       amount: args.amount,
       currency: args.currency,
       allocationMethod: args.allocationMethod,
+      volumetricDivisor: args.volumetricDivisor,
+      category: args.category,
+      supplier: args.supplier,
+      shipmentId: args.shipmentId || undefined,
       notes: args.notes,
     });
 
+    if (args.linkedProductIds) {
+      await replaceCostProductLinks(ctx, costId, args.linkedProductIds, args.weights);
+    }
+
     // Auto-create pending payment for this cost
     const paymentId = generateId("PAY");
     await ctx.db.insert("payments", {
@@ -75,13 +155,17 @@ export const addCost = mutation({
       date: new Date().toISOString().split("T")[0],
       amount: args.amount,
       currency: args.currency,
-      payee: "",
+      payee: args.supplier || "",
       description: `תשלום עבור ${args.description}`,
       status: "pending",
     });
 
     // Link the payment to the cost
-    await ctx.db.insert("paymentCostLinks", { paymentId, costId });
+    await ctx.db.insert("paymentCostLinks", {
+      paymentId,
+      costId,
+      amount: args.amount,
+    });
 
     return costId;
   },
@@ -92,17 +176,36 @@ export const updateCost = mutation({
     costId: v.string(),
     description: v.optional(v.string()),
     amount: v.optional(v.number()),
-    currency: v.optional(v.union(v.literal("USD"), v.literal("CNY"), v.literal("ILS"))),
+    currency: v.optional(v.string()),
     allocationMethod: v.optional(
       v.union(
         v.literal("שווה"),
         v.literal("נפח"),
         v.literal("משקל"),
         v.literal("עלות"),
-        v.literal("כמות")
+        v.literal("כמות"),
+        v.literal("אחוזים"),
+        v.literal("ידני"),
+        v.literal("משקל לחיוב")
+      )
+    ),
+    volumetricDivisor: v.optional(v.number()),
+    category: v.optional(
+      v.union(
+        v.literal("freight"),
+        v.literal("insurance"),
+        v.literal("origin"),
+        v.literal("destination"),
+        v.literal("clearance"),
+        v.literal("other")
       )
     ),
+    supplier: v.optional(v.string()),
+    shipmentId: v.optional(v.string()),
     notes: v.optional(v.string()),
+    // Replaces the cost's links when given
+    linkedProductIds: v.optional(v.array(v.string())),
+    weights: v.optional(v.record(v.string(), v.number())),
   },
   handler: async (ctx, args) => {
     const cost = await ctx.db
@@ -112,14 +215,44 @@ export const updateCost = mutation({
 
     if (!cost) return false;
 
+    if (args.currency !== undefined) {
+      await requireOrderRate(ctx, cost.orderId, args.currency);
+    }
+    if (args.shipmentId) await requireOrderShipment(ctx, cost.orderId, args.shipmentId);
+
+    // Weights are checked against the method the cost ends up with, on the
+    // new links or, when none are given, on the ones it already has
+    const allocationMethod = args.allocationMethod ?? cost.allocationMethod;
+    const weights = args.linkedProductIds
+      ? args.linkedProductIds.map((id) => args.weights?.[id] ?? 0)
+      : (
+          await ctx.db
+            .query("costProductLinks")
+            .withIndex("by_costId", (q) => q.eq("costId", cost.costId))
+            .collect()
+        )
+          .filter((link) => link.isLinked)
+          .map((link) => link.weight ?? 0);
+    const error = validateAllocationWeights(allocationMethod, weights);
+    if (error) throw new Error(error);
+
     const updates: Record<string, unknown> = {};
     if (args.description !== undefined) updates.description = args.description;
     if (args.amount !== undefined) updates.amount = args.amount;
     if (args.currency !== undefined) updates.currency = args.currency;
     if (args.allocationMethod !== undefined) updates.allocationMethod = args.allocationMethod;
+    if (args.volumetricDivisor !== undefined) updates.volumetricDivisor = args.volumetricDivisor;
+    if (args.category !== undefined) updates.category = args.category;
+    if (args.supplier !== undefined) updates.supplier = args.supplier;
+    if (args.shipmentId !== undefined) updates.shipmentId = args.shipmentId || undefined;
     if (args.notes !== undefined) updates.notes = args.notes;
 
     await ctx.db.patch(cost._id, updates);
+
+    if (args.linkedProductIds) {
+      await replaceCostProductLinks(ctx, cost.costId, args.linkedProductIds, args.weights);
+    }
+
     return true;
   },
 });
@@ -175,14 +308,21 @@ export const deleteCost = mutation({
           await ctx.db.delete(cLink._id);
         }
 
-        // Delete the pending payment
+        // Delete the pending payment and its attachments
+        await deleteAttachmentsFor(ctx, "payment", payment.paymentId);
         await ctx.db.delete(payment._id);
       } else {
         // Just delete the link, keep the approved payment
         await ctx.db.delete(link._id);
+        if (link.amount !== undefined) {
+          await clearPaymentLinkAmounts(ctx, link.paymentId);
+        }
       }
     }
 
+    // Delete related attachments
+    await deleteAttachmentsFor(ctx, "cost", costId);
+
     // Delete the cost
     await ctx.db.delete(cost._id);
 
@@ -194,26 +334,23 @@ export const updateCostProductLinks = mutation({
   args: {
     costId: v.string(),
     linkedProductIds: v.array(v.string()),
+    weights: v.optional(v.record(v.string(), v.number())),
   },
-  handler: async (ctx, { costId, linkedProductIds }) => {
-    // Delete existing links for this cost
-    const existingLinks = await ctx.db
-      .query("costProductLinks")
+  handler: async (ctx, { costId, linkedProductIds, weights }) => {
+    const cost = await ctx.db
+      .query("additionalCosts")
       .withIndex("by_costId", (q) => q.eq("costId", costId))
-      .collect();
+      .first();
 
-    for (const link of existingLinks) {
-      await ctx.db.delete(link._id);
-    }
+    if (!cost) return false;
 
-    // Create new links
-    for (const productId of linkedProductIds) {
-      await ctx.db.insert("costProductLinks", {
-        costId,
-        productId,
-        isLinked: true,
-      });
-    }
+    const error = validateAllocationWeights(
+      cost.allocationMethod,
+      linkedProductIds.map((id) => weights?.[id] ?? 0)
+    );
+    if (error) throw new Error(error);
+
+    await replaceCostProductLinks(ctx, costId, linkedProductIds, weights);
 
     return true;
   },
@@ -0,0 +1,93 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+import { generateId, normalizeHsCode } from "./helpers";
+
+export const getCustomsRates = query({
+  args: {},
+  handler: async (ctx) => {
+    const rates = await ctx.db.query("customsRates").collect();
+    return rates.sort((a, b) => a.hsCode.localeCompare(b.hsCode));
+  },
+});
+
+export const addCustomsRate = mutation({
+  args: {
+    hsCode: v.string(),
+    description: v.optional(v.string()),
+    dutyRate: v.number(),
+    purchaseTaxRate: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const hsCode = normalizeHsCode(args.hsCode);
+    if (!hsCode) throw new Error("HS code must contain digits");
+
+    const existing = await ctx.db
+      .query("customsRates")
+      .withIndex("by_hsCode", (q) => q.eq("hsCode", hsCode))
+      .first();
+
+    if (existing) throw new Error(`HS code ${hsCode} already has a rate`);
+
+    const customsRateId = generateId("CUS");
+
+    await ctx.db.insert("customsRates", {
+      customsRateId,
+      hsCode,
+      description: args.description,
+      dutyRate: args.dutyRate,
+      purchaseTaxRate: args.purchaseTaxRate,
+    });
+
+    return customsRateId;
+  },
+});
+
+export const updateCustomsRate = mutation({
+  args: {
+    customsRateId: v.string(),
+    hsCode: v.optional(v.string()),
+    description: v.optional(v.string()),
+    dutyRate: v.optional(v.number()),
+    purchaseTaxRate: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const rate = await ctx.db
+      .query("customsRates")
+      .withIndex("by_customsRateId", (q) =>
+        q.eq("customsRateId", args.customsRateId)
+      )
+      .first();
+
+    if (!rate) return false;
+
+    const updates: Record<string, unknown> = {};
+    if (args.hsCode !== undefined) {
+      const hsCode = normalizeHsCode(args.hsCode);
+      if (!hsCode) throw new Error("HS code must contain digits");
+      updates.hsCode = hsCode;
+    }
+    if (args.description !== undefined) updates.description = args.description;
+    if (args.dutyRate !== undefined) updates.dutyRate = args.dutyRate;
+    if (args.purchaseTaxRate !== undefined) updates.purchaseTaxRate = args.purchaseTaxRate;
+
+    await ctx.db.patch(rate._id, updates);
+    return true;
+  },
+});
+
+export const deleteCustomsRate = mutation({
+  args: { customsRateId: v.string() },
+  handler: async (ctx, { customsRateId }) => {
+    const rate = await ctx.db
+      .query("customsRates")
+      .withIndex("by_customsRateId", (q) =>
+        q.eq("customsRateId", customsRateId)
+      )
+      .first();
+
+    if (!rate) return false;
+
+    await ctx.db.delete(rate._id);
+    return true;
+  },
+});
@@ -0,0 +1,141 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+import { generateId, getAppSettings, getPaymentTerm, normalizeSupplierName } from "./helpers";
+
+export const getOrderDocuments = query({
+  args: { orderId: v.string() },
+  handler: async (ctx, { orderId }) => {
+    const documents = await ctx.db
+      .query("documents")
+      .withIndex("by_orderId", (q) => q.eq("orderId", orderId))
+      .collect();
+
+    return documents.sort(
+      (a, b) => a.supplier.localeCompare(b.supplier) || b.version - a.version
+    );
+  },
+});
+
+export const getDocument = query({
+  args: { documentId: v.string() },
+  handler: async (ctx, { documentId }) => {
+    const document = await ctx.db
+      .query("documents")
+      .withIndex("by_documentId", (q) => q.eq("documentId", documentId))
+      .first();
+
+    if (!document) return null;
+
+    const order = await ctx.db
+      .query("orders")
+      .withIndex("by_orderId", (q) => q.eq("orderId", document.orderId))
+      .first();
+
+    return { document, order };
+  },
+});
+
+// Snapshots one supplier's products in the order as the next version of its
+// purchase order. The supplier is picked by id, or by name for products that
+// only have a free-text supplier.
+export const generatePurchaseOrder = mutation({
+  args: {
+    orderId: v.string(),
+    supplierId: v.optional(v.string()),
+    supplier: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const order = await ctx.db
+      .query("orders")
+      .withIndex("by_orderId", (q) => q.eq("orderId", args.orderId))
+      .first();
+
+    if (!order) throw new Error(`Order ${args.orderId} not found`);
+
+    const orderProducts = await ctx.db
+      .query("products")
+      .withIndex("by_orderId", (q) => q.eq("orderId", args.orderId))
+      .collect();
+
+    const key = normalizeSupplierName(args.supplier || "");
+    const products = orderProducts.filter((p) =>
+      args.supplierId
+        ? p.supplierId === args.supplierId
+        : !p.supplierId && normalizeSupplierName(p.supplier || "") === key
+    );
+
+    if (products.length === 0) {
+      throw new Error("The supplier has no products in this order");
+    }
+
+    const supplierName = products[0].supplier?.trim() || "";
+    const [settings, paymentTerm, existing, milestoneTypes] = await Promise.all([
+      getAppSettings(ctx),
+      getPaymentTerm(ctx, order, supplierName),
+      ctx.db
+        .query("documents")
+        .withIndex("by_orderId", (q) => q.eq("orderId", args.orderId))
+        .collect(),
+      ctx.db.query("milestoneTypes").collect(),
+    ]);
+
+    // Versions count up per supplier within the order
+    const previousVersions = existing
+      .filter((d) =>
+        args.supplierId
+          ? d.supplierId === args.supplierId
+          : !d.supplierId && normalizeSupplierName(d.supplier) === key
+      )
+      .filter((d) => d.type === "purchaseOrder")
+      .map((d) => d.version);
+
+    const documentId = generateId("DOC");
+
+    await ctx.db.insert("documents", {
+      documentId,
+      orderId: args.orderId,
+      type: "purchaseOrder",
+      supplierId: args.supplierId,
+      supplier: supplierName,
+      version: Math.max(0, ...previousVersions) + 1,
+      createdDate: new Date().toISOString(),
+      company: settings.company,
+      // The Hebrew descriptions stay out of a supplier-facing document
+      paymentInstallments: paymentTerm?.installments.map((installment) => ({
+        percent: installment.percent,
+        trigger: installment.trigger,
+        dayOffset: installment.dayOffset,
+        milestoneName: milestoneTypes.find((t) => t.typeId === installment.milestoneTypeId)
+          ?.name,
+      })),
+      incoterm: order.incoterm,
+      lines: products.map((product) => ({
+        productId: product.productId,
+        name: product.name,
+        hsCode: product.hsCode,
+        quantity: product.quantity,
+        unitPrice: product.pricePerUnit,
+        currency: product.currency,
+        total: product.priceTotal,
+        notes: product.notes,
+      })),
+    });
+
+    return documentId;
+  },
+});
+
+export const deleteDocument = mutation({
+  args: { documentId: v.string() },
+  handler: async (ctx, { documentId }) => {
+    const document = await ctx.db
+      .query("documents")
+      .withIndex("by_documentId", (q) => q.eq("documentId", documentId))
+      .first();
+
+    if (!document) return false;
+
+    await ctx.db.delete(document._id);
+    return true;
+  },
+});
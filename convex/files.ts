@@ -0,0 +1,9 @@
+import { mutation } from "./_generated/server";
+
+// Short-lived URL the client uploads a file to; the upload returns a storage id
+export const generateUploadUrl = mutation({
+  args: {},
+  handler: async (ctx) => {
+    return await ctx.storage.generateUploadUrl();
+  },
+});
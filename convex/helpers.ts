@@ -1,29 +1,515 @@
-import { Doc } from "./_generated/dataModel";
+import type { Doc } from "./_generated/dataModel";
+import type { QueryCtx } from "./_generated/server";
 
-export type AllocationMethod = "שווה" | "נפח" | "משקל" | "עלות" | "כמות";
+export type AllocationMethod =
+  | "שווה"
+  | "נפח"
+  | "משקל"
+  | "עלות"
+  | "כמות"
+  | "אחוזים"
+  | "ידני"
+  | "משקל לחיוב";
+
+// Air freight convention: 6000 cm³ per kg, i.e. about 167 kg per CBM
+export const DEFAULT_VOLUMETRIC_DIVISOR = 6000;
+
+// Couriers bill the greater of actual and volumetric weight
+export function getChargeableWeight(
+  product: Pick<Doc<"products">, "cbmTotal" | "kgTotal">,
+  volumetricDivisor: number = DEFAULT_VOLUMETRIC_DIVISOR
+): number {
+  const volumetricKG =
+    volumetricDivisor > 0 ? (product.cbmTotal * 1000000) / volumetricDivisor : 0;
+  return Math.max(product.kgTotal, volumetricKG);
+}
+
+export const INCH_TO_CM = 2.54;
+export const LB_TO_KG = 0.45359237;
+
+// How a product is packed, in cm and kg per carton
+export type CartonPacking = Pick<
+  Doc<"products">,
+  | "unitsPerCarton"
+  | "cartonLengthCm"
+  | "cartonWidthCm"
+  | "cartonHeightCm"
+  | "cartonGrossKg"
+>;
+
+export interface CartonTotals {
+  cartonCount: number;
+  cbmPerUnit?: number;
+  cbmTotal?: number;
+  kgPerUnit?: number;
+  kgTotal?: number;
+}
+
+export function hasCartonDimensions(packing: CartonPacking): boolean {
+  return (
+    (packing.cartonLengthCm || 0) > 0 &&
+    (packing.cartonWidthCm || 0) > 0 &&
+    (packing.cartonHeightCm || 0) > 0
+  );
+}
+
+export function hasCartonWeight(packing: CartonPacking): boolean {
+  return (packing.cartonGrossKg || 0) > 0;
+}
+
+// Volume and gross weight from the carton, with a part carton shipped as a
+// full one. Null when the units per carton aren't known. Volume is only
+// derived from a fully measured carton and weight from a weighed one; the
+// fields left out keep the values entered by hand.
+export function calculateCartonTotals(
+  quantity: number,
+  packing: CartonPacking
+): CartonTotals | null {
+  if (!packing.unitsPerCarton || packing.unitsPerCarton <= 0) return null;
+
+  const cartonCount = Math.ceil(quantity / packing.unitsPerCarton);
+  const totals: CartonTotals = { cartonCount };
+
+  if (hasCartonDimensions(packing)) {
+    const cbmPerCarton =
+      ((packing.cartonLengthCm || 0) *
+        (packing.cartonWidthCm || 0) *
+        (packing.cartonHeightCm || 0)) /
+      1000000;
+    totals.cbmTotal = roundTo(cartonCount * cbmPerCarton, 4);
+    totals.cbmPerUnit =
+      quantity > 0 ? totals.cbmTotal / quantity : cbmPerCarton / packing.unitsPerCarton;
+  }
+
+  if (hasCartonWeight(packing)) {
+    const kgPerCarton = packing.cartonGrossKg || 0;
+    totals.kgTotal = roundTo(cartonCount * kgPerCarton, 2);
+    totals.kgPerUnit =
+      quantity > 0 ? totals.kgTotal / quantity : kgPerCarton / packing.unitsPerCarton;
+  }
+
+  return totals;
+}
+
+// Methods whose shares are set by hand on costProductLinks.weight
+export const MANUAL_ALLOCATION_METHODS: AllocationMethod[] = ["אחוזים", "ידני"];
+
+export function validateAllocationWeights(
+  method: AllocationMethod,
+  weights: number[]
+): string | null {
+  if (!MANUAL_ALLOCATION_METHODS.includes(method)) return null;
+
+  if (weights.length === 0) return "Manual allocation needs linked products";
+  if (weights.some((w) => !(w >= 0))) return "Allocation weights must be non-negative";
+
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (method === "אחוזים" && Math.abs(total - 100) > 0.01) {
+    return `Allocation percentages add up to ${total}, not 100`;
+  }
+  if (total <= 0) return "Allocation weights must add up to more than zero";
+
+  return null;
+}
+
+// Israeli VAT, charged by customs on CIF + duty + purchase tax and recovered later
+export const VAT_RATE = 18;
+
+export type CostCategory = NonNullable<Doc<"additionalCosts">["category"]>;
+export type Incoterm = NonNullable<Doc<"orders">["incoterm"]>;
+
+// Cost categories that are part of the CIF customs value
+const CIF_CATEGORIES: CostCategory[] = ["freight", "insurance"];
+
+// Costs the buyer carries under each incoterm, so they should appear in additionalCosts
+export const INCOTERM_EXPECTED_COSTS: Record<Incoterm, CostCategory[]> = {
+  EXW: ["origin", "freight", "insurance", "destination", "clearance"],
+  FCA: ["freight", "insurance", "destination", "clearance"],
+  FOB: ["freight", "insurance", "destination", "clearance"],
+  CFR: ["insurance", "destination", "clearance"],
+  CIF: ["destination", "clearance"],
+  DAP: ["clearance"],
+  DDP: [],
+};
+
+export function findMissingExpectedCosts(
+  incoterm: Incoterm | undefined,
+  costs: Pick<Doc<"additionalCosts">, "category">[]
+): CostCategory[] {
+  if (!incoterm) return [];
+  return INCOTERM_EXPECTED_COSTS[incoterm].filter(
+    (category) => !costs.some((c) => c.category === category)
+  );
+}
+
+// ILS value of one unit of each currency, e.g. { USD: 3.7, JPY: 0.025 }
+export type ExchangeRates = Record<string, number>;
+
+export function getOrderRates(
+  order: Pick<Doc<"orders">, "usdRate" | "cnyRate" | "exchangeRates">
+): ExchangeRates {
+  // usdRate/cnyRate stay authoritative for the two currencies edited on the order
+  return {
+    ...order.exchangeRates,
+    USD: order.usdRate,
+    CNY: order.cnyRate,
+    ILS: 1,
+  };
+}
+
+export function hasRate(rates: ExchangeRates, currency: string): boolean {
+  return currency === "ILS" || rates[currency] !== undefined;
+}
+
+export function findMissingRates(
+  currencies: string[],
+  rates: ExchangeRates
+): string[] {
+  return [...new Set(currencies)].filter((c) => !hasRate(rates, c));
+}
 
 export function toILS(
   amount: number,
   currency: string,
-  usdRate: number,
-  cnyRate: number
+  rates: ExchangeRates
 ): number {
-  switch (currency) {
-    case "USD":
-      return amount * usdRate;
-    case "CNY":
-      return amount * cnyRate;
-    case "ILS":
-      return amount;
-    default:
-      // For other currencies, assume USD rate as fallback
-      return amount * usdRate;
+  if (currency === "ILS") return amount;
+  const rate = rates[currency];
+  // Missing rates are reported through findMissingRates instead of guessed
+  return rate === undefined ? 0 : amount * rate;
+}
+
+// Our details as the buyer, printed on documents sent to suppliers
+export interface CompanyDetails {
+  name: string;
+  address: string;
+  phone: string;
+  email: string;
+  taxId: string;
+}
+
+export interface AppSettings {
+  // Decimal places allocated costs are rounded to (2 = agorot)
+  allocationDecimals: number;
+  // Unit price rise from the previous order, in percent, that gets flagged
+  priceIncreaseThreshold: number;
+  company: CompanyDetails;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  allocationDecimals: 2,
+  priceIncreaseThreshold: 5,
+  company: { name: "", address: "", phone: "", email: "", taxId: "" },
+};
+
+export async function getAppSettings(ctx: QueryCtx): Promise<AppSettings> {
+  const settings = await ctx.db.query("settings").first();
+  return {
+    allocationDecimals:
+      settings?.allocationDecimals ?? DEFAULT_SETTINGS.allocationDecimals,
+    priceIncreaseThreshold:
+      settings?.priceIncreaseThreshold ?? DEFAULT_SETTINGS.priceIncreaseThreshold,
+    company: {
+      name: settings?.companyName ?? "",
+      address: settings?.companyAddress ?? "",
+      phone: settings?.companyPhone ?? "",
+      email: settings?.companyEmail ?? "",
+      taxId: settings?.companyTaxId ?? "",
+    },
+  };
+}
+
+export function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+// Largest-remainder rounding: each share is rounded so the shares still sum to
+// the rounded total exactly
+export function roundShares(
+  shares: Record<string, number>,
+  decimals: number
+): Record<string, number> {
+  const factor = Math.pow(10, decimals);
+  const ids = Object.keys(shares);
+  const exact = ids.map((id) => shares[id] * factor);
+  const target = Math.round(exact.reduce((sum, v) => sum + v, 0));
+
+  const units = exact.map((v) => Math.floor(v));
+  let remaining = target - units.reduce((sum, v) => sum + v, 0);
+
+  const byRemainder = ids
+    .map((_, i) => i)
+    .sort((a, b) => exact[b] - units[b] - (exact[a] - units[a]));
+  for (const i of byRemainder) {
+    if (remaining <= 0) break;
+    units[i] += 1;
+    remaining -= 1;
+  }
+
+  return Object.fromEntries(ids.map((id, i) => [id, units[i] / factor]));
+}
+
+export async function requireOrderRate(
+  ctx: QueryCtx,
+  orderId: string,
+  currency: string
+): Promise<void> {
+  const order = await ctx.db
+    .query("orders")
+    .withIndex("by_orderId", (q) => q.eq("orderId", orderId))
+    .first();
+
+  if (!order) throw new Error(`Order ${orderId} not found`);
+
+  if (!hasRate(getOrderRates(order), currency)) {
+    throw new Error(`Order ${orderId} has no exchange rate for ${currency}`);
+  }
+}
+
+// Case and spacing differences don't make a different supplier
+export function normalizeSupplierName(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// Legal-form and filler words that don't tell suppliers apart
+const SUPPLIER_NAME_SUFFIXES = new Set([
+  "co",
+  "company",
+  "corp",
+  "corporation",
+  "inc",
+  "ltd",
+  "limited",
+  "llc",
+  "gmbh",
+  "group",
+  "trading",
+  "industrial",
+  "industry",
+  "factory",
+  "international",
+  "intl",
+]);
+
+// Normalized name without punctuation and legal-form words, for fuzzy matching
+export function supplierMatchKey(name: string): string {
+  const words = normalizeSupplierName(name)
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter((word) => word !== "");
+  const significant = words.filter((word) => !SUPPLIER_NAME_SUFFIXES.has(word));
+  return (significant.length > 0 ? significant : words).join(" ");
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 for the same supplier key, falling towards 0 as the keys differ
+export function supplierNameSimilarity(a: string, b: string): number {
+  const keyA = supplierMatchKey(a);
+  const keyB = supplierMatchKey(b);
+  if (keyA === keyB) return 1;
+
+  const longest = Math.max(keyA.length, keyB.length);
+  if (longest === 0) return 0;
+  return 1 - editDistance(keyA, keyB) / longest;
+}
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.85;
+
+// Groups names that are transitively similar above the threshold; singletons
+// are left out
+export function groupSimilarSupplierNames(
+  names: string[],
+  threshold: number
+): string[][] {
+  const parent = names.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < names.length; i++) {
+    for (let j = i + 1; j < names.length; j++) {
+      if (supplierNameSimilarity(names[i], names[j]) >= threshold) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, string[]>();
+  names.forEach((name, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), name]);
+  });
+
+  return [...groups.values()].filter((group) => group.length > 1);
+}
+
+export type PaymentInstallment = Doc<"paymentTerms">["installments"][number];
+
+export function validatePaymentInstallments(
+  installments: PaymentInstallment[]
+): string | null {
+  if (installments.length === 0) return "Payment terms need at least one installment";
+  if (installments.some((i) => !(i.percent > 0))) {
+    return "Installment percentages must be positive";
+  }
+  if (installments.some((i) => i.trigger === "milestone" && !i.milestoneTypeId)) {
+    return "Milestone installments need a milestone type";
   }
+
+  const total = installments.reduce((sum, i) => sum + i.percent, 0);
+  if (Math.abs(total - 100) > 0.01) {
+    return `Installment percentages add up to ${total}, not 100`;
+  }
+
+  return null;
+}
+
+// Splits an amount by installment percentages; the rounded parts add up to the amount
+export function splitByInstallments(
+  amount: number,
+  installments: PaymentInstallment[],
+  decimals: number
+): number[] {
+  const shares = roundShares(
+    Object.fromEntries(
+      installments.map((installment, i) => [i, (amount * installment.percent) / 100])
+    ),
+    decimals
+  );
+  return installments.map((_, i) => shares[i]);
+}
+
+// The order's own terms win over the supplier's; null means a single payment
+export async function getPaymentTerm(
+  ctx: QueryCtx,
+  order: Doc<"orders">,
+  supplierName?: string
+): Promise<Doc<"paymentTerms"> | null> {
+  let paymentTermId = order.paymentTermId;
+
+  if (!paymentTermId && supplierName) {
+    const supplier = await ctx.db
+      .query("suppliers")
+      .withIndex("by_name", (q) => q.eq("name", supplierName))
+      .first();
+    paymentTermId = supplier?.paymentTermId;
+  }
+
+  if (!paymentTermId) return null;
+
+  return await ctx.db
+    .query("paymentTerms")
+    .withIndex("by_paymentTermId", (q) => q.eq("paymentTermId", paymentTermId))
+    .first();
+}
+
+// Adds days to a YYYY-MM-DD date
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date.split("T")[0]}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split("T")[0];
+}
+
+// Due date of an installment tied to a milestone type, from the order's first
+// dated milestone of that type; undefined while none has a date
+export function getMilestoneDueDate(
+  milestones: { milestoneTypeId: string; targetDate?: string; actualDate?: string }[],
+  milestoneTypeId: string,
+  dayOffset: number
+): string | undefined {
+  const milestone = milestones.find(
+    (m) => m.milestoneTypeId === milestoneTypeId && (m.actualDate || m.targetDate)
+  );
+  const milestoneDate = milestone?.actualDate || milestone?.targetDate;
+  return milestoneDate ? addDays(milestoneDate, dayOffset) : undefined;
+}
+
+// Whole days from one YYYY-MM-DD date to another, negative when `to` is earlier
+export function daysBetween(from: string, to: string): number {
+  const start = Date.parse(`${from.split("T")[0]}T00:00:00Z`);
+  const end = Date.parse(`${to.split("T")[0]}T00:00:00Z`);
+  return Math.round((end - start) / 86400000);
+}
+
+export type AgingBucket = "current" | "1-30" | "31-60" | "61-90" | "90+";
+
+export const AGING_BUCKETS: AgingBucket[] = ["current", "1-30", "31-60", "61-90", "90+"];
+
+export function getAgingBucket(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 0) return "current";
+  if (daysOverdue <= 30) return "1-30";
+  if (daysOverdue <= 60) return "31-60";
+  if (daysOverdue <= 90) return "61-90";
+  return "90+";
+}
+
+export function isPaymentOverdue(
+  payment: Pick<Doc<"payments">, "status" | "dueDate">,
+  today: string
+): boolean {
+  return (
+    payment.status === "pending" &&
+    !!payment.dueDate &&
+    daysBetween(payment.dueDate, today) > 0
+  );
+}
+
+export interface AgingPayment {
+  paymentId: string;
+  orderId: string;
+  orderName: string;
+  description?: string;
+  dueDate?: string;
+  amount: number;
+  currency: string;
+  amountILS: number;
+  daysOverdue: number;
+  bucket: AgingBucket | null;
+}
+
+export interface AgingRow {
+  payee: string;
+  buckets: Record<AgingBucket, number>;
+  // Pending payments still waiting for a due date, e.g. tied to an undated milestone
+  unscheduledILS: number;
+  totalILS: number;
+  payments: AgingPayment[];
+}
+
+export interface CostShare {
+  costId: string;
+  description: string;
+  category?: CostCategory;
+  shareILS: number;
 }
 
 export interface ProductWithCosts extends Doc<"products"> {
   priceILS: number;
   additionalCostsILS: number;
+  // The costs making up additionalCostsILS
+  costBreakdown: CostShare[];
+  // CIF = goods + allocated freight + insurance
+  customsValueILS: number;
+  dutyRate: number;
+  purchaseTaxRate: number;
+  dutyILS: number;
+  purchaseTaxILS: number;
+  // Recoverable, so not part of finalCostILS
+  vatILS: number;
   finalCostILS: number;
   finalCostPerUnitILS: number;
 }
@@ -34,108 +520,375 @@ export interface CostWithILS extends Doc<"additionalCosts"> {
 }
 
 export interface PaymentWithILS extends Doc<"payments"> {
+  // At the order's rate, which is what the order budgets against
   amountILS: number;
+  // At the rate applied on the payment date
+  actualAmountILS: number;
+  // Positive when the payment cost fewer shekels than budgeted
+  fxGainLossILS: number;
   status: "pending" | "approved";
 }
 
+// What has been paid against one product or cost, in ILS at the order's rates
+export interface PaymentCoverage {
+  paidILS: number;
+  // Scheduled in pending payments, not yet paid
+  pendingILS: number;
+  // Still owed after approved payments
+  balanceILS: number;
+}
+
+// One supplier's slice of an order, in ILS at the order's rates
+export interface SupplierBreakdownRow {
+  supplierId?: string;
+  // Empty for products without a supplier
+  supplier: string;
+  productCount: number;
+  productsILS: number;
+  allocatedCostsILS: number;
+  dutyAndTaxILS: number;
+  landedILS: number;
+  cbm: number;
+  kg: number;
+  // Of the order's total volume and weight, 0-1
+  cbmShare: number;
+  kgShare: number;
+  paidILS: number;
+  balanceILS: number;
+}
+
+export interface LedgerEntry {
+  date: string;
+  type: "product" | "cost" | "payment";
+  orderId: string;
+  orderName: string;
+  description: string;
+  reference?: string;
+  currency: string;
+  // Owed to the supplier
+  debit: number;
+  // Paid to the supplier
+  credit: number;
+  // Running balance in the entry's currency
+  balance: number;
+}
+
+export interface SupplierLedger {
+  supplier: string;
+  entries: LedgerEntry[];
+  // Closing balance per currency; positive means we still owe the supplier
+  balances: Record<string, number>;
+}
+
+export interface SupplierNameUsage {
+  name: string;
+  // Set when a supplier record has exactly this name
+  supplierId?: string;
+  products: number;
+  orders: number;
+  costs: number;
+  payments: number;
+}
+
+export interface DuplicateSupplierGroup {
+  names: SupplierNameUsage[];
+  // The name to keep by default: a supplier record, then the most used
+  suggestedName: string;
+}
+
+export interface MilestoneLeadTime {
+  // For untyped milestones that match no type, their level and name instead
+  milestoneTypeId: string;
+  name: string;
+  level: "product" | "order";
+  // Days from the order date to the milestone's actual date
+  averageLeadDays: number;
+  count: number;
+}
+
+export interface SupplierScorecard {
+  productCount: number;
+  orderCount: number;
+  leadTimes: MilestoneLeadTime[];
+  // Milestones with both a target and an actual date
+  measuredMilestones: number;
+  // Share of measured milestones reached by their target date, 0-1
+  onTimeRate: number | null;
+  // Average days past target; negative when milestones land early
+  averageSlipDays: number | null;
+  priceChangedProducts: number;
+  // Share of products whose price changed after they were ordered, 0-1
+  priceChangeRate: number | null;
+}
+
+// One order's line for an item, for its price history across orders
+export interface PriceHistoryPoint {
+  orderId: string;
+  orderName: string;
+  productId: string;
+  date: string;
+  quantity: number;
+  pricePerUnit: number;
+  currency: string;
+  // At the order's rates
+  pricePerUnitILS: number;
+  finalCostPerUnitILS: number;
+  // Unit price change from the previous order in percent, null for the first
+  priceChangePct: number | null;
+  // Rose more than the price increase threshold
+  flagged: boolean;
+}
+
+// The same item's unit price on its previous order
+export interface PreviousPrice {
+  orderId: string;
+  pricePerUnit: number;
+  currency: string;
+  changePct: number;
+  flagged: boolean;
+}
+
+export interface ShipmentSummary {
+  shipmentId: string;
+  productCount: number;
+  quantity: number;
+  valueILS: number;
+  cbm: number;
+  kg: number;
+  // Costs scoped to the shipment
+  costsILS: number;
+}
+
+export interface FxSummary {
+  actualPaidILS: number;
+  realizedFxILS: number;
+  unratedPaymentCount: number;
+}
+
+export interface CustomsValuation {
+  goodsILS: number;
+  freightILS: number;
+  insuranceILS: number;
+  cifILS: number;
+  dutyILS: number;
+  purchaseTaxILS: number;
+  vatILS: number;
+  // Products without an HS code or without a matching rate
+  unclassifiedCount: number;
+}
+
 export interface OrderSummary {
   productCount: number;
   totalProductsILS: number;
   totalCostsILS: number;
   totalOrderILS: number;
+  // Goods + costs + duty and purchase tax, excluding recoverable VAT
+  totalLandedILS: number;
   totalPaidILS: number;
   balanceILS: number;
   totalCBM: number;
   totalKG: number;
 }
 
+export function normalizeHsCode(hsCode: string): string {
+  return hsCode.replace(/\D/g, "");
+}
+
+// Most specific rate whose HS code is a prefix of the product's code
+export function findCustomsRate(
+  hsCode: string | undefined,
+  customsRates: Doc<"customsRates">[]
+): Doc<"customsRates"> | undefined {
+  const code = normalizeHsCode(hsCode || "");
+  if (!code) return undefined;
+
+  let best: Doc<"customsRates"> | undefined;
+  for (const rate of customsRates) {
+    const prefix = normalizeHsCode(rate.hsCode);
+    if (!prefix || !code.startsWith(prefix)) continue;
+    if (!best || prefix.length > normalizeHsCode(best.hsCode).length) {
+      best = rate;
+    }
+  }
+  return best;
+}
+
+export type AllocatableProduct = Pick<
+  Doc<"products">,
+  "productId" | "quantity" | "priceTotal" | "currency" | "cbmTotal" | "kgTotal"
+>;
+
+// Splits one cost (in ILS) across the products it applies to, keyed by productId.
+// With decimals set, shares are rounded and add up to the rounded cost exactly.
+export function allocateCost(
+  cost: Pick<Doc<"additionalCosts">, "allocationMethod" | "volumetricDivisor">,
+  costILS: number,
+  linkedProducts: AllocatableProduct[],
+  weights: Record<string, number>,
+  rates: ExchangeRates,
+  decimals?: number
+): Record<string, number> {
+  const shares: Record<string, number> = {};
+  if (linkedProducts.length === 0) return shares;
+
+  // Each method reduces to a basis per product; the cost is split pro rata
+  let basis: (p: AllocatableProduct) => number;
+
+  switch (cost.allocationMethod) {
+    case "נפח":
+      basis = (p) => p.cbmTotal;
+      break;
+    case "משקל":
+      basis = (p) => p.kgTotal;
+      break;
+    case "עלות":
+      basis = (p) => toILS(p.priceTotal, p.currency, rates);
+      break;
+    case "כמות":
+      basis = (p) => p.quantity;
+      break;
+    case "משקל לחיוב":
+      basis = (p) => getChargeableWeight(p, cost.volumetricDivisor);
+      break;
+    case "אחוזים":
+    case "ידני":
+      basis = (p) => weights[p.productId] || 0;
+      break;
+    case "שווה":
+    default:
+      basis = () => 1;
+      break;
+  }
+
+  const total = linkedProducts.reduce((sum, p) => sum + basis(p), 0);
+
+  const amount = decimals === undefined ? costILS : roundTo(costILS, decimals);
+
+  for (const p of linkedProducts) {
+    shares[p.productId] = total > 0 ? (basis(p) / total) * amount : 0;
+  }
+
+  return decimals === undefined ? shares : roundShares(shares, decimals);
+}
+
+// The part of each product loaded on one shipment, with quantity, value,
+// volume and weight scaled to the units on board
+export function getShipmentProducts(
+  shipmentId: string,
+  products: AllocatableProduct[],
+  shipmentAllocations: Pick<Doc<"shipmentAllocations">, "shipmentId" | "productId" | "quantity">[]
+): AllocatableProduct[] {
+  return shipmentAllocations
+    .filter((a) => a.shipmentId === shipmentId && a.quantity > 0)
+    .flatMap((allocation) => {
+      const product = products.find((p) => p.productId === allocation.productId);
+      if (!product) return [];
+      const share = product.quantity > 0 ? allocation.quantity / product.quantity : 0;
+      return [
+        {
+          productId: product.productId,
+          quantity: allocation.quantity,
+          priceTotal: product.priceTotal * share,
+          currency: product.currency,
+          cbmTotal: product.cbmTotal * share,
+          kgTotal: product.kgTotal * share,
+        },
+      ];
+    });
+}
+
+// The products a cost is split over. A shipment's cost covers what is on that
+// shipment only, falling back to the whole order until products are assigned
+// to it; links narrow that down, and links to products none of which are on
+// the shipment fall back to the linked products so the cost is never dropped.
+export function getCostAllocationProducts(
+  shipmentId: string | undefined,
+  linkedProductIds: string[],
+  products: AllocatableProduct[],
+  shipmentAllocations: Pick<Doc<"shipmentAllocations">, "shipmentId" | "productId" | "quantity">[]
+): AllocatableProduct[] {
+  const isLinked = (p: AllocatableProduct) =>
+    linkedProductIds.length === 0 || linkedProductIds.includes(p.productId);
+
+  const shipmentProducts = shipmentId
+    ? getShipmentProducts(shipmentId, products, shipmentAllocations).filter(isLinked)
+    : [];
+  return shipmentProducts.length > 0 ? shipmentProducts : products.filter(isLinked);
+}
+
 export function calculateProductCosts(
   products: Doc<"products">[],
   costs: Doc<"additionalCosts">[],
   links: Doc<"costProductLinks">[],
-  usdRate: number,
-  cnyRate: number
+  rates: ExchangeRates,
+  customsRates: Doc<"customsRates">[] = [],
+  decimals: number = DEFAULT_SETTINGS.allocationDecimals,
+  shipmentAllocations: Doc<"shipmentAllocations">[] = []
 ): ProductWithCosts[] {
-  return products.map((product) => {
-    const priceILS = toILS(
-      product.priceTotal,
-      product.currency,
-      usdRate,
-      cnyRate
+  const allocations = costs.map((cost) => {
+    const costLinks = links.filter(
+      (l) => l.costId === cost.costId && l.isLinked
     );
+    const linkedProductIds = costLinks.map((l) => l.productId);
 
-    let allocatedCosts = 0;
+    // If no specific links, cost applies to all products
+    const linkedProducts = getCostAllocationProducts(
+      cost.shipmentId,
+      linkedProductIds,
+      products,
+      shipmentAllocations
+    );
 
-    for (const cost of costs) {
-      const costILS = toILS(cost.amount, cost.currency, usdRate, cnyRate);
+    const weights = Object.fromEntries(
+      costLinks.map((l) => [l.productId, l.weight || 0])
+    );
 
-      const linkedProductIds = links
-        .filter((l) => l.costId === cost.costId && l.isLinked)
-        .map((l) => l.productId);
+    return {
+      cost,
+      shares: allocateCost(
+        cost,
+        toILS(cost.amount, cost.currency, rates),
+        linkedProducts,
+        weights,
+        rates,
+        decimals
+      ),
+    };
+  });
 
-      // If no specific links, cost applies to all products
-      const isLinkedToThisProduct =
-        linkedProductIds.length === 0 ||
-        linkedProductIds.includes(product.productId);
+  return products.map((product) => {
+    const priceILS = toILS(product.priceTotal, product.currency, rates);
 
-      if (!isLinkedToThisProduct) continue;
+    const costBreakdown: CostShare[] = allocations
+      .filter(({ shares }) => shares[product.productId] !== undefined)
+      .map(({ cost, shares }) => ({
+        costId: cost.costId,
+        description: cost.description,
+        category: cost.category,
+        shareILS: shares[product.productId],
+      }));
 
-      // Get products this cost applies to
-      const linkedProducts = products.filter(
-        (p) =>
-          linkedProductIds.length === 0 ||
-          linkedProductIds.includes(p.productId)
-      );
+    const allocatedCosts = costBreakdown.reduce(
+      (sum, c) => sum + c.shareILS,
+      0
+    );
+    const allocatedCifCosts = costBreakdown
+      .filter((c) => c.category && CIF_CATEGORIES.includes(c.category))
+      .reduce((sum, c) => sum + c.shareILS, 0);
 
-      if (linkedProducts.length === 0) continue;
-
-      let share = 0;
-
-      switch (cost.allocationMethod) {
-        case "נפח": {
-          const totalCBM = linkedProducts.reduce(
-            (sum, p) => sum + p.cbmTotal,
-            0
-          );
-          share =
-            totalCBM > 0 ? (product.cbmTotal / totalCBM) * costILS : 0;
-          break;
-        }
-        case "משקל": {
-          const totalKG = linkedProducts.reduce(
-            (sum, p) => sum + p.kgTotal,
-            0
-          );
-          share = totalKG > 0 ? (product.kgTotal / totalKG) * costILS : 0;
-          break;
-        }
-        case "עלות": {
-          const totalCost = linkedProducts.reduce(
-            (sum, p) => sum + toILS(p.priceTotal, p.currency, usdRate, cnyRate),
-            0
-          );
-          share = totalCost > 0 ? (priceILS / totalCost) * costILS : 0;
-          break;
-        }
-        case "כמות": {
-          const totalQty = linkedProducts.reduce(
-            (sum, p) => sum + p.quantity,
-            0
-          );
-          share =
-            totalQty > 0 ? (product.quantity / totalQty) * costILS : 0;
-          break;
-        }
-        case "שווה":
-        default:
-          share = costILS / linkedProducts.length;
-          break;
-      }
+    const customsRate = findCustomsRate(product.hsCode, customsRates);
+    const dutyRate = customsRate?.dutyRate ?? 0;
+    const purchaseTaxRate = customsRate?.purchaseTaxRate ?? 0;
 
-      allocatedCosts += share;
-    }
+    // Purchase tax is levied on CIF + duty, VAT on top of both
+    const customsValueILS = priceILS + allocatedCifCosts;
+    const dutyILS = customsValueILS * (dutyRate / 100);
+    const purchaseTaxILS =
+      (customsValueILS + dutyILS) * (purchaseTaxRate / 100);
+    const vatILS =
+      (customsValueILS + dutyILS + purchaseTaxILS) * (VAT_RATE / 100);
 
-    const finalCostILS = priceILS + allocatedCosts;
+    const finalCostILS = priceILS + allocatedCosts + dutyILS + purchaseTaxILS;
     const finalCostPerUnitILS =
       product.quantity > 0 ? finalCostILS / product.quantity : 0;
 
@@ -143,12 +896,536 @@ export function calculateProductCosts(
       ...product,
       priceILS,
       additionalCostsILS: allocatedCosts,
+      costBreakdown,
+      customsValueILS,
+      dutyRate,
+      purchaseTaxRate,
+      dutyILS,
+      purchaseTaxILS,
+      vatILS,
       finalCostILS,
       finalCostPerUnitILS,
     };
   });
 }
 
+export function calculatePaymentWithILS(
+  payment: Doc<"payments">,
+  rates: ExchangeRates
+): PaymentWithILS {
+  const amountILS = toILS(payment.amount, payment.currency, rates);
+  const actualAmountILS =
+    payment.appliedRate !== undefined
+      ? payment.amount * payment.appliedRate
+      : amountILS;
+
+  return {
+    ...payment,
+    amountILS,
+    actualAmountILS,
+    fxGainLossILS: amountILS - actualAmountILS,
+  };
+}
+
+export function calculateFxSummary(paymentsWithILS: PaymentWithILS[]): FxSummary {
+  const approvedPayments = paymentsWithILS.filter((p) => p.status === "approved");
+
+  return {
+    actualPaidILS: approvedPayments.reduce((sum, p) => sum + p.actualAmountILS, 0),
+    realizedFxILS: approvedPayments.reduce((sum, p) => sum + p.fxGainLossILS, 0),
+    unratedPaymentCount: approvedPayments.filter(
+      (p) => p.currency !== "ILS" && p.appliedRate === undefined
+    ).length,
+  };
+}
+
+// Link amounts are optional, but once one is set they must cover the whole payment
+export function validatePaymentLinkAmounts(
+  paymentAmount: number,
+  amounts: (number | undefined)[]
+): string | null {
+  const given = amounts.filter((a): a is number => a !== undefined);
+  if (given.length === 0) return null;
+
+  if (given.length < amounts.length) {
+    return "Every linked item needs an amount once one of them has";
+  }
+  if (given.some((a) => !(a >= 0))) return "Link amounts must be non-negative";
+
+  const total = given.reduce((sum, a) => sum + a, 0);
+  if (Math.abs(total - paymentAmount) > 0.01) {
+    return `Link amounts add up to ${total}, not ${paymentAmount}`;
+  }
+
+  return null;
+}
+
+// Credits each payment to the products and costs it is linked to. Links without
+// amounts split the payment in proportion to the linked items' values.
+export function calculatePaymentCoverage(
+  paymentsWithILS: PaymentWithILS[],
+  paymentProductLinks: Doc<"paymentProductLinks">[],
+  paymentCostLinks: Doc<"paymentCostLinks">[],
+  itemValuesILS: Record<string, number>
+): Record<string, PaymentCoverage> {
+  const paid: Record<string, number> = {};
+  const pending: Record<string, number> = {};
+
+  for (const payment of paymentsWithILS) {
+    const links = [
+      ...paymentProductLinks
+        .filter((l) => l.paymentId === payment.paymentId)
+        .map((l) => ({ itemId: l.productId, amount: l.amount })),
+      ...paymentCostLinks
+        .filter((l) => l.paymentId === payment.paymentId)
+        .map((l) => ({ itemId: l.costId, amount: l.amount })),
+    ].filter((l) => l.itemId in itemValuesILS);
+
+    if (links.length === 0) continue;
+
+    const hasAmounts = links.some((l) => l.amount !== undefined);
+    const weights = links.map((l) =>
+      hasAmounts ? l.amount ?? 0 : itemValuesILS[l.itemId]
+    );
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+    const target = payment.status === "approved" ? paid : pending;
+    links.forEach((link, i) => {
+      const share =
+        totalWeight > 0
+          ? (payment.amountILS * weights[i]) / totalWeight
+          : payment.amountILS / links.length;
+      target[link.itemId] = (target[link.itemId] || 0) + share;
+    });
+  }
+
+  return Object.fromEntries(
+    Object.entries(itemValuesILS).map(([itemId, valueILS]) => [
+      itemId,
+      {
+        paidILS: paid[itemId] || 0,
+        pendingILS: pending[itemId] || 0,
+        balanceILS: valueILS - (paid[itemId] || 0),
+      },
+    ])
+  );
+}
+
+// Milestones added before milestone types existed keep their name in `status`
+export const UNTYPED_MILESTONE_TYPE_IDS = ["custom", "legacy"];
+
+export function isUntypedMilestone(milestone: { milestoneTypeId: string }): boolean {
+  return UNTYPED_MILESTONE_TYPE_IDS.includes(milestone.milestoneTypeId);
+}
+
+function normalizeMilestoneName(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// The type an untyped milestone's name refers to, ignoring case and spacing
+export function matchMilestoneType<T extends { name: string }>(
+  name: string,
+  types: T[]
+): T | undefined {
+  const key = normalizeMilestoneName(name);
+  return types.find((type) => normalizeMilestoneName(type.name) === key);
+}
+
+export function getMilestoneName(
+  milestone: { milestoneTypeId: string; status?: string },
+  types: { typeId: string; name: string }[]
+): string {
+  return types.find((t) => t.typeId === milestone.milestoneTypeId)?.name ?? milestone.status ?? "";
+}
+
+// By target (or actual) date; same-day and undated milestones by their
+// type's default order, untyped ones last
+export function sortMilestones<
+  T extends { milestoneTypeId: string; targetDate?: string; actualDate?: string },
+>(milestones: T[], types: { typeId: string; defaultOrder: number }[]): T[] {
+  const typeOrder = (milestone: T) =>
+    types.find((t) => t.typeId === milestone.milestoneTypeId)?.defaultOrder ?? Infinity;
+
+  return [...milestones].sort((a, b) => {
+    const dateA = a.targetDate || a.actualDate || "";
+    const dateB = b.targetDate || b.actualDate || "";
+    if (dateA !== dateB) return dateA.localeCompare(dateB);
+    const orderA = typeOrder(a);
+    const orderB = typeOrder(b);
+    return orderA === orderB ? 0 : orderA < orderB ? -1 : 1;
+  });
+}
+
+// Lead times, punctuality and price stability for one supplier's products
+// and orders, from their milestones and logged price changes
+export function calculateSupplierScorecard(data: {
+  products: Doc<"products">[];
+  orders: Doc<"orders">[];
+  productMilestones: Doc<"productMilestones">[];
+  orderMilestones: Doc<"orderMilestones">[];
+  milestoneTypes: Doc<"milestoneTypes">[];
+  priceChanges: Doc<"priceChanges">[];
+}): SupplierScorecard {
+  const orderById = new Map(data.orders.map((o) => [o.orderId, o]));
+  const productById = new Map(data.products.map((p) => [p.productId, p]));
+
+  const productOrderDate = (product: Doc<"products">) =>
+    product.orderDate || orderById.get(product.orderId)?.createdDate.split("T")[0];
+
+  // An order counts from its earliest product order date
+  const orderDate = (order: Doc<"orders">) =>
+    data.products
+      .filter((p) => p.orderId === order.orderId && p.orderDate)
+      .map((p) => p.orderDate as string)
+      .sort()[0] || order.createdDate.split("T")[0];
+
+  const measured = [
+    ...data.productMilestones.flatMap((milestone) => {
+      const product = productById.get(milestone.productId);
+      return product
+        ? [{ milestone, level: "product" as const, baseDate: productOrderDate(product) }]
+        : [];
+    }),
+    ...data.orderMilestones.flatMap((milestone) => {
+      const order = orderById.get(milestone.orderId);
+      return order ? [{ milestone, level: "order" as const, baseDate: orderDate(order) }] : [];
+    }),
+  ];
+
+  // Untyped milestones count with the type their name matches, or else with
+  // the other untyped milestones of the same level and name
+  const leadTimeGroup = (
+    milestone: { milestoneTypeId: string; status?: string },
+    level: "product" | "order"
+  ) => {
+    const type = isUntypedMilestone(milestone)
+      ? matchMilestoneType(
+          milestone.status || "",
+          data.milestoneTypes.filter((t) => t.level === level)
+        )
+      : data.milestoneTypes.find((t) => t.typeId === milestone.milestoneTypeId);
+    if (type) {
+      return {
+        milestoneTypeId: type.typeId,
+        name: type.name,
+        level,
+        defaultOrder: type.defaultOrder,
+      };
+    }
+
+    const name = milestone.status?.trim();
+    if (!isUntypedMilestone(milestone) || !name) return undefined;
+    return {
+      milestoneTypeId: `${level}:${normalizeMilestoneName(name)}`,
+      name,
+      level,
+      defaultOrder: Infinity,
+    };
+  };
+
+  type LeadTimeGroup = Omit<MilestoneLeadTime, "averageLeadDays" | "count"> & {
+    defaultOrder: number;
+    days: number[];
+  };
+  const groups = new Map<string, LeadTimeGroup>();
+  const slips: number[] = [];
+  for (const { milestone, level, baseDate } of measured) {
+    if (!milestone.actualDate) continue;
+    const group = baseDate ? leadTimeGroup(milestone, level) : undefined;
+    if (baseDate && group) {
+      const existing = groups.get(group.milestoneTypeId) ?? { ...group, days: [] };
+      existing.days.push(daysBetween(baseDate, milestone.actualDate));
+      groups.set(group.milestoneTypeId, existing);
+    }
+    if (milestone.targetDate) slips.push(daysBetween(milestone.targetDate, milestone.actualDate));
+  }
+
+  const average = (values: number[]) =>
+    roundTo(values.reduce((sum, value) => sum + value, 0) / values.length, 1);
+
+  // Typed groups by their default order, name-only groups after them
+  const leadTimes = [...groups.values()]
+    .sort((a, b) =>
+      a.defaultOrder === b.defaultOrder ? 0 : a.defaultOrder < b.defaultOrder ? -1 : 1
+    )
+    .map((group) => ({
+      milestoneTypeId: group.milestoneTypeId,
+      name: group.name,
+      level: group.level,
+      averageLeadDays: average(group.days),
+      count: group.days.length,
+    }));
+
+  const changedProductIds = new Set(
+    data.priceChanges
+      .filter((change) => {
+        const product = productById.get(change.productId);
+        const ordered = product && productOrderDate(product);
+        return product && (!ordered || change.changedDate.split("T")[0] >= ordered);
+      })
+      .map((change) => change.productId)
+  );
+
+  return {
+    productCount: data.products.length,
+    orderCount: data.orders.length,
+    leadTimes,
+    measuredMilestones: slips.length,
+    onTimeRate:
+      slips.length > 0 ? slips.filter((slip) => slip <= 0).length / slips.length : null,
+    averageSlipDays: slips.length > 0 ? average(slips) : null,
+    priceChangedProducts: changedProductIds.size,
+    priceChangeRate:
+      data.products.length > 0 ? changedProductIds.size / data.products.length : null,
+  };
+}
+
+export function calculateCustomsValuation(
+  productsWithCosts: ProductWithCosts[],
+  costsWithILS: CostWithILS[],
+  customsRates: Doc<"customsRates">[]
+): CustomsValuation {
+  const sumCategory = (category: string) =>
+    costsWithILS
+      .filter((c) => c.category === category)
+      .reduce((sum, c) => sum + c.amountILS, 0);
+
+  return {
+    goodsILS: productsWithCosts.reduce((sum, p) => sum + p.priceILS, 0),
+    freightILS: sumCategory("freight"),
+    insuranceILS: sumCategory("insurance"),
+    cifILS: productsWithCosts.reduce((sum, p) => sum + p.customsValueILS, 0),
+    dutyILS: productsWithCosts.reduce((sum, p) => sum + p.dutyILS, 0),
+    purchaseTaxILS: productsWithCosts.reduce(
+      (sum, p) => sum + p.purchaseTaxILS,
+      0
+    ),
+    vatILS: productsWithCosts.reduce((sum, p) => sum + p.vatILS, 0),
+    unclassifiedCount: productsWithCosts.filter(
+      (p) => !findCustomsRate(p.hsCode, customsRates)
+    ).length,
+  };
+}
+
+// Groups an order's products by supplier, biggest supplier first
+export function calculateSupplierBreakdown(
+  products: (ProductWithCosts & PaymentCoverage)[]
+): SupplierBreakdownRow[] {
+  const totalCBM = products.reduce((sum, p) => sum + p.cbmTotal, 0);
+  const totalKG = products.reduce((sum, p) => sum + p.kgTotal, 0);
+  const rows = new Map<string, SupplierBreakdownRow>();
+
+  for (const product of products) {
+    const key = product.supplierId || normalizeSupplierName(product.supplier || "");
+    const row = rows.get(key) || {
+      supplierId: product.supplierId,
+      supplier: product.supplier?.trim() || "",
+      productCount: 0,
+      productsILS: 0,
+      allocatedCostsILS: 0,
+      dutyAndTaxILS: 0,
+      landedILS: 0,
+      cbm: 0,
+      kg: 0,
+      cbmShare: 0,
+      kgShare: 0,
+      paidILS: 0,
+      balanceILS: 0,
+    };
+
+    row.productCount++;
+    row.productsILS += product.priceILS;
+    row.allocatedCostsILS += product.additionalCostsILS;
+    row.dutyAndTaxILS += product.dutyILS + product.purchaseTaxILS;
+    row.landedILS += product.finalCostILS;
+    row.cbm += product.cbmTotal;
+    row.kg += product.kgTotal;
+    row.paidILS += product.paidILS;
+    row.balanceILS += product.balanceILS;
+    rows.set(key, row);
+  }
+
+  return [...rows.values()]
+    .map((row) => ({
+      ...row,
+      cbmShare: totalCBM > 0 ? row.cbm / totalCBM : 0,
+      kgShare: totalKG > 0 ? row.kg / totalKG : 0,
+    }))
+    .sort((a, b) => b.productsILS - a.productsILS);
+}
+
+// A product name ignoring case and spacing, stored as products.nameKey
+export function productNameKey(name: string): string {
+  return normalizeSupplierName(name);
+}
+
+// Order lines are the same item when they come from one catalog item,
+// otherwise when both name and supplier match
+export function priceHistoryKey(
+  line: Pick<Doc<"products">, "catalogId" | "name" | "supplier" | "supplierId">
+): string {
+  if (line.catalogId) return `catalog:${line.catalogId}`;
+  const supplier = line.supplierId || normalizeSupplierName(line.supplier || "");
+  return `line:${productNameKey(line.name)}|${supplier}`;
+}
+
+// Percent change in unit price; compared in ILS only when the currency changed
+function unitPriceChangePct(
+  previous: Pick<PriceHistoryPoint, "pricePerUnit" | "currency" | "pricePerUnitILS">,
+  current: Pick<PriceHistoryPoint, "pricePerUnit" | "currency" | "pricePerUnitILS">
+): number | null {
+  const [before, after] =
+    previous.currency === current.currency
+      ? [previous.pricePerUnit, current.pricePerUnit]
+      : [previous.pricePerUnitILS, current.pricePerUnitILS];
+  return before > 0 ? roundTo(((after - before) / before) * 100, 1) : null;
+}
+
+// Oldest first, each line compared with the one before it
+export function calculatePriceHistory(
+  points: Omit<PriceHistoryPoint, "priceChangePct" | "flagged">[],
+  threshold: number
+): PriceHistoryPoint[] {
+  const sorted = [...points].sort((a, b) => a.date.localeCompare(b.date));
+  return sorted.map((point, i) => {
+    const priceChangePct = i > 0 ? unitPriceChangePct(sorted[i - 1], point) : null;
+    return {
+      ...point,
+      priceChangePct,
+      flagged: priceChangePct !== null && priceChangePct > threshold,
+    };
+  });
+}
+
+// Lines that can share a price history key with this one, looked up by
+// catalog item, else by supplier record, else by name. Lines saved before
+// nameKey existed are still found by their exact name.
+export async function getSameItemCandidates(
+  ctx: QueryCtx,
+  line: Pick<Doc<"products">, "catalogId" | "name" | "supplierId">
+): Promise<Doc<"products">[]> {
+  if (line.catalogId) {
+    return await ctx.db
+      .query("products")
+      .withIndex("by_catalogId", (q) => q.eq("catalogId", line.catalogId))
+      .collect();
+  }
+
+  if (line.supplierId) {
+    return await ctx.db
+      .query("products")
+      .withIndex("by_supplierId", (q) => q.eq("supplierId", line.supplierId))
+      .collect();
+  }
+
+  const [byKey, byName] = await Promise.all([
+    ctx.db
+      .query("products")
+      .withIndex("by_nameKey", (q) => q.eq("nameKey", productNameKey(line.name)))
+      .collect(),
+    ctx.db
+      .query("products")
+      .withIndex("by_name", (q) => q.eq("name", line.name))
+      .collect(),
+  ]);
+  return [...byKey, ...byName.filter((p) => p.nameKey === undefined)];
+}
+
+// Lines that can share a price history key with these products, with their orders
+export async function getSameItemLines(
+  ctx: QueryCtx,
+  products: Doc<"products">[]
+): Promise<{ lines: Doc<"products">[]; orders: Doc<"orders">[] }> {
+  const lines = new Map<string, Doc<"products">>();
+
+  for (const product of products) {
+    const candidates = await getSameItemCandidates(ctx, product);
+    for (const line of candidates) lines.set(line.productId, line);
+  }
+
+  const orderIds = [...new Set([...lines.values()].map((line) => line.orderId))];
+  const orders = await Promise.all(
+    orderIds.map((orderId) =>
+      ctx.db
+        .query("orders")
+        .withIndex("by_orderId", (q) => q.eq("orderId", orderId))
+        .first()
+    )
+  );
+
+  return {
+    lines: [...lines.values()],
+    orders: orders.filter((order): order is Doc<"orders"> => order !== null),
+  };
+}
+
+// For each product, the latest earlier line for the same item in another order
+// and in the same currency, keyed by productId
+export function findPreviousPrices(
+  products: Doc<"products">[],
+  allProducts: Doc<"products">[],
+  orders: Doc<"orders">[],
+  threshold: number
+): Record<string, PreviousPrice> {
+  const orderDates = new Map(orders.map((o) => [o.orderId, o.createdDate.split("T")[0]]));
+  const lineDate = (p: Doc<"products">) => p.orderDate || orderDates.get(p.orderId) || "";
+
+  const previous: Record<string, PreviousPrice> = {};
+  for (const product of products) {
+    const key = priceHistoryKey(product);
+    const date = lineDate(product);
+    const earlier = allProducts
+      .filter(
+        (p) =>
+          p.orderId !== product.orderId &&
+          p.currency === product.currency &&
+          lineDate(p) <= date &&
+          priceHistoryKey(p) === key
+      )
+      .sort((a, b) => lineDate(b).localeCompare(lineDate(a)))[0];
+
+    if (!earlier || earlier.pricePerUnit <= 0) continue;
+
+    const changePct = roundTo(
+      ((product.pricePerUnit - earlier.pricePerUnit) / earlier.pricePerUnit) * 100,
+      1
+    );
+    previous[product.productId] = {
+      orderId: earlier.orderId,
+      pricePerUnit: earlier.pricePerUnit,
+      currency: earlier.currency,
+      changePct,
+      flagged: changePct > threshold,
+    };
+  }
+
+  return previous;
+}
+
+// Contents and scoped costs of each shipment, in ILS at the order's rates
+export function calculateShipmentSummaries(
+  shipments: Doc<"shipments">[],
+  shipmentAllocations: Doc<"shipmentAllocations">[],
+  products: Doc<"products">[],
+  costsWithILS: CostWithILS[],
+  rates: ExchangeRates
+): ShipmentSummary[] {
+  return shipments.map((shipment) => {
+    const onBoard = getShipmentProducts(shipment.shipmentId, products, shipmentAllocations);
+    return {
+      shipmentId: shipment.shipmentId,
+      productCount: onBoard.length,
+      quantity: onBoard.reduce((sum, p) => sum + p.quantity, 0),
+      valueILS: onBoard.reduce((sum, p) => sum + toILS(p.priceTotal, p.currency, rates), 0),
+      cbm: onBoard.reduce((sum, p) => sum + p.cbmTotal, 0),
+      kg: onBoard.reduce((sum, p) => sum + p.kgTotal, 0),
+      costsILS: costsWithILS
+        .filter((c) => c.shipmentId === shipment.shipmentId)
+        .reduce((sum, c) => sum + c.amountILS, 0),
+    };
+  });
+}
+
 export function calculateOrderSummary(
   productsWithCosts: ProductWithCosts[],
   costsWithILS: CostWithILS[],
@@ -160,6 +1437,10 @@ export function calculateOrderSummary(
   );
   const totalCostsILS = costsWithILS.reduce((sum, c) => sum + c.amountILS, 0);
   const totalOrderILS = totalProductsILS + totalCostsILS;
+  const totalLandedILS = productsWithCosts.reduce(
+    (sum, p) => sum + p.finalCostILS,
+    0
+  );
   // Only count approved payments toward total paid
   const approvedPayments = paymentsWithILS.filter(p => p.status === "approved");
   const totalPaidILS = approvedPayments.reduce((sum, p) => sum + p.amountILS, 0);
@@ -171,6 +1452,7 @@ export function calculateOrderSummary(
     totalProductsILS,
     totalCostsILS,
     totalOrderILS,
+    totalLandedILS,
     totalPaidILS,
     balanceILS: totalOrderILS - totalPaidILS,
     totalCBM,
@@ -178,6 +1460,185 @@ export function calculateOrderSummary(
   };
 }
 
+export type ContainerType = "20ft" | "40ft" | "40HC";
+
+// Practical load limits, a little under the nominal internal volume
+export const CONTAINER_SPECS: Record<
+  ContainerType,
+  { maxCBM: number; maxKG: number }
+> = {
+  "20ft": { maxCBM: 28, maxKG: 21700 },
+  "40ft": { maxCBM: 58, maxKG: 26500 },
+  "40HC": { maxCBM: 68, maxKG: 26500 },
+};
+
+// Below this volume a shared (LCL) shipment is usually cheaper than a container
+export const LCL_MAX_CBM = 15;
+
+// How far over a container boundary still counts as "just over"
+const NEAR_BOUNDARY_CBM = 2;
+const NEAR_BOUNDARY_KG = 1000;
+
+// Larger orders skip comparing container mixes and get 40HCs only
+const MAX_MIXED_CONTAINERS = 200;
+
+export interface ContainerOption {
+  type: ContainerType;
+  count: number;
+  volumeUtilization: number;
+  weightUtilization: number;
+}
+
+export interface ContainerPlan {
+  isLCL: boolean;
+  // LCL is charged per W/M: the greater of CBM and tonnes
+  lclChargeableUnits: number;
+  containers: { type: ContainerType; count: number }[];
+  volumeUtilization: number;
+  weightUtilization: number;
+  // Each container type on its own, for comparison
+  options: ContainerOption[];
+  // Set when a smaller mix (no containers = LCL) would almost fit the order
+  nearBoundary?: {
+    containers: { type: ContainerType; count: number }[];
+    overCBM: number;
+    overKG: number;
+  };
+}
+
+function countContainers(
+  counts: Record<ContainerType, number>
+): { maxCBM: number; maxKG: number; total: number } {
+  let maxCBM = 0;
+  let maxKG = 0;
+  let total = 0;
+  for (const type of Object.keys(CONTAINER_SPECS) as ContainerType[]) {
+    maxCBM += CONTAINER_SPECS[type].maxCBM * counts[type];
+    maxKG += CONTAINER_SPECS[type].maxKG * counts[type];
+    total += counts[type];
+  }
+  return { maxCBM, maxKG, total };
+}
+
+export function planContainers(totalCBM: number, totalKG: number): ContainerPlan {
+  const types = Object.keys(CONTAINER_SPECS) as ContainerType[];
+
+  const options: ContainerOption[] = types.map((type) => {
+    const spec = CONTAINER_SPECS[type];
+    const count = Math.max(
+      1,
+      Math.ceil(totalCBM / spec.maxCBM),
+      Math.ceil(totalKG / spec.maxKG)
+    );
+    return {
+      type,
+      count,
+      volumeUtilization: totalCBM / (spec.maxCBM * count),
+      weightUtilization: totalKG / (spec.maxKG * count),
+    };
+  });
+
+  const lclChargeableUnits = Math.max(totalCBM, totalKG / 1000);
+
+  if (totalCBM <= LCL_MAX_CBM && totalKG <= CONTAINER_SPECS["20ft"].maxKG) {
+    return {
+      isLCL: true,
+      lclChargeableUnits,
+      containers: [],
+      volumeUtilization: 0,
+      weightUtilization: 0,
+      options,
+    };
+  }
+
+  // Fewest containers that fit, then the least unused capacity. A 40HC holds
+  // at least as much as the other types in both volume and weight, so the
+  // 40HC-only count is the fewest possible; only mixes of that many
+  // containers are compared. Past MAX_MIXED_CONTAINERS it is used as is.
+  const total = options.find((o) => o.type === "40HC")?.count ?? 1;
+  let best: Record<ContainerType, number> = { "20ft": 0, "40ft": 0, "40HC": total };
+  let bestStats = countContainers(best);
+  const almostFitting: Record<ContainerType, number>[] = [];
+  const addIfAlmostFitting = (counts: Record<ContainerType, number>) => {
+    const stats = countContainers(counts);
+    if (
+      totalCBM - stats.maxCBM <= NEAR_BOUNDARY_CBM &&
+      totalKG - stats.maxKG <= NEAR_BOUNDARY_KG
+    ) {
+      almostFitting.push(counts);
+    }
+  };
+
+  // One container fewer holds the most as 40HCs only
+  if (total > 1) addIfAlmostFitting({ "20ft": 0, "40ft": 0, "40HC": total - 1 });
+
+  const cbmPerSwap = CONTAINER_SPECS["40HC"].maxCBM - CONTAINER_SPECS["40ft"].maxCBM;
+  for (let a = 0; total <= MAX_MIXED_CONTAINERS && a <= total; a++) {
+    // Swapping a 40HC for a 40ft only gives up volume, so take as many
+    // swaps as still fit; one swap more is the closest mix that doesn't
+    const withoutSwaps = countContainers({ "20ft": a, "40ft": 0, "40HC": total - a });
+    const swaps = Math.min(
+      total - a,
+      Math.floor((withoutSwaps.maxCBM - totalCBM) / cbmPerSwap)
+    );
+
+    if (swaps >= 0) {
+      const counts = { "20ft": a, "40ft": swaps, "40HC": total - a - swaps };
+      const stats = countContainers(counts);
+      if (stats.maxKG < totalKG) {
+        // Short on weight whatever the swaps, but the closest on volume
+        addIfAlmostFitting(counts);
+      } else if (stats.maxCBM < bestStats.maxCBM) {
+        best = counts;
+        bestStats = stats;
+      }
+    }
+
+    const over = Math.max(0, swaps + 1);
+    if (over <= total - a) {
+      addIfAlmostFitting({ "20ft": a, "40ft": over, "40HC": total - a - over });
+    }
+  }
+
+  const toMix = (mix: Record<ContainerType, number>) =>
+    types
+      .filter((type) => mix[type] > 0)
+      .map((type) => ({ type, count: mix[type] }));
+
+  let nearBoundary: ContainerPlan["nearBoundary"];
+  if (
+    totalCBM - LCL_MAX_CBM <= NEAR_BOUNDARY_CBM &&
+    totalKG <= CONTAINER_SPECS["20ft"].maxKG
+  ) {
+    nearBoundary = { containers: [], overCBM: totalCBM - LCL_MAX_CBM, overKG: 0 };
+  } else {
+    // Only mixes that would beat the recommendation are worth trimming for
+    for (const mix of almostFitting) {
+      const stats = countContainers(mix);
+      const isSmaller =
+        stats.total < bestStats.total ||
+        (stats.total === bestStats.total && stats.maxCBM < bestStats.maxCBM);
+      if (!isSmaller) continue;
+
+      const overCBM = Math.max(0, totalCBM - stats.maxCBM);
+      const overKG = Math.max(0, totalKG - stats.maxKG);
+      if (!nearBoundary || overCBM < nearBoundary.overCBM) {
+        nearBoundary = { containers: toMix(mix), overCBM, overKG };
+      }
+    }
+  }
+
+  return {
+    isLCL: false,
+    lclChargeableUnits,
+    containers: toMix(best),
+    volumeUtilization: bestStats.maxCBM > 0 ? totalCBM / bestStats.maxCBM : 0,
+    weightUtilization: bestStats.maxKG > 0 ? totalKG / bestStats.maxKG : 0,
+    options,
+    nearBoundary,
+  };
+}
+
 export function generateId(prefix: string): string {
   return `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 }
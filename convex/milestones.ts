@@ -1,29 +1,41 @@
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
-import { generateId } from "./helpers";
+import { query, mutation, type MutationCtx } from "./_generated/server";
+import {
+  generateId,
+  getMilestoneDueDate,
+  isUntypedMilestone,
+  matchMilestoneType,
+} from "./helpers";
+
+const levelValidator = v.union(v.literal("product"), v.literal("order"));
+
+// Given to types created from untyped milestone names
+const DEFAULT_MILESTONE_COLOR = "#6b7280";
 
 // Milestone Types
 export const getMilestoneTypes = query({
   args: {},
   handler: async (ctx) => {
-    return await ctx.db.query("milestoneTypes").collect();
+    const types = await ctx.db.query("milestoneTypes").collect();
+    return types.sort((a, b) => a.defaultOrder - b.defaultOrder);
   },
 });
 
 export const getMilestoneTypesByLevel = query({
-  args: { level: v.union(v.literal("product"), v.literal("order")) },
+  args: { level: levelValidator },
   handler: async (ctx, { level }) => {
-    return await ctx.db
+    const types = await ctx.db
       .query("milestoneTypes")
       .withIndex("by_level", (q) => q.eq("level", level))
       .collect();
+    return types.sort((a, b) => a.defaultOrder - b.defaultOrder);
   },
 });
 
 export const addMilestoneType = mutation({
   args: {
     name: v.string(),
-    level: v.union(v.literal("product"), v.literal("order")),
+    level: levelValidator,
     defaultOrder: v.number(),
     color: v.string(),
   },
@@ -46,7 +58,7 @@ export const seedMilestoneType = mutation({
   args: {
     typeId: v.string(),
     name: v.string(),
-    level: v.union(v.literal("product"), v.literal("order")),
+    level: levelValidator,
     defaultOrder: v.number(),
     color: v.string(),
   },
@@ -106,11 +118,148 @@ export const deleteMilestoneType = mutation({
 
     if (!milestoneType) return false;
 
+    // Milestones and payment terms point at the type by id
+    const [orderMilestones, productMilestones, paymentTerms] = await Promise.all([
+      ctx.db.query("orderMilestones").collect(),
+      ctx.db.query("productMilestones").collect(),
+      ctx.db.query("paymentTerms").collect(),
+    ]);
+    const inUse =
+      [...orderMilestones, ...productMilestones].some((m) => m.milestoneTypeId === typeId) ||
+      paymentTerms.some((term) => term.installments.some((i) => i.milestoneTypeId === typeId));
+    if (inUse) {
+      throw new Error(`Milestone type ${milestoneType.name} is in use`);
+    }
+
     await ctx.db.delete(milestoneType._id);
     return true;
   },
 });
 
+export const getUntypedMilestoneCounts = query({
+  args: {},
+  handler: async (ctx) => {
+    const [orderMilestones, productMilestones] = await Promise.all([
+      ctx.db.query("orderMilestones").collect(),
+      ctx.db.query("productMilestones").collect(),
+    ]);
+
+    return {
+      order: orderMilestones.filter(isUntypedMilestone).length,
+      product: productMilestones.filter(isUntypedMilestone).length,
+    };
+  },
+});
+
+// Moves 'custom' and 'legacy' milestones onto the type whose name matches
+// the name they kept in `status`, optionally creating types for the rest
+export const migrateUntypedMilestones = mutation({
+  args: { createMissingTypes: v.boolean() },
+  handler: async (ctx, { createMissingTypes }) => {
+    const [allTypes, orderMilestones, productMilestones] = await Promise.all([
+      ctx.db.query("milestoneTypes").collect(),
+      ctx.db.query("orderMilestones").collect(),
+      ctx.db.query("productMilestones").collect(),
+    ]);
+
+    let typed = 0;
+    let created = 0;
+    let remaining = 0;
+    // Order milestone types newly set on each order, to re-date its payments
+    const retypedOrders = new Map<string, Set<string>>();
+
+    const levels = [
+      { level: "order" as const, milestones: orderMilestones },
+      { level: "product" as const, milestones: productMilestones },
+    ];
+
+    for (const { level, milestones } of levels) {
+      const types: { typeId: string; name: string }[] = allTypes.filter((t) => t.level === level);
+      let nextOrder =
+        Math.max(0, ...allTypes.filter((t) => t.level === level).map((t) => t.defaultOrder)) + 1;
+
+      for (const milestone of milestones.filter(isUntypedMilestone)) {
+        const name = milestone.status?.trim();
+        if (!name) {
+          remaining++;
+          continue;
+        }
+
+        let type = matchMilestoneType(name, types);
+        if (!type && createMissingTypes) {
+          type = { typeId: generateId("ms_type"), name };
+          await ctx.db.insert("milestoneTypes", {
+            ...type,
+            level,
+            defaultOrder: nextOrder++,
+            color: DEFAULT_MILESTONE_COLOR,
+          });
+          types.push(type);
+          created++;
+        }
+
+        if (!type) {
+          remaining++;
+          continue;
+        }
+
+        // The type now carries the name
+        await ctx.db.patch(milestone._id, { milestoneTypeId: type.typeId, status: undefined });
+        typed++;
+
+        if ("orderId" in milestone) {
+          const typeIds = retypedOrders.get(milestone.orderId) ?? new Set<string>();
+          typeIds.add(type.typeId);
+          retypedOrders.set(milestone.orderId, typeIds);
+        }
+      }
+    }
+
+    for (const [orderId, typeIds] of retypedOrders) {
+      await rescheduleMilestonePayments(ctx, orderId, [...typeIds]);
+    }
+
+    return { typed, created, remaining };
+  },
+});
+
+// Re-dates the order's pending payments that wait on a milestone type
+async function rescheduleMilestonePayments(
+  ctx: MutationCtx,
+  orderId: string,
+  milestoneTypeIds: string[]
+) {
+  const [milestones, payments] = await Promise.all([
+    ctx.db
+      .query("orderMilestones")
+      .withIndex("by_orderId", (q) => q.eq("orderId", orderId))
+      .collect(),
+    ctx.db
+      .query("payments")
+      .withIndex("by_orderId", (q) => q.eq("orderId", orderId))
+      .collect(),
+  ]);
+
+  for (const payment of payments) {
+    if (
+      payment.status !== "pending" ||
+      !payment.milestoneTypeId ||
+      !milestoneTypeIds.includes(payment.milestoneTypeId)
+    ) {
+      continue;
+    }
+
+    const dueDate = getMilestoneDueDate(
+      milestones,
+      payment.milestoneTypeId,
+      payment.milestoneDayOffset ?? 0
+    );
+    if (dueDate === payment.dueDate) continue;
+
+    await ctx.db.patch(payment._id, dueDate ? { dueDate, date: dueDate } : { dueDate });
+  }
+}
+
 // Order Milestones
 export const getOrderMilestones = query({
   args: { orderId: v.string() },
@@ -144,6 +293,8 @@ export const addOrderMilestone = mutation({
       notes: args.notes,
     });
 
+    await rescheduleMilestonePayments(ctx, args.orderId, [args.milestoneTypeId]);
+
     return milestoneId;
   },
 });
@@ -173,6 +324,12 @@ export const updateOrderMilestone = mutation({
     if (args.notes !== undefined) updates.notes = args.notes;
 
     await ctx.db.patch(milestone._id, updates);
+
+    await rescheduleMilestonePayments(ctx, milestone.orderId, [
+      milestone.milestoneTypeId,
+      ...(args.milestoneTypeId !== undefined ? [args.milestoneTypeId] : []),
+    ]);
+
     return true;
   },
 });
@@ -188,6 +345,9 @@ export const deleteOrderMilestone = mutation({
     if (!milestone) return false;
 
     await ctx.db.delete(milestone._id);
+
+    await rescheduleMilestonePayments(ctx, milestone.orderId, [milestone.milestoneTypeId]);
+
     return true;
   },
 });
@@ -2,17 +2,32 @@ import { v } from "convex/values";
 import { query, mutation } from "./_generated/server";
 import {
   toILS,
+  getOrderRates,
+  findMissingRates,
+  findMissingExpectedCosts,
+  getAppSettings,
+  roundTo,
   calculateProductCosts,
   calculateOrderSummary,
-  generateId,
+  calculateCustomsValuation,
+  calculatePaymentCoverage,
+  calculateSupplierBreakdown,
+  calculatePaymentWithILS,
+  calculateFxSummary,
+  calculateShipmentSummaries,
+  findPreviousPrices,
+  getSameItemLines,
+  planContainers,
   type CostWithILS,
   type PaymentWithILS,
 } from "./helpers";
+import { resolveSupplier } from "./suppliers";
 
 export const getAllOrders = query({
   args: {},
   handler: async (ctx) => {
     const orders = await ctx.db.query("orders").collect();
+    const settings = await getAppSettings(ctx);
 
     const ordersWithSummary = await Promise.all(
       orders.map(async (order) => {
@@ -31,20 +46,24 @@ export const getAllOrders = query({
           .withIndex("by_orderId", (q) => q.eq("orderId", order.orderId))
           .collect();
 
+        const rates = getOrderRates(order);
+
         const totalProductsILS = products.reduce(
-          (sum, p) => sum + toILS(p.priceTotal, p.currency, order.usdRate, order.cnyRate),
+          (sum, p) => sum + toILS(p.priceTotal, p.currency, rates),
           0
         );
 
+        // Each cost rounded as in getOrderFull, so both show the same total
         const totalCostsILS = costs.reduce(
-          (sum, c) => sum + toILS(c.amount, c.currency, order.usdRate, order.cnyRate),
+          (sum, c) =>
+            sum + roundTo(toILS(c.amount, c.currency, rates), settings.allocationDecimals),
           0
         );
 
         // Only count approved payments toward total paid
         const approvedPayments = payments.filter(p => p.status === "approved");
         const totalPaidILS = approvedPayments.reduce(
-          (sum, p) => sum + toILS(p.amount, p.currency, order.usdRate, order.cnyRate),
+          (sum, p) => sum + toILS(p.amount, p.currency, rates),
           0
         );
 
@@ -58,6 +77,15 @@ export const getAllOrders = query({
           totalOrderILS,
           totalPaidILS,
           balanceILS: totalOrderILS - totalPaidILS,
+          missingRates: findMissingRates(
+            [
+              ...products.map((p) => p.currency),
+              ...costs.map((c) => c.currency),
+              ...payments.map((p) => p.currency),
+            ],
+            rates
+          ),
+          missingExpectedCosts: findMissingExpectedCosts(order.incoterm, costs),
         };
       })
     );
@@ -86,7 +114,7 @@ export const getOrderFull = query({
 
     if (!order) return null;
 
-    const [products, costs, payments, allLinks, orderMilestones, milestoneTypes, allPaymentProductLinks, allPaymentCostLinks] =
+    const [products, costs, payments, allLinks, orderMilestones, milestoneTypes, allPaymentProductLinks, allPaymentCostLinks, customsRates, shipments] =
       await Promise.all([
         ctx.db
           .query("products")
@@ -108,6 +136,11 @@ export const getOrderFull = query({
         ctx.db.query("milestoneTypes").collect(),
         ctx.db.query("paymentProductLinks").collect(),
         ctx.db.query("paymentCostLinks").collect(),
+        ctx.db.query("customsRates").collect(),
+        ctx.db
+          .query("shipments")
+          .withIndex("by_orderId", (q) => q.eq("orderId", orderId))
+          .collect(),
       ]);
 
     // Filter links to only those relevant to this order's costs
@@ -126,28 +159,59 @@ export const getOrderFull = query({
       productIds.includes(m.productId)
     );
 
+    const rates = getOrderRates(order);
+    const settings = await getAppSettings(ctx);
+    const missingRates = findMissingRates(
+      [
+        ...products.map((p) => p.currency),
+        ...costs.map((c) => c.currency),
+        ...payments.map((p) => p.currency),
+      ],
+      rates
+    );
+
+    // Cost categories the buyer pays under the incoterm but hasn't entered yet
+    const missingExpectedCosts = findMissingExpectedCosts(order.incoterm, costs);
+
     // Calculate costs with ILS
     const costsWithILS: CostWithILS[] = costs.map((cost) => ({
       ...cost,
-      amountILS: toILS(cost.amount, cost.currency, order.usdRate, order.cnyRate),
+      // Rounded like the allocation, so product shares add up to it
+      amountILS: roundTo(
+        toILS(cost.amount, cost.currency, rates),
+        settings.allocationDecimals
+      ),
       linkedProductCount: links.filter(
         (l) => l.costId === cost.costId && l.isLinked
       ).length,
     }));
 
     // Calculate payments with ILS
-    const paymentsWithILS: PaymentWithILS[] = payments.map((payment) => ({
-      ...payment,
-      amountILS: toILS(payment.amount, payment.currency, order.usdRate, order.cnyRate),
-    }));
+    const paymentsWithILS: PaymentWithILS[] = payments.map((payment) =>
+      calculatePaymentWithILS(payment, rates)
+    );
+
+    // Units of each product assigned to this order's shipments
+    const shipmentAllocations = (
+      await Promise.all(
+        shipments.map((s) =>
+          ctx.db
+            .query("shipmentAllocations")
+            .withIndex("by_shipmentId", (q) => q.eq("shipmentId", s.shipmentId))
+            .collect()
+        )
+      )
+    ).flat();
 
     // Calculate product costs with allocation
     const productsWithCosts = calculateProductCosts(
       products,
       costs,
       links,
-      order.usdRate,
-      order.cnyRate
+      rates,
+      customsRates,
+      settings.allocationDecimals,
+      shipmentAllocations
     );
 
     // Calculate order summary
@@ -157,10 +221,61 @@ export const getOrderFull = query({
       paymentsWithILS
     );
 
+    // Recommended container mix for the order's volume and weight
+    const containerPlan = planContainers(summary.totalCBM, summary.totalKG);
+
+    // CIF valuation with duty, purchase tax and recoverable VAT
+    const customs = calculateCustomsValuation(
+      productsWithCosts,
+      costsWithILS,
+      customsRates
+    );
+
+    // Paid vs. owed per product (at its price) and per cost
+    const coverage = calculatePaymentCoverage(
+      paymentsWithILS,
+      paymentProductLinks,
+      paymentCostLinks,
+      Object.fromEntries([
+        ...productsWithCosts.map((p) => [p.productId, p.priceILS]),
+        ...costsWithILS.map((c) => [c.costId, c.amountILS]),
+      ])
+    );
+
+    // Unit price against the same item's previous order, flagged past the threshold
+    const sameItemLines = await getSameItemLines(ctx, products);
+    const previousPrices = findPreviousPrices(
+      products,
+      sameItemLines.lines,
+      sameItemLines.orders,
+      settings.priceIncreaseThreshold
+    );
+
+    const productsWithCoverage = productsWithCosts.map((p) => ({
+      ...p,
+      ...coverage[p.productId],
+      previousPrice: previousPrices[p.productId] ?? null,
+    }));
+
+    // Value, costs, volume and payments per supplier in the order
+    const supplierBreakdown = calculateSupplierBreakdown(productsWithCoverage);
+
+    // What each shipment carries and the costs scoped to it
+    const shipmentSummaries = calculateShipmentSummaries(
+      shipments,
+      shipmentAllocations,
+      products,
+      costsWithILS,
+      rates
+    );
+
+    // Realized FX gain/loss from paying at the payment-date rate
+    const fxSummary = calculateFxSummary(paymentsWithILS);
+
     return {
       order,
-      products: productsWithCosts,
-      costs: costsWithILS,
+      products: productsWithCoverage,
+      costs: costsWithILS.map((c) => ({ ...c, ...coverage[c.costId] })),
       payments: paymentsWithILS,
       links,
       paymentProductLinks,
@@ -169,6 +284,17 @@ export const getOrderFull = query({
       productMilestones,
       milestoneTypes,
       summary,
+      containerPlan,
+      customs,
+      fxSummary,
+      supplierBreakdown,
+      shipments,
+      shipmentAllocations,
+      shipmentSummaries,
+      rates,
+      missingRates,
+      missingExpectedCosts,
+      settings,
     };
   },
 });
@@ -177,8 +303,22 @@ export const createOrder = mutation({
   args: {
     orderName: v.string(),
     supplier: v.optional(v.string()),
+    supplierId: v.optional(v.string()),
     usdRate: v.number(),
     cnyRate: v.number(),
+    exchangeRates: v.optional(v.record(v.string(), v.number())),
+    incoterm: v.optional(
+      v.union(
+        v.literal("EXW"),
+        v.literal("FCA"),
+        v.literal("FOB"),
+        v.literal("CFR"),
+        v.literal("CIF"),
+        v.literal("DAP"),
+        v.literal("DDP")
+      )
+    ),
+    paymentTermId: v.optional(v.string()),
     status: v.optional(v.string()),
     notes: v.optional(v.string()),
     estimatedArrival: v.optional(v.string()),
@@ -188,13 +328,18 @@ export const createOrder = mutation({
     const existingOrders = await ctx.db.query("orders").collect();
     const orderNum = existingOrders.length + 1;
     const orderId = `PO-${year}-${String(orderNum).padStart(3, "0")}`;
+    const supplier = await resolveSupplier(ctx, args.supplierId, args.supplier);
 
     await ctx.db.insert("orders", {
       orderId,
       orderName: args.orderName,
-      supplier: args.supplier,
+      supplier: supplier?.name ?? args.supplier,
+      supplierId: supplier?.supplierId,
       usdRate: args.usdRate,
       cnyRate: args.cnyRate,
+      exchangeRates: args.exchangeRates,
+      incoterm: args.incoterm,
+      paymentTermId: args.paymentTermId,
       createdDate: new Date().toISOString(),
       status: args.status || "חדש",
       notes: args.notes,
@@ -210,8 +355,21 @@ export const updateOrder = mutation({
     orderId: v.string(),
     orderName: v.optional(v.string()),
     supplier: v.optional(v.string()),
+    supplierId: v.optional(v.string()),
     usdRate: v.optional(v.number()),
     cnyRate: v.optional(v.number()),
+    incoterm: v.optional(
+      v.union(
+        v.literal("EXW"),
+        v.literal("FCA"),
+        v.literal("FOB"),
+        v.literal("CFR"),
+        v.literal("CIF"),
+        v.literal("DAP"),
+        v.literal("DDP")
+      )
+    ),
+    paymentTermId: v.optional(v.string()),
     status: v.optional(v.string()),
     notes: v.optional(v.string()),
     estimatedArrival: v.optional(v.string()),
@@ -226,9 +384,17 @@ export const updateOrder = mutation({
 
     const updates: Record<string, unknown> = {};
     if (args.orderName !== undefined) updates.orderName = args.orderName;
-    if (args.supplier !== undefined) updates.supplier = args.supplier;
+    if (args.supplier !== undefined || args.supplierId !== undefined) {
+      const supplier = await resolveSupplier(ctx, args.supplierId, args.supplier);
+      updates.supplier = supplier?.name;
+      updates.supplierId = supplier?.supplierId;
+    }
     if (args.usdRate !== undefined) updates.usdRate = args.usdRate;
     if (args.cnyRate !== undefined) updates.cnyRate = args.cnyRate;
+    if (args.incoterm !== undefined) updates.incoterm = args.incoterm;
+    // An empty id clears the order's terms so the supplier's terms apply again
+    if (args.paymentTermId !== undefined)
+      updates.paymentTermId = args.paymentTermId || undefined;
     if (args.status !== undefined) updates.status = args.status;
     if (args.notes !== undefined) updates.notes = args.notes;
     if (args.estimatedArrival !== undefined)
@@ -239,6 +405,35 @@ export const updateOrder = mutation({
   },
 });
 
+export const setExchangeRate = mutation({
+  args: {
+    orderId: v.string(),
+    currency: v.string(),
+    rate: v.number(),
+  },
+  handler: async (ctx, { orderId, currency, rate }) => {
+    const order = await ctx.db
+      .query("orders")
+      .withIndex("by_orderId", (q) => q.eq("orderId", orderId))
+      .first();
+
+    if (!order) return false;
+
+    // USD and CNY keep living in their dedicated fields
+    if (currency === "USD") {
+      await ctx.db.patch(order._id, { usdRate: rate });
+    } else if (currency === "CNY") {
+      await ctx.db.patch(order._id, { cnyRate: rate });
+    } else if (currency !== "ILS") {
+      await ctx.db.patch(order._id, {
+        exchangeRates: { ...order.exchangeRates, [currency]: rate },
+      });
+    }
+
+    return true;
+  },
+});
+
 export const deleteOrder = mutation({
   args: { orderId: v.string() },
   handler: async (ctx, { orderId }) => {
@@ -274,6 +469,15 @@ export const deleteOrder = mutation({
         await ctx.db.delete(link._id);
       }
 
+      // Delete price changes
+      const priceChanges = await ctx.db
+        .query("priceChanges")
+        .withIndex("by_productId", (q) => q.eq("productId", product.productId))
+        .collect();
+      for (const change of priceChanges) {
+        await ctx.db.delete(change._id);
+      }
+
       await ctx.db.delete(product._id);
     }
 
@@ -334,6 +538,45 @@ export const deleteOrder = mutation({
       await ctx.db.delete(milestone._id);
     }
 
+    // Delete generated documents
+    const documents = await ctx.db
+      .query("documents")
+      .withIndex("by_orderId", (q) => q.eq("orderId", orderId))
+      .collect();
+
+    for (const document of documents) {
+      await ctx.db.delete(document._id);
+    }
+
+    // Delete attachments of the order and its products, costs and payments
+    const attachments = await ctx.db
+      .query("attachments")
+      .withIndex("by_orderId", (q) => q.eq("orderId", orderId))
+      .collect();
+
+    for (const attachment of attachments) {
+      await ctx.storage.delete(attachment.storageId);
+      await ctx.db.delete(attachment._id);
+    }
+
+    // Delete shipments and what was assigned to them
+    const shipments = await ctx.db
+      .query("shipments")
+      .withIndex("by_orderId", (q) => q.eq("orderId", orderId))
+      .collect();
+
+    for (const shipment of shipments) {
+      const allocations = await ctx.db
+        .query("shipmentAllocations")
+        .withIndex("by_shipmentId", (q) => q.eq("shipmentId", shipment.shipmentId))
+        .collect();
+      for (const allocation of allocations) {
+        await ctx.db.delete(allocation._id);
+      }
+
+      await ctx.db.delete(shipment._id);
+    }
+
     // Delete the order itself
     await ctx.db.delete(order._id);
 
@@ -0,0 +1,100 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+import { generateId, validatePaymentInstallments } from "./helpers";
+
+const installmentValidator = v.object({
+  percent: v.number(),
+  description: v.string(),
+  trigger: v.union(v.literal("days"), v.literal("milestone")),
+  dayOffset: v.number(),
+  milestoneTypeId: v.optional(v.string()),
+});
+
+export const getPaymentTerms = query({
+  args: {},
+  handler: async (ctx) => {
+    const terms = await ctx.db.query("paymentTerms").collect();
+    return terms.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+export const addPaymentTerm = mutation({
+  args: {
+    name: v.string(),
+    installments: v.array(installmentValidator),
+  },
+  handler: async (ctx, args) => {
+    const error = validatePaymentInstallments(args.installments);
+    if (error) throw new Error(error);
+
+    const paymentTermId = generateId("TERM");
+
+    await ctx.db.insert("paymentTerms", {
+      paymentTermId,
+      name: args.name,
+      installments: args.installments,
+    });
+
+    return paymentTermId;
+  },
+});
+
+export const updatePaymentTerm = mutation({
+  args: {
+    paymentTermId: v.string(),
+    name: v.optional(v.string()),
+    installments: v.optional(v.array(installmentValidator)),
+  },
+  handler: async (ctx, args) => {
+    const term = await ctx.db
+      .query("paymentTerms")
+      .withIndex("by_paymentTermId", (q) =>
+        q.eq("paymentTermId", args.paymentTermId)
+      )
+      .first();
+
+    if (!term) return false;
+
+    if (args.installments !== undefined) {
+      const error = validatePaymentInstallments(args.installments);
+      if (error) throw new Error(error);
+    }
+
+    const updates: Record<string, unknown> = {};
+    if (args.name !== undefined) updates.name = args.name;
+    if (args.installments !== undefined) updates.installments = args.installments;
+
+    await ctx.db.patch(term._id, updates);
+    return true;
+  },
+});
+
+export const deletePaymentTerm = mutation({
+  args: { paymentTermId: v.string() },
+  handler: async (ctx, { paymentTermId }) => {
+    const term = await ctx.db
+      .query("paymentTerms")
+      .withIndex("by_paymentTermId", (q) => q.eq("paymentTermId", paymentTermId))
+      .first();
+
+    if (!term) return false;
+
+    // Suppliers and orders using the term fall back to a single payment
+    const suppliers = await ctx.db.query("suppliers").collect();
+    for (const supplier of suppliers) {
+      if (supplier.paymentTermId === paymentTermId) {
+        await ctx.db.patch(supplier._id, { paymentTermId: undefined });
+      }
+    }
+
+    const orders = await ctx.db.query("orders").collect();
+    for (const order of orders) {
+      if (order.paymentTermId === paymentTermId) {
+        await ctx.db.patch(order._id, { paymentTermId: undefined });
+      }
+    }
+
+    await ctx.db.delete(term._id);
+    return true;
+  },
+});
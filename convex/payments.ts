@@ -1,6 +1,75 @@
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
-import { generateId } from "./helpers";
+import { query, mutation, type MutationCtx } from "./_generated/server";
+import {
+  AGING_BUCKETS,
+  daysBetween,
+  generateId,
+  getAgingBucket,
+  getOrderRates,
+  requireOrderRate,
+  toILS,
+  validatePaymentLinkAmounts,
+} from "./helpers";
+import type { AgingBucket, AgingPayment, AgingRow } from "./helpers";
+import { deleteAttachmentsFor } from "./attachments";
+import { applyHistoricalRate } from "./rates";
+
+async function getPaymentLinks(ctx: MutationCtx, paymentId: string) {
+  const [productLinks, costLinks] = await Promise.all([
+    ctx.db
+      .query("paymentProductLinks")
+      .withIndex("by_paymentId", (q) => q.eq("paymentId", paymentId))
+      .collect(),
+    ctx.db
+      .query("paymentCostLinks")
+      .withIndex("by_paymentId", (q) => q.eq("paymentId", paymentId))
+      .collect(),
+  ]);
+  return { productLinks, costLinks };
+}
+
+async function replacePaymentLinks(
+  ctx: MutationCtx,
+  paymentId: string,
+  linkedProductIds: string[],
+  linkedCostIds: string[],
+  linkAmounts?: Record<string, number>
+) {
+  const { productLinks, costLinks } = await getPaymentLinks(ctx, paymentId);
+
+  // Delete existing links
+  for (const link of [...productLinks, ...costLinks]) {
+    await ctx.db.delete(link._id);
+  }
+
+  // Create new product links
+  for (const productId of linkedProductIds) {
+    await ctx.db.insert("paymentProductLinks", {
+      paymentId,
+      productId,
+      amount: linkAmounts?.[productId],
+    });
+  }
+
+  // Create new cost links
+  for (const costId of linkedCostIds) {
+    await ctx.db.insert("paymentCostLinks", {
+      paymentId,
+      costId,
+      amount: linkAmounts?.[costId],
+    });
+  }
+}
+
+// After one linked item is deleted the other link amounts no longer add up
+// to the payment, so the remaining links go back to splitting it by value
+export async function clearPaymentLinkAmounts(ctx: MutationCtx, paymentId: string) {
+  const { productLinks, costLinks } = await getPaymentLinks(ctx, paymentId);
+
+  for (const link of [...productLinks, ...costLinks]) {
+    if (link.amount !== undefined) await ctx.db.patch(link._id, { amount: undefined });
+  }
+}
 
 export const getPaymentsByOrderId = query({
   args: { orderId: v.string() },
@@ -34,23 +103,108 @@ export const getPaymentCostLinks = query({
   },
 });
 
+// Pending payments across all orders, bucketed by how long they are overdue and
+// grouped by payee. Amounts are in ILS at each order's rates.
+export const getAgingReport = query({
+  args: { today: v.string() },
+  handler: async (ctx, { today }) => {
+    const payments = await ctx.db.query("payments").collect();
+    const orders = await ctx.db.query("orders").collect();
+
+    const rows = new Map<string, AgingRow>();
+
+    for (const payment of payments) {
+      if (payment.status !== "pending") continue;
+
+      const order = orders.find((o) => o.orderId === payment.orderId);
+      if (!order) continue;
+
+      const amountILS = toILS(payment.amount, payment.currency, getOrderRates(order));
+      const daysOverdue = payment.dueDate ? daysBetween(payment.dueDate, today) : 0;
+      const bucket = payment.dueDate ? getAgingBucket(daysOverdue) : null;
+
+      const payee = payment.payee || "";
+      let row = rows.get(payee);
+      if (!row) {
+        row = {
+          payee,
+          buckets: Object.fromEntries(AGING_BUCKETS.map((b) => [b, 0])) as Record<
+            AgingBucket,
+            number
+          >,
+          unscheduledILS: 0,
+          totalILS: 0,
+          payments: [],
+        };
+        rows.set(payee, row);
+      }
+
+      if (bucket) {
+        row.buckets[bucket] += amountILS;
+      } else {
+        row.unscheduledILS += amountILS;
+      }
+      row.totalILS += amountILS;
+
+      const agingPayment: AgingPayment = {
+        paymentId: payment.paymentId,
+        orderId: payment.orderId,
+        orderName: order.orderName,
+        description: payment.description,
+        dueDate: payment.dueDate,
+        amount: payment.amount,
+        currency: payment.currency,
+        amountILS,
+        daysOverdue,
+        bucket,
+      };
+      row.payments.push(agingPayment);
+    }
+
+    // Most overdue payees first
+    return [...rows.values()]
+      .map((row) => ({
+        ...row,
+        payments: row.payments.sort((a, b) => b.daysOverdue - a.daysOverdue),
+      }))
+      .sort((a, b) => {
+        const overdueA = a.totalILS - a.buckets.current - a.unscheduledILS;
+        const overdueB = b.totalILS - b.buckets.current - b.unscheduledILS;
+        return overdueB - overdueA || b.totalILS - a.totalILS;
+      });
+  },
+});
+
 export const addPayment = mutation({
   args: {
     orderId: v.string(),
     date: v.string(),
     amount: v.number(),
-    currency: v.union(v.literal("USD"), v.literal("CNY"), v.literal("ILS")),
+    currency: v.string(),
     payee: v.optional(v.string()),
     description: v.optional(v.string()),
     reference: v.optional(v.string()),
     status: v.union(v.literal("pending"), v.literal("approved")),
+    appliedRate: v.optional(v.number()),
+    dueDate: v.optional(v.string()),
     linkedProductIds: v.optional(v.array(v.string())),
     linkedCostIds: v.optional(v.array(v.string())),
+    // Amount per linked product or cost, keyed by its id
+    linkAmounts: v.optional(v.record(v.string(), v.number())),
   },
   handler: async (ctx, args) => {
+    await requireOrderRate(ctx, args.orderId, args.currency);
+
+    const linkedIds = [...(args.linkedProductIds ?? []), ...(args.linkedCostIds ?? [])];
+    const error = validatePaymentLinkAmounts(
+      args.amount,
+      linkedIds.map((id) => args.linkAmounts?.[id])
+    );
+    if (error) throw new Error(error);
+
     const paymentId = generateId("PAY");
 
-    await ctx.db.insert("payments", {
+    const id = await ctx.db.insert("payments", {
       paymentId,
       orderId: args.orderId,
       date: args.date,
@@ -60,19 +214,34 @@ export const addPayment = mutation({
       description: args.description,
       reference: args.reference,
       status: args.status,
+      appliedRate: args.appliedRate,
+      // A pending payment is expected to be paid by its date unless told otherwise
+      dueDate:
+        args.dueDate || (args.status === "pending" ? args.date : undefined),
     });
 
+    const payment = await ctx.db.get(id);
+    if (payment) await applyHistoricalRate(ctx, payment);
+
     // Create product links
     if (args.linkedProductIds) {
       for (const productId of args.linkedProductIds) {
-        await ctx.db.insert("paymentProductLinks", { paymentId, productId });
+        await ctx.db.insert("paymentProductLinks", {
+          paymentId,
+          productId,
+          amount: args.linkAmounts?.[productId],
+        });
       }
     }
 
     // Create cost links
     if (args.linkedCostIds) {
       for (const costId of args.linkedCostIds) {
-        await ctx.db.insert("paymentCostLinks", { paymentId, costId });
+        await ctx.db.insert("paymentCostLinks", {
+          paymentId,
+          costId,
+          amount: args.linkAmounts?.[costId],
+        });
       }
     }
 
@@ -85,11 +254,17 @@ export const updatePayment = mutation({
     paymentId: v.string(),
     date: v.optional(v.string()),
     amount: v.optional(v.number()),
-    currency: v.optional(v.union(v.literal("USD"), v.literal("CNY"), v.literal("ILS"))),
+    currency: v.optional(v.string()),
     payee: v.optional(v.string()),
     description: v.optional(v.string()),
     reference: v.optional(v.string()),
     status: v.optional(v.union(v.literal("pending"), v.literal("approved"))),
+    appliedRate: v.optional(v.number()),
+    dueDate: v.optional(v.string()),
+    // Replaces the payment's links when given, checked against the new amount
+    linkedProductIds: v.optional(v.array(v.string())),
+    linkedCostIds: v.optional(v.array(v.string())),
+    linkAmounts: v.optional(v.record(v.string(), v.number())),
   },
   handler: async (ctx, args) => {
     const payment = await ctx.db
@@ -99,6 +274,30 @@ export const updatePayment = mutation({
 
     if (!payment) return false;
 
+    if (args.currency !== undefined) {
+      await requireOrderRate(ctx, payment.orderId, args.currency);
+    }
+
+    const amount = args.amount ?? payment.amount;
+    const replacesLinks = args.linkedProductIds !== undefined || args.linkedCostIds !== undefined;
+    if (replacesLinks) {
+      const error = validatePaymentLinkAmounts(
+        amount,
+        [...(args.linkedProductIds ?? []), ...(args.linkedCostIds ?? [])].map(
+          (id) => args.linkAmounts?.[id]
+        )
+      );
+      if (error) throw new Error(error);
+    } else if (amount !== payment.amount) {
+      // Existing link amounts must still cover the new amount
+      const { productLinks, costLinks } = await getPaymentLinks(ctx, payment.paymentId);
+      const error = validatePaymentLinkAmounts(
+        amount,
+        [...productLinks, ...costLinks].map((link) => link.amount)
+      );
+      if (error) throw new Error(error);
+    }
+
     const updates: Record<string, unknown> = {};
     if (args.date !== undefined) updates.date = args.date;
     if (args.amount !== undefined) updates.amount = args.amount;
@@ -107,8 +306,49 @@ export const updatePayment = mutation({
     if (args.description !== undefined) updates.description = args.description;
     if (args.reference !== undefined) updates.reference = args.reference;
     if (args.status !== undefined) updates.status = args.status;
+    if (args.dueDate !== undefined) updates.dueDate = args.dueDate || undefined;
+    // A due date set by hand no longer follows the milestone
+    if (args.dueDate !== undefined && (args.dueDate || undefined) !== payment.dueDate) {
+      updates.milestoneTypeId = undefined;
+      updates.milestoneDayOffset = undefined;
+    }
+    if (
+      args.status === "pending" &&
+      payment.status !== "pending" &&
+      args.dueDate === undefined &&
+      !payment.dueDate
+    ) {
+      updates.dueDate = args.date ?? payment.date;
+    }
+
+    // A new date or currency invalidates the rate locked in for the old one,
+    // and only approved payments keep one
+    if (args.status !== undefined && args.status !== "approved") {
+      updates.appliedRate = undefined;
+    } else if (args.appliedRate !== undefined) {
+      updates.appliedRate = args.appliedRate;
+    } else if (
+      (args.date !== undefined && args.date !== payment.date) ||
+      (args.currency !== undefined && args.currency !== payment.currency)
+    ) {
+      updates.appliedRate = undefined;
+    }
 
     await ctx.db.patch(payment._id, updates);
+
+    if (replacesLinks) {
+      await replacePaymentLinks(
+        ctx,
+        payment.paymentId,
+        args.linkedProductIds ?? [],
+        args.linkedCostIds ?? [],
+        args.linkAmounts
+      );
+    }
+
+    const updated = await ctx.db.get(payment._id);
+    if (updated) await applyHistoricalRate(ctx, updated);
+
     return true;
   },
 });
@@ -118,45 +358,35 @@ export const updatePaymentLinks = mutation({
     paymentId: v.string(),
     linkedProductIds: v.array(v.string()),
     linkedCostIds: v.array(v.string()),
+    linkAmounts: v.optional(v.record(v.string(), v.number())),
   },
-  handler: async (ctx, { paymentId, linkedProductIds, linkedCostIds }) => {
-    // Delete existing product links
-    const existingProductLinks = await ctx.db
-      .query("paymentProductLinks")
-      .withIndex("by_paymentId", (q) => q.eq("paymentId", paymentId))
-      .collect();
-
-    for (const link of existingProductLinks) {
-      await ctx.db.delete(link._id);
-    }
-
-    // Delete existing cost links
-    const existingCostLinks = await ctx.db
-      .query("paymentCostLinks")
+  handler: async (ctx, { paymentId, linkedProductIds, linkedCostIds, linkAmounts }) => {
+    const payment = await ctx.db
+      .query("payments")
       .withIndex("by_paymentId", (q) => q.eq("paymentId", paymentId))
-      .collect();
+      .first();
 
-    for (const link of existingCostLinks) {
-      await ctx.db.delete(link._id);
-    }
+    if (!payment) return false;
 
-    // Create new product links
-    for (const productId of linkedProductIds) {
-      await ctx.db.insert("paymentProductLinks", { paymentId, productId });
-    }
+    const error = validatePaymentLinkAmounts(
+      payment.amount,
+      [...linkedProductIds, ...linkedCostIds].map((id) => linkAmounts?.[id])
+    );
+    if (error) throw new Error(error);
 
-    // Create new cost links
-    for (const costId of linkedCostIds) {
-      await ctx.db.insert("paymentCostLinks", { paymentId, costId });
-    }
+    await replacePaymentLinks(ctx, paymentId, linkedProductIds, linkedCostIds, linkAmounts);
 
     return true;
   },
 });
 
 export const approvePayment = mutation({
-  args: { paymentId: v.string() },
-  handler: async (ctx, { paymentId }) => {
+  args: {
+    paymentId: v.string(),
+    // The day it was actually paid; the scheduled date is kept when omitted
+    paidDate: v.optional(v.string()),
+  },
+  handler: async (ctx, { paymentId, paidDate }) => {
     const payment = await ctx.db
       .query("payments")
       .withIndex("by_paymentId", (q) => q.eq("paymentId", paymentId))
@@ -164,7 +394,17 @@ export const approvePayment = mutation({
 
     if (!payment) return false;
 
-    await ctx.db.patch(payment._id, { status: "approved" });
+    const updates: Record<string, unknown> = { status: "approved" };
+    if (paidDate && paidDate !== payment.date) {
+      updates.date = paidDate;
+      updates.appliedRate = undefined;
+    }
+
+    await ctx.db.patch(payment._id, updates);
+
+    const approved = await ctx.db.get(payment._id);
+    if (approved) await applyHistoricalRate(ctx, approved);
+
     return true;
   },
 });
@@ -199,6 +439,9 @@ export const dismissPayment = mutation({
       await ctx.db.delete(link._id);
     }
 
+    // Delete attachments
+    await deleteAttachmentsFor(ctx, "payment", paymentId);
+
     // Delete the payment
     await ctx.db.delete(payment._id);
     return true;
@@ -235,6 +478,9 @@ export const deletePayment = mutation({
       await ctx.db.delete(link._id);
     }
 
+    // Delete attachments
+    await deleteAttachmentsFor(ctx, "payment", paymentId);
+
     // Delete the payment
     await ctx.db.delete(payment._id);
     return true;
@@ -1,6 +1,25 @@
 import { v } from "convex/values";
 import { query, mutation } from "./_generated/server";
-import { generateId } from "./helpers";
+import {
+  addDays,
+  calculateCartonTotals,
+  calculatePriceHistory,
+  calculateProductCosts,
+  generateId,
+  getAppSettings,
+  getMilestoneDueDate,
+  getOrderRates,
+  getPaymentTerm,
+  getSameItemCandidates,
+  priceHistoryKey,
+  productNameKey,
+  requireOrderRate,
+  splitByInstallments,
+  toILS,
+} from "./helpers";
+import { resolveSupplier } from "./suppliers";
+import { deleteAttachmentsFor } from "./attachments";
+import { clearPaymentLinkAmounts } from "./payments";
 
 export const getProductsByOrderId = query({
   args: { orderId: v.string() },
@@ -22,11 +41,109 @@ export const getProductById = query({
   },
 });
 
+// Supplier unit price and landed unit cost of one item across every order,
+// keyed by catalog item, or by name and supplier for lines outside the catalog
+export const getPriceHistory = query({
+  args: {
+    catalogId: v.optional(v.string()),
+    name: v.optional(v.string()),
+    supplier: v.optional(v.string()),
+    supplierId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    if (!args.catalogId && !args.name) {
+      throw new Error("Price history needs a catalog item or a product name");
+    }
+
+    const key = priceHistoryKey({ ...args, name: args.name || "" });
+
+    const [candidates, customsRates, settings] = await Promise.all([
+      getSameItemCandidates(ctx, { ...args, name: args.name || "" }),
+      ctx.db.query("customsRates").collect(),
+      getAppSettings(ctx),
+    ]);
+
+    const lines = candidates.filter((p) => priceHistoryKey(p) === key);
+    const orderIds = [...new Set(lines.map((p) => p.orderId))];
+
+    // Landed cost depends on the whole order, so each order is allocated in full
+    const points = await Promise.all(
+      orderIds.map(async (orderId) => {
+        const order = await ctx.db
+          .query("orders")
+          .withIndex("by_orderId", (q) => q.eq("orderId", orderId))
+          .first();
+        if (!order) return [];
+
+        const costs = await ctx.db
+          .query("additionalCosts")
+          .withIndex("by_orderId", (q) => q.eq("orderId", orderId))
+          .collect();
+        const orderProducts = await ctx.db
+          .query("products")
+          .withIndex("by_orderId", (q) => q.eq("orderId", orderId))
+          .collect();
+        const rates = getOrderRates(order);
+
+        const [links, shipmentAllocations] = await Promise.all([
+          Promise.all(
+            costs.map((c) =>
+              ctx.db
+                .query("costProductLinks")
+                .withIndex("by_costId", (q) => q.eq("costId", c.costId))
+                .collect()
+            )
+          ),
+          Promise.all(
+            orderProducts.map((p) =>
+              ctx.db
+                .query("shipmentAllocations")
+                .withIndex("by_productId", (q) => q.eq("productId", p.productId))
+                .collect()
+            )
+          ),
+        ]);
+
+        const productsWithCosts = calculateProductCosts(
+          orderProducts,
+          costs,
+          links.flat(),
+          rates,
+          customsRates,
+          settings.allocationDecimals,
+          shipmentAllocations.flat()
+        );
+
+        return productsWithCosts
+          .filter((p) => priceHistoryKey(p) === key)
+          .map((p) => ({
+            orderId,
+            orderName: order.orderName,
+            productId: p.productId,
+            date: p.orderDate || order.createdDate.split("T")[0],
+            quantity: p.quantity,
+            pricePerUnit: p.pricePerUnit,
+            currency: p.currency,
+            pricePerUnitILS: toILS(p.pricePerUnit, p.currency, rates),
+            finalCostPerUnitILS: p.finalCostPerUnitILS,
+          }));
+      })
+    );
+
+    return {
+      threshold: settings.priceIncreaseThreshold,
+      points: calculatePriceHistory(points.flat(), settings.priceIncreaseThreshold),
+    };
+  },
+});
+
 export const addProduct = mutation({
   args: {
     orderId: v.string(),
+    catalogId: v.optional(v.string()),
     name: v.string(),
     supplier: v.optional(v.string()),
+    supplierId: v.optional(v.string()),
     quantity: v.number(),
     pricePerUnit: v.number(),
     priceTotal: v.number(),
@@ -35,17 +152,36 @@ export const addProduct = mutation({
     cbmTotal: v.number(),
     kgPerUnit: v.number(),
     kgTotal: v.number(),
+    cartonCount: v.optional(v.number()),
+    unitsPerCarton: v.optional(v.number()),
+    cartonLengthCm: v.optional(v.number()),
+    cartonWidthCm: v.optional(v.number()),
+    cartonHeightCm: v.optional(v.number()),
+    cartonGrossKg: v.optional(v.number()),
+    cartonNetKg: v.optional(v.number()),
+    hsCode: v.optional(v.string()),
     orderDate: v.optional(v.string()),
     notes: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    await requireOrderRate(ctx, args.orderId, args.currency);
+
     const productId = generateId("PROD");
 
+    // Link the product to a supplier record, creating one for a new name
+    const supplier = await resolveSupplier(ctx, args.supplierId, args.supplier);
+
+    // Carton packing, when given, decides the volume and weight
+    const cartonTotals = calculateCartonTotals(args.quantity, args);
+
     await ctx.db.insert("products", {
       productId,
       orderId: args.orderId,
+      catalogId: args.catalogId,
       name: args.name,
-      supplier: args.supplier,
+      nameKey: productNameKey(args.name),
+      supplier: supplier?.name ?? args.supplier,
+      supplierId: supplier?.supplierId,
       quantity: args.quantity,
       pricePerUnit: args.pricePerUnit,
       priceTotal: args.priceTotal,
@@ -54,29 +190,82 @@ export const addProduct = mutation({
       cbmTotal: args.cbmTotal,
       kgPerUnit: args.kgPerUnit,
       kgTotal: args.kgTotal,
+      cartonCount: args.cartonCount || undefined,
+      unitsPerCarton: args.unitsPerCarton || undefined,
+      cartonLengthCm: args.cartonLengthCm || undefined,
+      cartonWidthCm: args.cartonWidthCm || undefined,
+      cartonHeightCm: args.cartonHeightCm || undefined,
+      cartonGrossKg: args.cartonGrossKg || undefined,
+      cartonNetKg: args.cartonNetKg || undefined,
+      ...cartonTotals,
+      hsCode: args.hsCode,
       orderDate: args.orderDate,
       notes: args.notes,
     });
 
-    // Auto-create pending payment for this product
-    const paymentCurrency = ["USD", "CNY", "ILS"].includes(args.currency)
-      ? (args.currency as "USD" | "CNY" | "ILS")
-      : "USD";
+    const order = await ctx.db
+      .query("orders")
+      .withIndex("by_orderId", (q) => q.eq("orderId", args.orderId))
+      .first();
+    if (!order) throw new Error(`Order ${args.orderId} not found`);
 
-    const paymentId = generateId("PAY");
-    await ctx.db.insert("payments", {
-      paymentId,
-      orderId: args.orderId,
-      date: args.orderDate || new Date().toISOString().split("T")[0],
-      amount: args.priceTotal,
-      currency: paymentCurrency,
-      payee: args.supplier || "",
-      description: `תשלום עבור ${args.name}`,
-      status: "pending",
-    });
+    const baseDate =
+      args.orderDate ||
+      order.createdDate.split("T")[0] ||
+      new Date().toISOString().split("T")[0];
+    const payee = supplier?.name || order.supplier || "";
+    const paymentTerm = await getPaymentTerm(ctx, order, payee);
+
+    // Auto-create pending payments for this product, one per installment of
+    // the payment terms, or a single payment when there are none
+    const installments = paymentTerm?.installments ?? [];
+    const { allocationDecimals } = await getAppSettings(ctx);
+    const amounts = splitByInstallments(args.priceTotal, installments, allocationDecimals);
+    const schedule = installments.length
+      ? installments.map((installment, i) => ({ installment, amount: amounts[i] }))
+      : [{ installment: null, amount: args.priceTotal }];
+
+    const orderMilestones = await ctx.db
+      .query("orderMilestones")
+      .withIndex("by_orderId", (q) => q.eq("orderId", args.orderId))
+      .collect();
 
-    // Link the payment to the product
-    await ctx.db.insert("paymentProductLinks", { paymentId, productId });
+    for (const { installment, amount } of schedule) {
+      let dueDate: string | undefined = baseDate;
+      // Kept on the payment so a later milestone date schedules it
+      const milestoneTypeId =
+        installment?.trigger === "milestone" ? installment.milestoneTypeId : undefined;
+      if (installment?.trigger === "days") {
+        dueDate = addDays(baseDate, installment.dayOffset);
+      } else if (installment && milestoneTypeId) {
+        // Stays open until the milestone has a date
+        dueDate = getMilestoneDueDate(orderMilestones, milestoneTypeId, installment.dayOffset);
+      }
+
+      const paymentId = generateId("PAY");
+      await ctx.db.insert("payments", {
+        paymentId,
+        orderId: args.orderId,
+        date: dueDate || baseDate,
+        dueDate,
+        milestoneTypeId,
+        milestoneDayOffset: milestoneTypeId ? installment?.dayOffset : undefined,
+        amount,
+        currency: args.currency,
+        payee,
+        description: installment
+          ? `${installment.description} - ${args.name}`
+          : `תשלום עבור ${args.name}`,
+        status: "pending",
+      });
+
+      // Link the payment to the product
+      await ctx.db.insert("paymentProductLinks", {
+        paymentId,
+        productId,
+        amount,
+      });
+    }
 
     return productId;
   },
@@ -85,8 +274,10 @@ export const addProduct = mutation({
 export const updateProduct = mutation({
   args: {
     productId: v.string(),
+    catalogId: v.optional(v.string()),
     name: v.optional(v.string()),
     supplier: v.optional(v.string()),
+    supplierId: v.optional(v.string()),
     quantity: v.optional(v.number()),
     pricePerUnit: v.optional(v.number()),
     priceTotal: v.optional(v.number()),
@@ -95,6 +286,14 @@ export const updateProduct = mutation({
     cbmTotal: v.optional(v.number()),
     kgPerUnit: v.optional(v.number()),
     kgTotal: v.optional(v.number()),
+    cartonCount: v.optional(v.number()),
+    unitsPerCarton: v.optional(v.number()),
+    cartonLengthCm: v.optional(v.number()),
+    cartonWidthCm: v.optional(v.number()),
+    cartonHeightCm: v.optional(v.number()),
+    cartonGrossKg: v.optional(v.number()),
+    cartonNetKg: v.optional(v.number()),
+    hsCode: v.optional(v.string()),
     orderDate: v.optional(v.string()),
     notes: v.optional(v.string()),
   },
@@ -106,9 +305,33 @@ export const updateProduct = mutation({
 
     if (!product) return false;
 
+    if (args.currency !== undefined) {
+      await requireOrderRate(ctx, product.orderId, args.currency);
+    }
+
+    // Units already assigned to shipments can't be ordered away
+    if (args.quantity !== undefined) {
+      const shipmentAllocations = await ctx.db
+        .query("shipmentAllocations")
+        .withIndex("by_productId", (q) => q.eq("productId", args.productId))
+        .collect();
+      const shipped = shipmentAllocations.reduce((sum, a) => sum + a.quantity, 0);
+      if (args.quantity < shipped) {
+        throw new Error(`${shipped} units of ${product.name} are already assigned to shipments`);
+      }
+    }
+
     const updates: Record<string, unknown> = {};
-    if (args.name !== undefined) updates.name = args.name;
-    if (args.supplier !== undefined) updates.supplier = args.supplier;
+    if (args.catalogId !== undefined) updates.catalogId = args.catalogId || undefined;
+    if (args.name !== undefined) {
+      updates.name = args.name;
+      updates.nameKey = productNameKey(args.name);
+    }
+    if (args.supplier !== undefined || args.supplierId !== undefined) {
+      const supplier = await resolveSupplier(ctx, args.supplierId, args.supplier);
+      updates.supplier = supplier?.name;
+      updates.supplierId = supplier?.supplierId;
+    }
     if (args.quantity !== undefined) updates.quantity = args.quantity;
     if (args.pricePerUnit !== undefined) updates.pricePerUnit = args.pricePerUnit;
     if (args.priceTotal !== undefined) updates.priceTotal = args.priceTotal;
@@ -117,10 +340,40 @@ export const updateProduct = mutation({
     if (args.cbmTotal !== undefined) updates.cbmTotal = args.cbmTotal;
     if (args.kgPerUnit !== undefined) updates.kgPerUnit = args.kgPerUnit;
     if (args.kgTotal !== undefined) updates.kgTotal = args.kgTotal;
+    if (args.cartonCount !== undefined) updates.cartonCount = args.cartonCount || undefined;
+    if (args.unitsPerCarton !== undefined) updates.unitsPerCarton = args.unitsPerCarton || undefined;
+    if (args.cartonLengthCm !== undefined) updates.cartonLengthCm = args.cartonLengthCm || undefined;
+    if (args.cartonWidthCm !== undefined) updates.cartonWidthCm = args.cartonWidthCm || undefined;
+    if (args.cartonHeightCm !== undefined) updates.cartonHeightCm = args.cartonHeightCm || undefined;
+    if (args.cartonGrossKg !== undefined) updates.cartonGrossKg = args.cartonGrossKg || undefined;
+    if (args.cartonNetKg !== undefined) updates.cartonNetKg = args.cartonNetKg || undefined;
+
+    // Re-derive volume and weight when the quantity or the cartons change
+    const cartonTotals = calculateCartonTotals(
+      (updates.quantity as number | undefined) ?? product.quantity,
+      { ...product, ...updates }
+    );
+    if (cartonTotals) Object.assign(updates, cartonTotals);
+    if (args.hsCode !== undefined) updates.hsCode = args.hsCode;
     if (args.orderDate !== undefined) updates.orderDate = args.orderDate;
     if (args.notes !== undefined) updates.notes = args.notes;
 
     await ctx.db.patch(product._id, updates);
+
+    const newPricePerUnit = args.pricePerUnit ?? product.pricePerUnit;
+    const newCurrency = args.currency ?? product.currency;
+    if (newPricePerUnit !== product.pricePerUnit || newCurrency !== product.currency) {
+      await ctx.db.insert("priceChanges", {
+        productId: product.productId,
+        orderId: product.orderId,
+        oldPricePerUnit: product.pricePerUnit,
+        newPricePerUnit,
+        oldCurrency: product.currency,
+        newCurrency,
+        changedDate: new Date().toISOString(),
+      });
+    }
+
     return true;
   },
 });
@@ -166,6 +419,16 @@ export const deleteProduct = mutation({
       await ctx.db.delete(milestone._id);
     }
 
+    // Delete related price changes
+    const priceChanges = await ctx.db
+      .query("priceChanges")
+      .withIndex("by_productId", (q) => q.eq("productId", productId))
+      .collect();
+
+    for (const change of priceChanges) {
+      await ctx.db.delete(change._id);
+    }
+
     // Delete related payment-product links and pending payments
     const paymentLinks = await ctx.db
       .query("paymentProductLinks")
@@ -197,17 +460,52 @@ export const deleteProduct = mutation({
           await ctx.db.delete(cLink._id);
         }
 
-        // Delete the pending payment
+        // Delete the pending payment and its attachments
+        await deleteAttachmentsFor(ctx, "payment", payment.paymentId);
         await ctx.db.delete(payment._id);
       } else {
         // Just delete the link, keep the approved payment
         await ctx.db.delete(link._id);
+        if (link.amount !== undefined) {
+          await clearPaymentLinkAmounts(ctx, link.paymentId);
+        }
       }
     }
 
+    // Delete related shipment allocations
+    const shipmentAllocations = await ctx.db
+      .query("shipmentAllocations")
+      .withIndex("by_productId", (q) => q.eq("productId", productId))
+      .collect();
+
+    for (const allocation of shipmentAllocations) {
+      await ctx.db.delete(allocation._id);
+    }
+
+    // Delete related attachments
+    await deleteAttachmentsFor(ctx, "product", productId);
+
     // Delete the product
     await ctx.db.delete(product._id);
 
     return true;
   },
 });
+
+// One-off migration: sets nameKey on products saved before it existed, so
+// price history finds them whatever the case and spacing of their name
+export const setProductNameKeys = mutation({
+  args: {},
+  handler: async (ctx) => {
+    let updated = 0;
+
+    const products = await ctx.db.query("products").collect();
+    for (const product of products) {
+      if (product.nameKey !== undefined) continue;
+      await ctx.db.patch(product._id, { nameKey: productNameKey(product.name) });
+      updated++;
+    }
+
+    return { updated };
+  },
+});
@@ -0,0 +1,254 @@
+import { v } from "convex/values";
+import {
+  query,
+  mutation,
+  internalAction,
+  internalMutation,
+  type QueryCtx,
+  type MutationCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc } from "./_generated/dataModel";
+
+const BOI_SDMX_URL =
+  "https://edge.boi.gov.il/FusionEdgeServer/sdmx/v2/data/dataflow/BOI.STATISTICS/EXR/1.0/";
+
+// The Bank of Israel publishes no rates on weekends and holidays,
+// so a payment date uses the last rate published within this window
+const LOOKBACK_DAYS = 7;
+
+// A fetch that hasn't stored its rates by then is assumed to have failed
+const FETCH_RETRY_MINUTES = 10;
+
+function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === "," && !inQuotes) {
+      cells.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+
+  return cells.map((c) => c.trim());
+}
+
+async function fetchBoiRates(
+  date: string
+): Promise<{ date: string; currency: string; rate: number }[]> {
+  const url =
+    `${BOI_SDMX_URL}?startperiod=${shiftDate(date, -LOOKBACK_DAYS)}` +
+    `&endperiod=${date}&format=csv`;
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Bank of Israel responded with ${response.status}`);
+  }
+
+  const [headerLine, ...lines] = (await response.text()).trim().split(/\r?\n/);
+  const headers = parseCsvLine(headerLine);
+  const seriesCol = headers.indexOf("SERIES_CODE");
+  const periodCol = headers.indexOf("TIME_PERIOD");
+  const valueCol = headers.indexOf("OBS_VALUE");
+  const unitMultCol = headers.indexOf("UNIT_MULT");
+
+  const rates: { date: string; currency: string; rate: number }[] = [];
+
+  for (const line of lines) {
+    const cells = parseCsvLine(line);
+    // Representative rates are published as RER_<CURRENCY>_ILS
+    const match = /^RER_([A-Z]{3})_ILS$/.exec(cells[seriesCol] || "");
+    const value = parseFloat(cells[valueCol]);
+    if (!match || isNaN(value)) continue;
+
+    // Some currencies (JPY, ...) are quoted per 10^UNIT_MULT units
+    const unitMult = unitMultCol >= 0 ? parseInt(cells[unitMultCol]) || 0 : 0;
+
+    rates.push({
+      date: cells[periodCol],
+      currency: match[1],
+      rate: value / Math.pow(10, unitMult),
+    });
+  }
+
+  return rates;
+}
+
+export async function findHistoricalRate(
+  ctx: QueryCtx,
+  currency: string,
+  date: string
+): Promise<number | undefined> {
+  if (currency === "ILS") return 1;
+
+  const row = await ctx.db
+    .query("rateHistory")
+    .withIndex("by_currency_date", (q) =>
+      q
+        .eq("currency", currency)
+        .gt("date", shiftDate(date, -LOOKBACK_DAYS))
+        .lte("date", date)
+    )
+    .order("desc")
+    .first();
+
+  return row?.rate;
+}
+
+// Schedules a Bank of Israel fetch for the date, unless one is already on its way
+async function scheduleRateFetch(ctx: MutationCtx, date: string): Promise<void> {
+  const now = new Date();
+  const existing = await ctx.db
+    .query("rateFetches")
+    .withIndex("by_date", (q) => q.eq("date", date))
+    .first();
+
+  if (existing) {
+    const retryAfter = new Date(existing.requestedDate);
+    retryAfter.setMinutes(retryAfter.getMinutes() + FETCH_RETRY_MINUTES);
+    if (retryAfter > now) return;
+    await ctx.db.patch(existing._id, { requestedDate: now.toISOString() });
+  } else {
+    await ctx.db.insert("rateFetches", { date, requestedDate: now.toISOString() });
+  }
+
+  await ctx.scheduler.runAfter(0, internal.rates.fetchRatesForDate, { date });
+}
+
+// Locks in the rate of the payment date, fetching it from the Bank of Israel
+// in the background when it is not stored yet
+export async function applyHistoricalRate(
+  ctx: MutationCtx,
+  payment: Doc<"payments">
+): Promise<void> {
+  if (payment.status !== "approved" || payment.appliedRate !== undefined) return;
+
+  const rate = await findHistoricalRate(ctx, payment.currency, payment.date);
+
+  if (rate !== undefined) {
+    await ctx.db.patch(payment._id, { appliedRate: rate });
+  } else {
+    await scheduleRateFetch(ctx, payment.date);
+  }
+}
+
+export const getRatesForDate = query({
+  args: { date: v.string() },
+  handler: async (ctx, { date }) => {
+    const rows = await ctx.db
+      .query("rateHistory")
+      .withIndex("by_date", (q) =>
+        q.gt("date", shiftDate(date, -LOOKBACK_DAYS)).lte("date", date)
+      )
+      .collect();
+
+    // Rows come sorted by date, so later rates overwrite earlier ones
+    const rates: Record<string, number> = {};
+    for (const row of rows) {
+      rates[row.currency] = row.rate;
+    }
+    return rates;
+  },
+});
+
+export const fetchRatesForDate = internalAction({
+  args: { date: v.string() },
+  handler: async (ctx, { date }) => {
+    const rates = await fetchBoiRates(date);
+    await ctx.runMutation(internal.rates.storeRates, { date, rates });
+    return rates.length;
+  },
+});
+
+export const storeRates = internalMutation({
+  args: {
+    date: v.string(),
+    rates: v.array(
+      v.object({
+        date: v.string(),
+        currency: v.string(),
+        rate: v.number(),
+      })
+    ),
+  },
+  handler: async (ctx, { date, rates }) => {
+    const fetchedDate = new Date().toISOString();
+
+    for (const entry of rates) {
+      const existing = await ctx.db
+        .query("rateHistory")
+        .withIndex("by_currency_date", (q) =>
+          q.eq("currency", entry.currency).eq("date", entry.date)
+        )
+        .first();
+
+      if (existing) {
+        await ctx.db.patch(existing._id, { rate: entry.rate, fetchedDate });
+      } else {
+        await ctx.db.insert("rateHistory", { ...entry, fetchedDate });
+      }
+    }
+
+    const fetches = await ctx.db
+      .query("rateFetches")
+      .withIndex("by_date", (q) => q.eq("date", date))
+      .collect();
+    for (const request of fetches) {
+      await ctx.db.delete(request._id);
+    }
+
+    // Fill in approved payments that were waiting for this date's rates
+    const payments = await ctx.db
+      .query("payments")
+      .withIndex("by_date", (q) => q.eq("date", date))
+      .collect();
+
+    for (const payment of payments) {
+      if (payment.status !== "approved" || payment.appliedRate !== undefined) continue;
+
+      const rate = await findHistoricalRate(ctx, payment.currency, payment.date);
+      if (rate !== undefined) {
+        await ctx.db.patch(payment._id, { appliedRate: rate });
+      }
+    }
+
+    return true;
+  },
+});
+
+export const applyOrderPaymentRates = mutation({
+  args: { orderId: v.string() },
+  handler: async (ctx, { orderId }) => {
+    const payments = await ctx.db
+      .query("payments")
+      .withIndex("by_orderId", (q) => q.eq("orderId", orderId))
+      .collect();
+
+    for (const payment of payments) {
+      if (payment.status !== "approved" || payment.appliedRate !== undefined) continue;
+
+      const rate = await findHistoricalRate(ctx, payment.currency, payment.date);
+
+      if (rate !== undefined) {
+        await ctx.db.patch(payment._id, { appliedRate: rate });
+      } else {
+        await scheduleRateFetch(ctx, payment.date);
+      }
+    }
+
+    return true;
+  },
+});
@@ -6,21 +6,42 @@ export default defineSchema({
     orderId: v.string(),
     orderName: v.string(),
     supplier: v.optional(v.string()),
+    supplierId: v.optional(v.string()),
     usdRate: v.number(),
     cnyRate: v.number(),
+    exchangeRates: v.optional(v.record(v.string(), v.number())),
+    incoterm: v.optional(
+      v.union(
+        v.literal("EXW"),
+        v.literal("FCA"),
+        v.literal("FOB"),
+        v.literal("CFR"),
+        v.literal("CIF"),
+        v.literal("DAP"),
+        v.literal("DDP")
+      )
+    ),
+    paymentTermId: v.optional(v.string()),
     createdDate: v.string(),
     status: v.string(),
     notes: v.optional(v.string()),
     estimatedArrival: v.optional(v.string()),
   })
     .index("by_orderId", ["orderId"])
-    .index("by_status", ["status"]),
+    .index("by_status", ["status"])
+    .index("by_supplierId", ["supplierId"]),
 
   products: defineTable({
     productId: v.string(),
     orderId: v.string(),
+    // The catalog item this order line is for, when it was picked from the catalog
+    catalogId: v.optional(v.string()),
     name: v.string(),
+    // The name ignoring case and spacing, to find the same item across orders
+    nameKey: v.optional(v.string()),
+    // Supplier's name, kept alongside supplierId for display and matching
     supplier: v.optional(v.string()),
+    supplierId: v.optional(v.string()),
     quantity: v.number(),
     pricePerUnit: v.number(),
     priceTotal: v.number(),
@@ -29,34 +50,117 @@ export default defineSchema({
     cbmTotal: v.number(),
     kgPerUnit: v.number(),
     kgTotal: v.number(),
+    // Cartons the product ships in, for packing lists
+    cartonCount: v.optional(v.number()),
+    // Carton packing as quoted by the factory; when set, the carton count,
+    // CBM and KG are derived from it
+    unitsPerCarton: v.optional(v.number()),
+    cartonLengthCm: v.optional(v.number()),
+    cartonWidthCm: v.optional(v.number()),
+    cartonHeightCm: v.optional(v.number()),
+    cartonGrossKg: v.optional(v.number()),
+    cartonNetKg: v.optional(v.number()),
+    hsCode: v.optional(v.string()),
     orderDate: v.optional(v.string()),
     notes: v.optional(v.string()),
   })
     .index("by_orderId", ["orderId"])
-    .index("by_productId", ["productId"]),
+    .index("by_productId", ["productId"])
+    .index("by_supplierId", ["supplierId"])
+    .index("by_catalogId", ["catalogId"])
+    .index("by_name", ["name"])
+    .index("by_nameKey", ["nameKey"]),
+
+  // Items we buy repeatedly, shared by the order lines that reference them
+  catalogItems: defineTable({
+    catalogId: v.string(),
+    sku: v.string(),
+    name: v.string(),
+    // Default supplier for new order lines
+    supplierId: v.optional(v.string()),
+    supplier: v.optional(v.string()),
+    cbmPerUnit: v.number(),
+    kgPerUnit: v.number(),
+    hsCode: v.optional(v.string()),
+    photoStorageId: v.optional(v.id("_storage")),
+    notes: v.optional(v.string()),
+    createdDate: v.string(),
+  })
+    .index("by_catalogId", ["catalogId"])
+    .index("by_sku", ["sku"])
+    .index("by_supplierId", ["supplierId"]),
 
   additionalCosts: defineTable({
     costId: v.string(),
     orderId: v.string(),
     description: v.string(),
     amount: v.number(),
-    currency: v.union(v.literal("USD"), v.literal("CNY"), v.literal("ILS")),
+    currency: v.string(),
     allocationMethod: v.union(
       v.literal("שווה"),
       v.literal("נפח"),
       v.literal("משקל"),
       v.literal("עלות"),
-      v.literal("כמות")
+      v.literal("כמות"),
+      v.literal("אחוזים"),
+      v.literal("ידני"),
+      v.literal("משקל לחיוב")
+    ),
+    // cm³ per chargeable kg for "משקל לחיוב", e.g. 6000 for air freight
+    volumetricDivisor: v.optional(v.number()),
+    category: v.optional(
+      v.union(
+        v.literal("freight"),
+        v.literal("insurance"),
+        v.literal("origin"),
+        v.literal("destination"),
+        v.literal("clearance"),
+        v.literal("other")
+      )
     ),
+    // Who bills the cost, e.g. the forwarder, for the supplier ledger
+    supplier: v.optional(v.string()),
+    // Limits the cost to the products on one shipment, e.g. its freight
+    shipmentId: v.optional(v.string()),
     notes: v.optional(v.string()),
   })
     .index("by_orderId", ["orderId"])
-    .index("by_costId", ["costId"]),
+    .index("by_costId", ["costId"])
+    .index("by_shipmentId", ["shipmentId"]),
+
+  // A container or partial shipment an order's products travel in
+  shipments: defineTable({
+    shipmentId: v.string(),
+    orderId: v.string(),
+    name: v.string(),
+    mode: v.union(v.literal("sea"), v.literal("air"), v.literal("courier")),
+    containerNumber: v.optional(v.string()),
+    blNumber: v.optional(v.string()),
+    vessel: v.optional(v.string()),
+    etd: v.optional(v.string()),
+    eta: v.optional(v.string()),
+    forwarder: v.optional(v.string()),
+    notes: v.optional(v.string()),
+    createdDate: v.string(),
+  })
+    .index("by_shipmentId", ["shipmentId"])
+    .index("by_orderId", ["orderId"]),
+
+  // Units of a product loaded on a shipment
+  shipmentAllocations: defineTable({
+    shipmentId: v.string(),
+    productId: v.string(),
+    quantity: v.number(),
+  })
+    .index("by_shipmentId", ["shipmentId"])
+    .index("by_productId", ["productId"]),
 
   costProductLinks: defineTable({
     costId: v.string(),
     productId: v.string(),
     isLinked: v.boolean(),
+    // Share for the manual methods: a percentage (אחוזים) or a relative weight (ידני)
+    weight: v.optional(v.number()),
   })
     .index("by_costId", ["costId"])
     .index("by_productId", ["productId"]),
@@ -66,18 +170,142 @@ export default defineSchema({
     orderId: v.string(),
     date: v.string(),
     amount: v.number(),
-    currency: v.union(v.literal("USD"), v.literal("CNY"), v.literal("ILS")),
+    currency: v.string(),
     payee: v.optional(v.string()),
     description: v.optional(v.string()),
     reference: v.optional(v.string()),
     status: v.union(v.literal("pending"), v.literal("approved")),
+    appliedRate: v.optional(v.number()),
+    dueDate: v.optional(v.string()),
+    // An installment due a number of days after an order milestone; the due
+    // date follows that milestone's date while the payment is pending
+    milestoneTypeId: v.optional(v.string()),
+    milestoneDayOffset: v.optional(v.number()),
   })
     .index("by_orderId", ["orderId"])
-    .index("by_paymentId", ["paymentId"]),
+    .index("by_paymentId", ["paymentId"])
+    .index("by_date", ["date"]),
+
+  rateHistory: defineTable({
+    date: v.string(),
+    currency: v.string(),
+    rate: v.number(),
+    fetchedDate: v.string(),
+  })
+    .index("by_currency_date", ["currency", "date"])
+    .index("by_date", ["date"]),
+
+  // Bank of Israel fetches scheduled for a date and not stored yet
+  rateFetches: defineTable({
+    date: v.string(),
+    requestedDate: v.string(),
+  }).index("by_date", ["date"]),
+
+  customsRates: defineTable({
+    customsRateId: v.string(),
+    hsCode: v.string(),
+    description: v.optional(v.string()),
+    dutyRate: v.number(),
+    purchaseTaxRate: v.number(),
+  })
+    .index("by_customsRateId", ["customsRateId"])
+    .index("by_hsCode", ["hsCode"]),
+
+  // Single row of app-wide settings
+  settings: defineTable({
+    allocationDecimals: v.optional(v.number()),
+    priceIncreaseThreshold: v.optional(v.number()),
+    companyName: v.optional(v.string()),
+    companyAddress: v.optional(v.string()),
+    companyPhone: v.optional(v.string()),
+    companyEmail: v.optional(v.string()),
+    companyTaxId: v.optional(v.string()),
+  }),
+
+  // Generated documents, e.g. purchase orders, with the content they were
+  // issued with so earlier versions can be reprinted
+  documents: defineTable({
+    documentId: v.string(),
+    orderId: v.string(),
+    type: v.literal("purchaseOrder"),
+    supplierId: v.optional(v.string()),
+    supplier: v.string(),
+    version: v.number(),
+    createdDate: v.string(),
+    company: v.object({
+      name: v.string(),
+      address: v.string(),
+      phone: v.string(),
+      email: v.string(),
+      taxId: v.string(),
+    }),
+    // Free-text terms of documents issued before paymentInstallments
+    paymentTerms: v.optional(v.string()),
+    // The payment terms' installments, printed with the document's own labels
+    paymentInstallments: v.optional(
+      v.array(
+        v.object({
+          percent: v.number(),
+          trigger: v.union(v.literal("days"), v.literal("milestone")),
+          dayOffset: v.number(),
+          milestoneName: v.optional(v.string()),
+        })
+      )
+    ),
+    incoterm: v.optional(v.string()),
+    lines: v.array(
+      v.object({
+        productId: v.string(),
+        name: v.string(),
+        hsCode: v.optional(v.string()),
+        quantity: v.number(),
+        unitPrice: v.number(),
+        currency: v.string(),
+        total: v.number(),
+        notes: v.optional(v.string()),
+      })
+    ),
+  })
+    .index("by_documentId", ["documentId"])
+    .index("by_orderId", ["orderId"]),
+
+  // Uploaded files (proformas, SWIFT confirmations, B/Ls, photos...) kept on
+  // an order or on one of its products, costs or payments
+  attachments: defineTable({
+    attachmentId: v.string(),
+    orderId: v.string(),
+    entityType: v.union(
+      v.literal("order"),
+      v.literal("product"),
+      v.literal("cost"),
+      v.literal("payment")
+    ),
+    // orderId, productId, costId or paymentId, by entityType
+    entityId: v.string(),
+    documentType: v.union(
+      v.literal("PI"),
+      v.literal("CI"),
+      v.literal("BL"),
+      v.literal("SWIFT"),
+      v.literal("photo"),
+      v.literal("certificate")
+    ),
+    storageId: v.id("_storage"),
+    fileName: v.string(),
+    contentType: v.optional(v.string()),
+    size: v.optional(v.number()),
+    notes: v.optional(v.string()),
+    uploadedDate: v.string(),
+  })
+    .index("by_attachmentId", ["attachmentId"])
+    .index("by_orderId", ["orderId"])
+    .index("by_entity", ["entityType", "entityId"]),
 
   paymentProductLinks: defineTable({
     paymentId: v.string(),
     productId: v.string(),
+    // Part of the payment, in its currency, that went to this item
+    amount: v.optional(v.number()),
   })
     .index("by_paymentId", ["paymentId"])
     .index("by_productId", ["productId"]),
@@ -85,10 +313,24 @@ export default defineSchema({
   paymentCostLinks: defineTable({
     paymentId: v.string(),
     costId: v.string(),
+    // Part of the payment, in its currency, that went to this item
+    amount: v.optional(v.number()),
   })
     .index("by_paymentId", ["paymentId"])
     .index("by_costId", ["costId"]),
 
+  // Unit price edits made after a product was added to an order
+  priceChanges: defineTable({
+    productId: v.string(),
+    orderId: v.string(),
+    oldPricePerUnit: v.number(),
+    newPricePerUnit: v.number(),
+    oldCurrency: v.string(),
+    newCurrency: v.string(),
+    changedDate: v.string(),
+  })
+    .index("by_productId", ["productId"]),
+
   milestoneTypes: defineTable({
     typeId: v.string(),
     name: v.string(),
@@ -131,8 +373,25 @@ export default defineSchema({
     phone: v.optional(v.string()),
     country: v.optional(v.string()),
     notes: v.optional(v.string()),
+    paymentTermId: v.optional(v.string()),
     createdDate: v.optional(v.string()),
   })
     .index("by_name", ["name"])
     .index("by_supplierId", ["supplierId"]),
+
+  // Payment schedule templates, e.g. 30% deposit and 70% before shipment
+  paymentTerms: defineTable({
+    paymentTermId: v.string(),
+    name: v.string(),
+    installments: v.array(
+      v.object({
+        percent: v.number(),
+        description: v.string(),
+        // Due a number of days after the order date, or after a milestone's target date
+        trigger: v.union(v.literal("days"), v.literal("milestone")),
+        dayOffset: v.number(),
+        milestoneTypeId: v.optional(v.string()),
+      })
+    ),
+  }).index("by_paymentTermId", ["paymentTermId"]),
 });
@@ -0,0 +1,57 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+import { getAppSettings } from "./helpers";
+
+export const getSettings = query({
+  args: {},
+  handler: async (ctx) => {
+    return await getAppSettings(ctx);
+  },
+});
+
+export const updateSettings = mutation({
+  args: {
+    allocationDecimals: v.optional(v.number()),
+    priceIncreaseThreshold: v.optional(v.number()),
+    companyName: v.optional(v.string()),
+    companyAddress: v.optional(v.string()),
+    companyPhone: v.optional(v.string()),
+    companyEmail: v.optional(v.string()),
+    companyTaxId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    if (
+      args.allocationDecimals !== undefined &&
+      (!Number.isInteger(args.allocationDecimals) ||
+        args.allocationDecimals < 0 ||
+        args.allocationDecimals > 6)
+    ) {
+      throw new Error("Allocation decimals must be a whole number from 0 to 6");
+    }
+
+    if (args.priceIncreaseThreshold !== undefined && args.priceIncreaseThreshold < 0) {
+      throw new Error("Price increase threshold cannot be negative");
+    }
+
+    const updates: Record<string, unknown> = {};
+    if (args.allocationDecimals !== undefined)
+      updates.allocationDecimals = args.allocationDecimals;
+    if (args.priceIncreaseThreshold !== undefined)
+      updates.priceIncreaseThreshold = args.priceIncreaseThreshold;
+    if (args.companyName !== undefined) updates.companyName = args.companyName;
+    if (args.companyAddress !== undefined) updates.companyAddress = args.companyAddress;
+    if (args.companyPhone !== undefined) updates.companyPhone = args.companyPhone;
+    if (args.companyEmail !== undefined) updates.companyEmail = args.companyEmail;
+    if (args.companyTaxId !== undefined) updates.companyTaxId = args.companyTaxId;
+
+    const existing = await ctx.db.query("settings").first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, updates);
+    } else {
+      await ctx.db.insert("settings", updates);
+    }
+
+    return true;
+  },
+});
@@ -0,0 +1,180 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+import { generateId } from "./helpers";
+
+const modeValidator = v.union(v.literal("sea"), v.literal("air"), v.literal("courier"));
+
+export const getShipmentsByOrderId = query({
+  args: { orderId: v.string() },
+  handler: async (ctx, { orderId }) => {
+    return await ctx.db
+      .query("shipments")
+      .withIndex("by_orderId", (q) => q.eq("orderId", orderId))
+      .collect();
+  },
+});
+
+export const addShipment = mutation({
+  args: {
+    orderId: v.string(),
+    name: v.string(),
+    mode: modeValidator,
+    containerNumber: v.optional(v.string()),
+    blNumber: v.optional(v.string()),
+    vessel: v.optional(v.string()),
+    etd: v.optional(v.string()),
+    eta: v.optional(v.string()),
+    forwarder: v.optional(v.string()),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const order = await ctx.db
+      .query("orders")
+      .withIndex("by_orderId", (q) => q.eq("orderId", args.orderId))
+      .first();
+    if (!order) throw new Error(`Order ${args.orderId} not found`);
+
+    const shipmentId = generateId("SHIP");
+
+    await ctx.db.insert("shipments", {
+      shipmentId,
+      ...args,
+      createdDate: new Date().toISOString(),
+    });
+
+    return shipmentId;
+  },
+});
+
+export const updateShipment = mutation({
+  args: {
+    shipmentId: v.string(),
+    name: v.optional(v.string()),
+    mode: v.optional(modeValidator),
+    containerNumber: v.optional(v.string()),
+    blNumber: v.optional(v.string()),
+    vessel: v.optional(v.string()),
+    etd: v.optional(v.string()),
+    eta: v.optional(v.string()),
+    forwarder: v.optional(v.string()),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const shipment = await ctx.db
+      .query("shipments")
+      .withIndex("by_shipmentId", (q) => q.eq("shipmentId", args.shipmentId))
+      .first();
+
+    if (!shipment) return false;
+
+    const updates: Record<string, unknown> = {};
+    if (args.name !== undefined) updates.name = args.name;
+    if (args.mode !== undefined) updates.mode = args.mode;
+    if (args.containerNumber !== undefined) updates.containerNumber = args.containerNumber;
+    if (args.blNumber !== undefined) updates.blNumber = args.blNumber;
+    if (args.vessel !== undefined) updates.vessel = args.vessel;
+    if (args.etd !== undefined) updates.etd = args.etd || undefined;
+    if (args.eta !== undefined) updates.eta = args.eta || undefined;
+    if (args.forwarder !== undefined) updates.forwarder = args.forwarder;
+    if (args.notes !== undefined) updates.notes = args.notes;
+
+    await ctx.db.patch(shipment._id, updates);
+    return true;
+  },
+});
+
+// Sets how many units of a product are on a shipment; 0 takes it off
+export const setShipmentAllocation = mutation({
+  args: {
+    shipmentId: v.string(),
+    productId: v.string(),
+    quantity: v.number(),
+  },
+  handler: async (ctx, args) => {
+    if (args.quantity < 0) throw new Error("Shipment quantity cannot be negative");
+    if (!Number.isInteger(args.quantity)) {
+      throw new Error("Shipment quantity must be a whole number of units");
+    }
+
+    const [shipment, product] = await Promise.all([
+      ctx.db
+        .query("shipments")
+        .withIndex("by_shipmentId", (q) => q.eq("shipmentId", args.shipmentId))
+        .first(),
+      ctx.db
+        .query("products")
+        .withIndex("by_productId", (q) => q.eq("productId", args.productId))
+        .first(),
+    ]);
+    if (!shipment) throw new Error(`Shipment ${args.shipmentId} not found`);
+    if (!product) throw new Error(`Product ${args.productId} not found`);
+    if (product.orderId !== shipment.orderId) {
+      throw new Error("Product and shipment belong to different orders");
+    }
+
+    const allocations = await ctx.db
+      .query("shipmentAllocations")
+      .withIndex("by_productId", (q) => q.eq("productId", args.productId))
+      .collect();
+
+    // Units can't be shipped twice
+    const onOtherShipments = allocations
+      .filter((a) => a.shipmentId !== args.shipmentId)
+      .reduce((sum, a) => sum + a.quantity, 0);
+    if (onOtherShipments + args.quantity > product.quantity) {
+      throw new Error(
+        `Only ${product.quantity - onOtherShipments} units of ${product.name} are left to ship`
+      );
+    }
+
+    const existing = allocations.find((a) => a.shipmentId === args.shipmentId);
+    if (args.quantity === 0) {
+      if (existing) await ctx.db.delete(existing._id);
+    } else if (existing) {
+      await ctx.db.patch(existing._id, { quantity: args.quantity });
+    } else {
+      await ctx.db.insert("shipmentAllocations", {
+        shipmentId: args.shipmentId,
+        productId: args.productId,
+        quantity: args.quantity,
+      });
+    }
+
+    return true;
+  },
+});
+
+export const deleteShipment = mutation({
+  args: { shipmentId: v.string() },
+  handler: async (ctx, { shipmentId }) => {
+    const shipment = await ctx.db
+      .query("shipments")
+      .withIndex("by_shipmentId", (q) => q.eq("shipmentId", shipmentId))
+      .first();
+
+    if (!shipment) return false;
+
+    // Delete related allocations
+    const allocations = await ctx.db
+      .query("shipmentAllocations")
+      .withIndex("by_shipmentId", (q) => q.eq("shipmentId", shipmentId))
+      .collect();
+
+    for (const allocation of allocations) {
+      await ctx.db.delete(allocation._id);
+    }
+
+    // Scoped costs go back to being split over the whole order
+    const costs = await ctx.db
+      .query("additionalCosts")
+      .withIndex("by_shipmentId", (q) => q.eq("shipmentId", shipmentId))
+      .collect();
+
+    for (const cost of costs) {
+      await ctx.db.patch(cost._id, { shipmentId: undefined });
+    }
+
+    await ctx.db.delete(shipment._id);
+    return true;
+  },
+});
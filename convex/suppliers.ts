@@ -1,6 +1,67 @@
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
-import { generateId } from "./helpers";
+import { query, mutation, type MutationCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import {
+  calculateSupplierScorecard,
+  DEFAULT_DUPLICATE_THRESHOLD,
+  generateId,
+  groupSimilarSupplierNames,
+  normalizeSupplierName,
+  type DuplicateSupplierGroup,
+  type LedgerEntry,
+  type SupplierLedger,
+  type SupplierNameUsage,
+  type SupplierScorecard,
+} from "./helpers";
+
+// Matches a free-text supplier name to a supplier record, creating one when
+// no record has that name
+export async function findOrCreateSupplier(
+  ctx: MutationCtx,
+  name: string
+): Promise<Doc<"suppliers">> {
+  const trimmed = name.trim();
+
+  const exact = await ctx.db
+    .query("suppliers")
+    .withIndex("by_name", (q) => q.eq("name", trimmed))
+    .first();
+  if (exact) return exact;
+
+  const key = normalizeSupplierName(trimmed);
+  const suppliers = await ctx.db.query("suppliers").collect();
+  const match = suppliers.find((s) => normalizeSupplierName(s.name) === key);
+  if (match) return match;
+
+  const id = await ctx.db.insert("suppliers", {
+    supplierId: generateId("SUP"),
+    name: trimmed,
+    createdDate: new Date().toISOString(),
+  });
+
+  const created = await ctx.db.get(id);
+  if (!created) throw new Error(`Supplier ${trimmed} could not be created`);
+  return created;
+}
+
+// The supplier a product or order points at: by id when given, else by name
+export async function resolveSupplier(
+  ctx: MutationCtx,
+  supplierId?: string,
+  name?: string
+): Promise<Doc<"suppliers"> | null> {
+  if (supplierId) {
+    const supplier = await ctx.db
+      .query("suppliers")
+      .withIndex("by_supplierId", (q) => q.eq("supplierId", supplierId))
+      .first();
+    if (supplier) return supplier;
+  }
+
+  if (name && name.trim()) return await findOrCreateSupplier(ctx, name);
+
+  return null;
+}
 
 export const getAllSuppliers = query({
   args: {},
@@ -29,6 +90,282 @@ export const getSupplierByName = query({
   },
 });
 
+// Suppliers with how many products and orders reference them
+export const getSupplierList = query({
+  args: {},
+  handler: async (ctx) => {
+    const [suppliers, products, orders] = await Promise.all([
+      ctx.db.query("suppliers").collect(),
+      ctx.db.query("products").collect(),
+      ctx.db.query("orders").collect(),
+    ]);
+
+    return suppliers
+      .map((supplier) => {
+        const supplierProducts = products.filter(
+          (p) => p.supplierId === supplier.supplierId
+        );
+        const orderIds = new Set([
+          ...supplierProducts.map((p) => p.orderId),
+          ...orders
+            .filter((o) => o.supplierId === supplier.supplierId)
+            .map((o) => o.orderId),
+        ]);
+
+        return {
+          ...supplier,
+          productCount: supplierProducts.length,
+          orderCount: orderIds.size,
+        };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+export const getSupplierDetails = query({
+  args: { supplierId: v.string() },
+  handler: async (ctx, { supplierId }) => {
+    const supplier = await ctx.db
+      .query("suppliers")
+      .withIndex("by_supplierId", (q) => q.eq("supplierId", supplierId))
+      .first();
+
+    if (!supplier) return null;
+
+    const paymentTermId = supplier.paymentTermId;
+    const [products, supplierOrders, allOrders, paymentTerm] = await Promise.all([
+      ctx.db
+        .query("products")
+        .withIndex("by_supplierId", (q) => q.eq("supplierId", supplierId))
+        .collect(),
+      ctx.db
+        .query("orders")
+        .withIndex("by_supplierId", (q) => q.eq("supplierId", supplierId))
+        .collect(),
+      ctx.db.query("orders").collect(),
+      paymentTermId
+        ? ctx.db
+            .query("paymentTerms")
+            .withIndex("by_paymentTermId", (q) => q.eq("paymentTermId", paymentTermId))
+            .first()
+        : null,
+    ]);
+
+    // Orders the supplier is set on or supplies products to
+    const orderIds = new Set([
+      ...supplierOrders.map((o) => o.orderId),
+      ...products.map((p) => p.orderId),
+    ]);
+    const orders = allOrders
+      .filter((o) => orderIds.has(o.orderId))
+      .sort((a, b) => b.createdDate.localeCompare(a.createdDate));
+
+    return {
+      supplier,
+      paymentTerm,
+      orders,
+      products: products.map((product) => ({
+        ...product,
+        orderName:
+          allOrders.find((o) => o.orderId === product.orderId)?.orderName || "",
+      })),
+    };
+  },
+});
+
+// Lead times, on-time rate and price stability across the supplier's orders
+export const getSupplierScorecard = query({
+  args: { supplierId: v.string() },
+  handler: async (ctx, { supplierId }): Promise<SupplierScorecard> => {
+    const [products, orders, orderMilestones, productMilestones, milestoneTypes, priceChanges] =
+      await Promise.all([
+        ctx.db
+          .query("products")
+          .withIndex("by_supplierId", (q) => q.eq("supplierId", supplierId))
+          .collect(),
+        ctx.db.query("orders").collect(),
+        ctx.db.query("orderMilestones").collect(),
+        ctx.db.query("productMilestones").collect(),
+        ctx.db.query("milestoneTypes").collect(),
+        ctx.db.query("priceChanges").collect(),
+      ]);
+
+    // Orders the supplier is set on or supplies products to
+    const orderIds = new Set(products.map((p) => p.orderId));
+    const supplierOrders = orders.filter(
+      (o) => o.supplierId === supplierId || orderIds.has(o.orderId)
+    );
+    const supplierOrderIds = new Set(supplierOrders.map((o) => o.orderId));
+    const productIds = new Set(products.map((p) => p.productId));
+
+    return calculateSupplierScorecard({
+      products,
+      orders: supplierOrders,
+      productMilestones: productMilestones.filter((m) => productIds.has(m.productId)),
+      orderMilestones: orderMilestones.filter((m) => supplierOrderIds.has(m.orderId)),
+      milestoneTypes,
+      priceChanges: priceChanges.filter((c) => productIds.has(c.productId)),
+    });
+  },
+});
+
+// Every supplier name in use: supplier records, products and billed costs
+export const getSupplierNames = query({
+  args: {},
+  handler: async (ctx) => {
+    const [suppliers, products, costs] = await Promise.all([
+      ctx.db.query("suppliers").collect(),
+      ctx.db.query("products").collect(),
+      ctx.db.query("additionalCosts").collect(),
+    ]);
+
+    const names = [
+      ...suppliers.map((s) => s.name),
+      ...products.map((p) => p.supplier),
+      ...costs.map((c) => c.supplier),
+    ].filter((name): name is string => !!name && name.trim() !== "");
+
+    return [...new Set(names)].sort((a, b) => a.localeCompare(b));
+  },
+});
+
+// Groups of supplier names that are probably the same supplier, across
+// supplier records, products, orders, costs and payment payees
+export const findDuplicateSuppliers = query({
+  args: { threshold: v.optional(v.number()) },
+  handler: async (ctx, { threshold }): Promise<DuplicateSupplierGroup[]> => {
+    const [suppliers, products, orders, costs, payments] = await Promise.all([
+      ctx.db.query("suppliers").collect(),
+      ctx.db.query("products").collect(),
+      ctx.db.query("orders").collect(),
+      ctx.db.query("additionalCosts").collect(),
+      ctx.db.query("payments").collect(),
+    ]);
+
+    const usage = new Map<string, SupplierNameUsage>();
+    const getUsage = (name: string) => {
+      let entry = usage.get(name);
+      if (!entry) {
+        entry = { name, products: 0, orders: 0, costs: 0, payments: 0 };
+        usage.set(name, entry);
+      }
+      return entry;
+    };
+
+    for (const supplier of suppliers) getUsage(supplier.name).supplierId = supplier.supplierId;
+    for (const product of products) {
+      if (product.supplier?.trim()) getUsage(product.supplier).products++;
+    }
+    for (const order of orders) {
+      if (order.supplier?.trim()) getUsage(order.supplier).orders++;
+    }
+    for (const cost of costs) {
+      if (cost.supplier?.trim()) getUsage(cost.supplier).costs++;
+    }
+    for (const payment of payments) {
+      if (payment.payee?.trim()) getUsage(payment.payee).payments++;
+    }
+
+    const references = (u: SupplierNameUsage) => u.products + u.orders + u.costs + u.payments;
+
+    return groupSimilarSupplierNames(
+      [...usage.keys()],
+      threshold ?? DEFAULT_DUPLICATE_THRESHOLD
+    )
+      .map((group) => {
+        const names = group
+          .map((name) => usage.get(name) as SupplierNameUsage)
+          .sort(
+            (a, b) =>
+              Number(!!b.supplierId) - Number(!!a.supplierId) ||
+              references(b) - references(a) ||
+              a.name.localeCompare(b.name)
+          );
+        return { names, suggestedName: names[0].name };
+      })
+      .sort((a, b) => a.suggestedName.localeCompare(b.suggestedName));
+  },
+});
+
+// Products and costs owed to a supplier and the approved payments made to it,
+// across all orders, in date order with a running balance per currency
+export const getSupplierLedger = query({
+  args: { name: v.string() },
+  handler: async (ctx, { name }): Promise<SupplierLedger> => {
+    const [orders, products, costs, payments] = await Promise.all([
+      ctx.db.query("orders").collect(),
+      ctx.db.query("products").collect(),
+      ctx.db.query("additionalCosts").collect(),
+      ctx.db.query("payments").collect(),
+    ]);
+
+    const orderById = new Map(orders.map((o) => [o.orderId, o]));
+    const entries: Omit<LedgerEntry, "balance">[] = [];
+
+    for (const product of products) {
+      const order = orderById.get(product.orderId);
+      if (!order || product.supplier !== name) continue;
+      entries.push({
+        date: product.orderDate || order.createdDate.split("T")[0],
+        type: "product",
+        orderId: order.orderId,
+        orderName: order.orderName,
+        description: `${product.name} × ${product.quantity}`,
+        currency: product.currency,
+        debit: product.priceTotal,
+        credit: 0,
+      });
+    }
+
+    for (const cost of costs) {
+      const order = orderById.get(cost.orderId);
+      if (!order || cost.supplier !== name) continue;
+      entries.push({
+        date: order.createdDate.split("T")[0],
+        type: "cost",
+        orderId: order.orderId,
+        orderName: order.orderName,
+        description: cost.description,
+        currency: cost.currency,
+        debit: cost.amount,
+        credit: 0,
+      });
+    }
+
+    for (const payment of payments) {
+      const order = orderById.get(payment.orderId);
+      if (!order || payment.status !== "approved" || payment.payee !== name) continue;
+      entries.push({
+        date: payment.date,
+        type: "payment",
+        orderId: order.orderId,
+        orderName: order.orderName,
+        description: payment.description || "תשלום",
+        reference: payment.reference,
+        currency: payment.currency,
+        debit: 0,
+        credit: payment.amount,
+      });
+    }
+
+    // Obligations come before payments made on the same day
+    entries.sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) ||
+        Number(a.type === "payment") - Number(b.type === "payment")
+    );
+
+    const balances: Record<string, number> = {};
+    const withBalance = entries.map((entry) => {
+      balances[entry.currency] =
+        (balances[entry.currency] || 0) + entry.debit - entry.credit;
+      return { ...entry, balance: balances[entry.currency] };
+    });
+
+    return { supplier: name, entries: withBalance, balances };
+  },
+});
+
 export const addSupplier = mutation({
   args: {
     name: v.string(),
@@ -37,18 +374,26 @@ export const addSupplier = mutation({
     phone: v.optional(v.string()),
     country: v.optional(v.string()),
     notes: v.optional(v.string()),
+    paymentTermId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const key = normalizeSupplierName(args.name);
+    const suppliers = await ctx.db.query("suppliers").collect();
+    if (suppliers.some((s) => normalizeSupplierName(s.name) === key)) {
+      throw new Error(`Supplier ${args.name} already exists`);
+    }
+
     const supplierId = generateId("SUP");
 
     await ctx.db.insert("suppliers", {
       supplierId,
-      name: args.name,
+      name: args.name.trim(),
       contactName: args.contactName,
       email: args.email,
       phone: args.phone,
       country: args.country,
       notes: args.notes,
+      paymentTermId: args.paymentTermId,
       createdDate: new Date().toISOString(),
     });
 
@@ -100,6 +445,7 @@ export const updateSupplier = mutation({
     phone: v.optional(v.string()),
     country: v.optional(v.string()),
     notes: v.optional(v.string()),
+    paymentTermId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const supplier = await ctx.db
@@ -109,19 +455,88 @@ export const updateSupplier = mutation({
 
     if (!supplier) return false;
 
+    // A rename is trimmed and must not clash with another supplier
+    const name = args.name?.trim();
+    if (name !== undefined) {
+      const key = normalizeSupplierName(name);
+      const suppliers = await ctx.db.query("suppliers").collect();
+      if (
+        suppliers.some(
+          (s) => s.supplierId !== supplier.supplierId && normalizeSupplierName(s.name) === key
+        )
+      ) {
+        throw new Error(`Supplier ${name} already exists`);
+      }
+    }
+
     const updates: Record<string, unknown> = {};
-    if (args.name !== undefined) updates.name = args.name;
+    if (name !== undefined) updates.name = name;
     if (args.contactName !== undefined) updates.contactName = args.contactName;
     if (args.email !== undefined) updates.email = args.email;
     if (args.phone !== undefined) updates.phone = args.phone;
     if (args.country !== undefined) updates.country = args.country;
     if (args.notes !== undefined) updates.notes = args.notes;
+    if (args.paymentTermId !== undefined)
+      updates.paymentTermId = args.paymentTermId || undefined;
 
     await ctx.db.patch(supplier._id, updates);
+
+    // Products, orders, catalog items, costs and payments carry the name too
+    if (name !== undefined && name !== supplier.name) {
+      const products = await ctx.db
+        .query("products")
+        .withIndex("by_supplierId", (q) => q.eq("supplierId", supplier.supplierId))
+        .collect();
+      for (const product of products) {
+        await ctx.db.patch(product._id, { supplier: name });
+      }
+
+      const orders = await ctx.db
+        .query("orders")
+        .withIndex("by_supplierId", (q) => q.eq("supplierId", supplier.supplierId))
+        .collect();
+      for (const order of orders) {
+        await ctx.db.patch(order._id, { supplier: name });
+      }
+
+      const catalogItems = await ctx.db
+        .query("catalogItems")
+        .withIndex("by_supplierId", (q) => q.eq("supplierId", supplier.supplierId))
+        .collect();
+      for (const item of catalogItems) {
+        await ctx.db.patch(item._id, { supplier: name });
+      }
+
+      const costs = await ctx.db.query("additionalCosts").collect();
+      for (const cost of costs) {
+        if (cost.supplier === supplier.name) await ctx.db.patch(cost._id, { supplier: name });
+      }
+
+      const payments = await ctx.db.query("payments").collect();
+      for (const payment of payments) {
+        if (payment.payee === supplier.name) await ctx.db.patch(payment._id, { payee: name });
+      }
+    }
+
     return true;
   },
 });
 
+// Sets the default payment terms for a supplier picked by name
+export const setSupplierPaymentTerm = mutation({
+  args: {
+    name: v.string(),
+    paymentTermId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const supplier = await findOrCreateSupplier(ctx, args.name);
+    await ctx.db.patch(supplier._id, {
+      paymentTermId: args.paymentTermId || undefined,
+    });
+    return supplier.supplierId;
+  },
+});
+
 export const deleteSupplier = mutation({
   args: { supplierId: v.string() },
   handler: async (ctx, { supplierId }) => {
@@ -132,7 +547,177 @@ export const deleteSupplier = mutation({
 
     if (!supplier) return false;
 
+    // Products and orders keep the name as free text
+    const products = await ctx.db
+      .query("products")
+      .withIndex("by_supplierId", (q) => q.eq("supplierId", supplierId))
+      .collect();
+    for (const product of products) {
+      await ctx.db.patch(product._id, { supplierId: undefined });
+    }
+
+    const orders = await ctx.db
+      .query("orders")
+      .withIndex("by_supplierId", (q) => q.eq("supplierId", supplierId))
+      .collect();
+    for (const order of orders) {
+      await ctx.db.patch(order._id, { supplierId: undefined });
+    }
+
+    const catalogItems = await ctx.db
+      .query("catalogItems")
+      .withIndex("by_supplierId", (q) => q.eq("supplierId", supplierId))
+      .collect();
+    for (const item of catalogItems) {
+      await ctx.db.patch(item._id, { supplierId: undefined });
+    }
+
     await ctx.db.delete(supplier._id);
     return true;
   },
 });
+
+// Folds several supplier names into one canonical supplier: every product,
+// order, catalog item, cost and payment that uses one of the names is rewritten, and the
+// other supplier records are deleted after filling the canonical one's gaps
+export const mergeSuppliers = mutation({
+  args: {
+    canonicalName: v.string(),
+    names: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const name = args.canonicalName.trim();
+    if (!name) throw new Error("Canonical supplier name is required");
+
+    const canonical = await findOrCreateSupplier(ctx, name);
+    const names = new Set([...args.names, args.canonicalName]);
+
+    const suppliers = await ctx.db.query("suppliers").collect();
+    const merged = suppliers.filter(
+      (s) => names.has(s.name) && s.supplierId !== canonical.supplierId
+    );
+    const mergedIds = new Set(merged.map((s) => s.supplierId));
+
+    const updates: Record<string, unknown> = {};
+    if (canonical.name !== name) updates.name = name;
+    const fields = ["contactName", "email", "phone", "country", "notes", "paymentTermId"] as const;
+    for (const field of fields) {
+      const value = canonical[field] || merged.find((s) => s[field])?.[field];
+      if (value && value !== canonical[field]) updates[field] = value;
+    }
+    await ctx.db.patch(canonical._id, updates);
+
+    const reference = { supplier: name, supplierId: canonical.supplierId };
+    const needsRewrite = (doc: { supplier?: string; supplierId?: string }) =>
+      ((doc.supplier !== undefined && names.has(doc.supplier)) ||
+        (doc.supplierId !== undefined &&
+          (mergedIds.has(doc.supplierId) || doc.supplierId === canonical.supplierId))) &&
+      (doc.supplier !== name || doc.supplierId !== canonical.supplierId);
+    let rewritten = 0;
+
+    const products = await ctx.db.query("products").collect();
+    for (const product of products) {
+      if (needsRewrite(product)) {
+        await ctx.db.patch(product._id, reference);
+        rewritten++;
+      }
+    }
+
+    const orders = await ctx.db.query("orders").collect();
+    for (const order of orders) {
+      if (needsRewrite(order)) {
+        await ctx.db.patch(order._id, reference);
+        rewritten++;
+      }
+    }
+
+    const catalogItems = await ctx.db.query("catalogItems").collect();
+    for (const item of catalogItems) {
+      if (needsRewrite(item)) {
+        await ctx.db.patch(item._id, reference);
+        rewritten++;
+      }
+    }
+
+    const costs = await ctx.db.query("additionalCosts").collect();
+    for (const cost of costs) {
+      if (cost.supplier && names.has(cost.supplier) && cost.supplier !== name) {
+        await ctx.db.patch(cost._id, { supplier: name });
+        rewritten++;
+      }
+    }
+
+    const payments = await ctx.db.query("payments").collect();
+    for (const payment of payments) {
+      if (payment.payee && names.has(payment.payee) && payment.payee !== name) {
+        await ctx.db.patch(payment._id, { payee: name });
+        rewritten++;
+      }
+    }
+
+    for (const supplier of merged) {
+      await ctx.db.delete(supplier._id);
+    }
+
+    return {
+      supplierId: canonical.supplierId,
+      mergedSuppliers: merged.length,
+      rewrittenReferences: rewritten,
+    };
+  },
+});
+
+// One-off migration: links products and orders that only have a free-text
+// supplier name to supplier records, creating records for unknown names.
+// Costs and payments to a known supplier get its exact name for the ledger.
+export const linkSupplierNames = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const supplierCountBefore = (await ctx.db.query("suppliers").collect()).length;
+    let linkedProducts = 0;
+    let linkedOrders = 0;
+
+    const products = await ctx.db.query("products").collect();
+    for (const product of products) {
+      if (product.supplierId || !product.supplier?.trim()) continue;
+      const supplier = await findOrCreateSupplier(ctx, product.supplier);
+      await ctx.db.patch(product._id, {
+        supplierId: supplier.supplierId,
+        supplier: supplier.name,
+      });
+      linkedProducts++;
+    }
+
+    const orders = await ctx.db.query("orders").collect();
+    for (const order of orders) {
+      if (order.supplierId || !order.supplier?.trim()) continue;
+      const supplier = await findOrCreateSupplier(ctx, order.supplier);
+      await ctx.db.patch(order._id, {
+        supplierId: supplier.supplierId,
+        supplier: supplier.name,
+      });
+      linkedOrders++;
+    }
+
+    const suppliers = await ctx.db.query("suppliers").collect();
+    const nameByKey = new Map(suppliers.map((s) => [normalizeSupplierName(s.name), s.name]));
+
+    const costs = await ctx.db.query("additionalCosts").collect();
+    for (const cost of costs) {
+      const name = cost.supplier && nameByKey.get(normalizeSupplierName(cost.supplier));
+      if (name && name !== cost.supplier) await ctx.db.patch(cost._id, { supplier: name });
+    }
+
+    const payments = await ctx.db.query("payments").collect();
+    for (const payment of payments) {
+      const name = payment.payee && nameByKey.get(normalizeSupplierName(payment.payee));
+      if (name && name !== payment.payee) await ctx.db.patch(payment._id, { payee: name });
+    }
+
+    return {
+      linkedProducts,
+      linkedOrders,
+      createdSuppliers: suppliers.length - supplierCountBefore,
+    };
+  },
+});
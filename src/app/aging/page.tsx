@@ -0,0 +1,213 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import Link from 'next/link';
+import { useQuery } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import { formatCurrency, formatDate, formatNumber } from '@/lib/utils';
+import { AGING_BUCKETS, type AgingBucket } from '../../../convex/helpers';
+import Card from '@/components/ui/Card';
+import Spinner from '@/components/ui/Spinner';
+import { ArrowRightIcon, ChevronDownIcon, ChevronLeftIcon } from '@heroicons/react/24/outline';
+
+const BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: 'טרם הגיע מועדו',
+  '1-30': '1-30 ימים',
+  '31-60': '31-60 ימים',
+  '61-90': '61-90 ימים',
+  '90+': '90+ ימים',
+};
+
+const BUCKET_COLORS: Record<AgingBucket, string> = {
+  current: 'text-gray-900',
+  '1-30': 'text-amber-600',
+  '31-60': 'text-orange-600',
+  '61-90': 'text-red-600',
+  '90+': 'text-red-800',
+};
+
+export default function AgingPage() {
+  const [today] = useState(() => new Date().toISOString().split('T')[0]);
+  const rows = useQuery(api.payments.getAgingReport, { today });
+  const [expandedPayees, setExpandedPayees] = useState<Set<string>>(new Set());
+
+  const togglePayee = (payee: string) => {
+    setExpandedPayees((prev) => {
+      const next = new Set(prev);
+      if (next.has(payee)) {
+        next.delete(payee);
+      } else {
+        next.add(payee);
+      }
+      return next;
+    });
+  };
+
+  const totals = AGING_BUCKETS.map((bucket) => ({
+    bucket,
+    amount: (rows ?? []).reduce((sum, row) => sum + row.buckets[bucket], 0),
+  }));
+  const unscheduledTotal = (rows ?? []).reduce((sum, row) => sum + row.unscheduledILS, 0);
+  const grandTotal = (rows ?? []).reduce((sum, row) => sum + row.totalILS, 0);
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="bg-white border-b sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <ArrowRightIcon className="w-5 h-5 text-gray-600" />
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">גיול תשלומים</h1>
+              <p className="text-sm text-gray-500">
+                תשלומים ממתינים בכל ההזמנות לפי ימי איחור, בשקלים לפי שערי ההזמנה
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+        {rows === undefined ? (
+          <div className="flex justify-center py-12">
+            <Spinner size="lg" />
+          </div>
+        ) : rows.length === 0 ? (
+          <Card>
+            <p className="text-gray-500 text-center py-8">אין תשלומים ממתינים</p>
+          </Card>
+        ) : (
+          <>
+            {/* Bucket totals */}
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+              {totals.map(({ bucket, amount }) => (
+                <Card key={bucket}>
+                  <p className="text-sm text-gray-500">{BUCKET_LABELS[bucket]}</p>
+                  <p className={`text-xl font-bold ${BUCKET_COLORS[bucket]}`}>
+                    {formatCurrency(amount)}
+                  </p>
+                </Card>
+              ))}
+              <Card>
+                <p className="text-sm text-gray-500">ללא מועד</p>
+                <p className="text-xl font-bold text-gray-500">
+                  {formatCurrency(unscheduledTotal)}
+                </p>
+              </Card>
+            </div>
+
+            {/* By payee */}
+            <Card>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b bg-gray-50">
+                      <th className="text-right py-3 px-4 font-medium text-gray-600">נמען</th>
+                      {AGING_BUCKETS.map((bucket) => (
+                        <th
+                          key={bucket}
+                          className="text-right py-3 px-4 font-medium text-gray-600"
+                        >
+                          {BUCKET_LABELS[bucket]}
+                        </th>
+                      ))}
+                      <th className="text-right py-3 px-4 font-medium text-gray-600">ללא מועד</th>
+                      <th className="text-right py-3 px-4 font-medium text-gray-600">סה״כ</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row) => {
+                      const isExpanded = expandedPayees.has(row.payee);
+                      return (
+                        <Fragment key={row.payee}>
+                          <tr
+                            className="border-b hover:bg-gray-50 cursor-pointer"
+                            onClick={() => togglePayee(row.payee)}
+                          >
+                            <td className="py-3 px-4 font-medium">
+                              <div className="flex items-center gap-1">
+                                {isExpanded ? (
+                                  <ChevronDownIcon className="w-4 h-4 text-gray-400" />
+                                ) : (
+                                  <ChevronLeftIcon className="w-4 h-4 text-gray-400" />
+                                )}
+                                {row.payee || 'ללא נמען'}
+                              </div>
+                            </td>
+                            {AGING_BUCKETS.map((bucket) => (
+                              <td
+                                key={bucket}
+                                className={`py-3 px-4 ${
+                                  row.buckets[bucket] ? BUCKET_COLORS[bucket] : 'text-gray-300'
+                                }`}
+                              >
+                                {row.buckets[bucket] ? formatCurrency(row.buckets[bucket]) : '-'}
+                              </td>
+                            ))}
+                            <td className="py-3 px-4 text-gray-500">
+                              {row.unscheduledILS ? formatCurrency(row.unscheduledILS) : '-'}
+                            </td>
+                            <td className="py-3 px-4 font-semibold">
+                              {formatCurrency(row.totalILS)}
+                            </td>
+                          </tr>
+                          {isExpanded &&
+                            row.payments.map((payment) => (
+                              <tr key={payment.paymentId} className="border-b bg-gray-50/50">
+                                <td className="py-2 px-4 pr-10 text-gray-600" colSpan={3}>
+                                  <Link
+                                    href={`/orders/${payment.orderId}`}
+                                    className="text-blue-600 hover:underline"
+                                  >
+                                    {payment.orderName}
+                                  </Link>
+                                  {payment.description && ` · ${payment.description}`}
+                                </td>
+                                <td className="py-2 px-4 text-gray-600">
+                                  {payment.dueDate ? formatDate(payment.dueDate) : 'ללא מועד'}
+                                </td>
+                                <td
+                                  className={`py-2 px-4 ${
+                                    payment.bucket ? BUCKET_COLORS[payment.bucket] : 'text-gray-500'
+                                  }`}
+                                >
+                                  {payment.daysOverdue > 0
+                                    ? `באיחור ${payment.daysOverdue} ימים`
+                                    : payment.dueDate
+                                    ? `בעוד ${-payment.daysOverdue} ימים`
+                                    : '-'}
+                                </td>
+                                <td className="py-2 px-4 text-gray-600" colSpan={2}>
+                                  {formatNumber(payment.amount)} {payment.currency}
+                                </td>
+                                <td className="py-2 px-4">{formatCurrency(payment.amountILS)}</td>
+                              </tr>
+                            ))}
+                        </Fragment>
+                      );
+                    })}
+                    <tr className="bg-gray-100 font-semibold">
+                      <td className="py-3 px-4">סה״כ</td>
+                      {totals.map(({ bucket, amount }) => (
+                        <td key={bucket} className="py-3 px-4">
+                          {formatCurrency(amount)}
+                        </td>
+                      ))}
+                      <td className="py-3 px-4">{formatCurrency(unscheduledTotal)}</td>
+                      <td className="py-3 px-4">{formatCurrency(grandTotal)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -7,7 +7,7 @@ export async function PUT(
 ) {
   try {
     const { costId } = await params;
-    const { linkedProductIds, ...updates } = await request.json();
+    const { linkedProductIds, weights, ...updates } = await request.json();
 
     const success = await updateCost(costId, updates);
 
@@ -20,7 +20,7 @@ export async function PUT(
 
     // Update linked products if provided
     if (linkedProductIds) {
-      await updateCostProductLinks(costId, linkedProductIds);
+      await updateCostProductLinks(costId, linkedProductIds, weights);
     }
 
     return NextResponse.json({ success: true });
@@ -1,6 +1,12 @@
 import { NextResponse } from 'next/server';
 
-const DEFAULT_RATES = { USD: 3.76, CNY: 0.52, live: false };
+const DEFAULT_RATES = { USD: 3.76, CNY: 0.52, rates: { USD: 3.76, CNY: 0.52 }, live: false };
+
+interface BoiExchangeRate {
+  key: string;
+  currentExchangeRate: number;
+  unit?: number;
+}
 
 export async function GET() {
   try {
@@ -13,15 +19,14 @@ export async function GET() {
     }
 
     const data = await response.json();
-    const rates = { USD: 3.76, CNY: 0.52, live: false };
+    const rates: Record<string, number> = { ...DEFAULT_RATES.rates };
 
-    data.exchangeRates?.forEach((r: { key: string; currentExchangeRate: number }) => {
-      if (r.key === 'USD') rates.USD = r.currentExchangeRate;
-      if (r.key === 'CNY') rates.CNY = r.currentExchangeRate;
+    data.exchangeRates?.forEach((r: BoiExchangeRate) => {
+      // Some currencies (JPY, SEK...) are quoted per 100 units
+      rates[r.key] = r.currentExchangeRate / (r.unit || 1);
     });
 
-    rates.live = true;
-    return NextResponse.json(rates);
+    return NextResponse.json({ USD: rates.USD, CNY: rates.CNY, rates, live: true });
   } catch (error) {
     console.error('Error fetching exchange rates:', error);
     return NextResponse.json(DEFAULT_RATES);
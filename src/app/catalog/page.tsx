@@ -0,0 +1,196 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import { formatCurrency, formatNumber } from '@/lib/utils';
+import Button from '@/components/ui/Button';
+import Card from '@/components/ui/Card';
+import Spinner from '@/components/ui/Spinner';
+import { useToast } from '@/components/ui/Toast';
+import CatalogItemFormModal from '@/components/catalog/CatalogItemFormModal';
+import PriceHistoryModal from '@/components/catalog/PriceHistoryModal';
+import {
+  ArrowRightIcon,
+  PlusIcon,
+  MagnifyingGlassIcon,
+  PencilIcon,
+  TrashIcon,
+  PhotoIcon,
+  ChartBarIcon,
+} from '@heroicons/react/24/outline';
+
+type CatalogItem = NonNullable<ReturnType<typeof useQuery<typeof api.catalog.getCatalogItems>>>[number];
+
+export default function CatalogPage() {
+  const items = useQuery(api.catalog.getCatalogItems);
+  const deleteCatalogItemMutation = useMutation(api.catalog.deleteCatalogItem);
+  const { showToast } = useToast();
+
+  const [search, setSearch] = useState('');
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [editingItem, setEditingItem] = useState<CatalogItem | null>(null);
+  const [historyItem, setHistoryItem] = useState<CatalogItem | null>(null);
+
+  const filteredItems = (items ?? []).filter((item) =>
+    [item.sku, item.name, item.supplier, item.hsCode].some((value) =>
+      value?.toLowerCase().includes(search.toLowerCase())
+    )
+  );
+
+  const handleDelete = async (item: CatalogItem) => {
+    if (!confirm(`האם למחוק את ${item.sku}? שורות הזמנה קיימות יישמרו`)) return;
+
+    try {
+      await deleteCatalogItemMutation({ catalogId: item.catalogId });
+      showToast('פריט נמחק', 'success');
+    } catch (error) {
+      console.error('Error deleting catalog item:', error);
+      showToast('שגיאה במחיקת פריט', 'error');
+    }
+  };
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="bg-white border-b sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <ArrowRightIcon className="w-5 h-5 text-gray-600" />
+            </Link>
+            <h1 className="flex-1 text-2xl font-bold text-gray-900">קטלוג מוצרים</h1>
+            <Button onClick={() => setShowAddModal(true)}>
+              <PlusIcon className="w-5 h-5" />
+              פריט חדש
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+        {/* Search */}
+        <div className="relative max-w-md">
+          <MagnifyingGlassIcon className="absolute right-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="חיפוש לפי מק״ט, שם, ספק או קוד מכס..."
+            className="w-full pr-10 pl-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <Card>
+          {items === undefined ? (
+            <div className="flex justify-center py-8">
+              <Spinner />
+            </div>
+          ) : filteredItems.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">
+              {search ? 'לא נמצאו פריטים' : 'הקטלוג ריק'}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-gray-50">
+                    <th className="text-right py-3 px-4 font-medium text-gray-600"></th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">מק״ט</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">שם</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">ספק</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">CBM/יח</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">KG/יח</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">קוד מכס</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">מחיר אחרון</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">הוזמן</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredItems.map((item) => (
+                    <tr key={item.catalogId} className="border-b hover:bg-gray-50">
+                      <td className="py-2 px-4">
+                        {item.photoUrl ? (
+                          <Image
+                            src={item.photoUrl}
+                            alt={item.name}
+                            width={40}
+                            height={40}
+                            unoptimized
+                            className="w-10 h-10 object-cover rounded"
+                          />
+                        ) : (
+                          <div className="w-10 h-10 rounded bg-gray-100 flex items-center justify-center">
+                            <PhotoIcon className="w-5 h-5 text-gray-300" />
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 font-medium" dir="ltr">{item.sku}</td>
+                      <td className="py-3 px-4">{item.name}</td>
+                      <td className="py-3 px-4">{item.supplier || '-'}</td>
+                      <td className="py-3 px-4">{formatNumber(item.cbmPerUnit, 3)}</td>
+                      <td className="py-3 px-4">{formatNumber(item.kgPerUnit, 1)}</td>
+                      <td className="py-3 px-4" dir="ltr">{item.hsCode || '-'}</td>
+                      <td className="py-3 px-4">
+                        {item.lastPrice ? (
+                          <Link
+                            href={`/orders/${item.lastPrice.orderId}`}
+                            className="text-blue-600 hover:underline"
+                          >
+                            {formatCurrency(item.lastPrice.pricePerUnit, item.lastPrice.currency)}
+                          </Link>
+                        ) : (
+                          '-'
+                        )}
+                      </td>
+                      <td className="py-3 px-4">{item.orderLineCount}</td>
+                      <td className="py-3 px-4">
+                        <div className="flex items-center gap-1">
+                          <button
+                            onClick={() => setHistoryItem(item)}
+                            className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded"
+                            title="היסטוריית מחירים"
+                          >
+                            <ChartBarIcon className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => setEditingItem(item)}
+                            className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded"
+                            title="עריכה"
+                          >
+                            <PencilIcon className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(item)}
+                            className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded"
+                            title="מחק"
+                          >
+                            <TrashIcon className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+      </main>
+
+      {showAddModal && <CatalogItemFormModal onClose={() => setShowAddModal(false)} />}
+      {editingItem && (
+        <CatalogItemFormModal item={editingItem} onClose={() => setEditingItem(null)} />
+      )}
+      {historyItem && (
+        <PriceHistoryModal item={historyItem} onClose={() => setHistoryItem(null)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+'use client';
+
+import { use } from 'react';
+import Link from 'next/link';
+import { useQuery } from 'convex/react';
+import { api } from '../../../../../../convex/_generated/api';
+import Button from '@/components/ui/Button';
+import Spinner from '@/components/ui/Spinner';
+import { ArrowRightIcon, PrinterIcon } from '@heroicons/react/24/outline';
+
+// Supplier-facing, so labels are English with Chinese alongside
+const formatAmount = (value: number) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDocumentDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
+
+interface DocumentInstallment {
+  percent: number;
+  trigger: 'days' | 'milestone';
+  dayOffset: number;
+  milestoneName?: string;
+}
+
+const formatInstallment = ({ percent, trigger, dayOffset, milestoneName }: DocumentInstallment) => {
+  if (trigger === 'milestone') {
+    const milestone = milestoneName || 'milestone / 节点';
+    return dayOffset > 0
+      ? `${percent}% ${dayOffset} days after ${milestone} / ${milestone}后${dayOffset}天`
+      : `${percent}% on ${milestone} / ${milestone}时`;
+  }
+  return dayOffset > 0
+    ? `${percent}% ${dayOffset} days after order / 下单后${dayOffset}天`
+    : `${percent}% on order / 下单时`;
+};
+
+export default function DocumentPage({
+  params,
+}: {
+  params: Promise<{ orderId: string; documentId: string }>;
+}) {
+  const { orderId, documentId } = use(params);
+  const data = useQuery(api.documents.getDocument, { documentId });
+
+  if (data === undefined) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  if (data === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-500">מסמך לא נמצא</p>
+      </div>
+    );
+  }
+
+  const { document, order } = data;
+  const { company } = document;
+
+  const totals = document.lines.reduce<Record<string, number>>((acc, line) => {
+    acc[line.currency] = (acc[line.currency] || 0) + line.total;
+    return acc;
+  }, {});
+
+  return (
+    <div className="min-h-screen">
+      {/* Toolbar */}
+      <header className="bg-white border-b sticky top-0 z-10 print:hidden">
+        <div className="max-w-4xl mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href={`/orders/${orderId}`}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <ArrowRightIcon className="w-5 h-5 text-gray-600" />
+            </Link>
+            <div className="flex-1">
+              <h1 className="text-2xl font-bold text-gray-900">
+                הזמנת רכש - {document.supplier || 'ללא ספק'}
+              </h1>
+              <p className="text-sm text-gray-500">
+                גרסה {document.version} · {order?.orderName}
+              </p>
+            </div>
+            <Button onClick={() => window.print()}>
+              <PrinterIcon className="w-5 h-5" />
+              הדפס / שמור PDF
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-6 print:p-0 print:max-w-none">
+        <div
+          dir="ltr"
+          className="print-document bg-white shadow-sm rounded-lg p-10 text-sm text-gray-900 print:shadow-none print:rounded-none print:p-0"
+        >
+          {/* Title */}
+          <div className="flex items-start justify-between border-b-2 border-gray-900 pb-4 mb-6">
+            <div>
+              <p className="text-xl font-bold">{company.name || 'Buyer'}</p>
+              {company.address && <p className="text-gray-600">{company.address}</p>}
+              {company.phone && <p className="text-gray-600">Tel: {company.phone}</p>}
+              {company.email && <p className="text-gray-600">{company.email}</p>}
+              {company.taxId && <p className="text-gray-600">Company No.: {company.taxId}</p>}
+            </div>
+            <div className="text-right">
+              <p className="text-2xl font-bold tracking-wide">PURCHASE ORDER</p>
+              <p className="text-lg text-gray-600">采购订单</p>
+            </div>
+          </div>
+
+          {/* Document details */}
+          <div className="grid grid-cols-2 gap-6 mb-6">
+            <div>
+              <p className="text-xs font-semibold text-gray-500 uppercase">Supplier / 供应商</p>
+              <p className="text-base font-semibold">{document.supplier || '-'}</p>
+            </div>
+            <table className="text-sm">
+              <tbody>
+                <tr>
+                  <td className="pr-4 py-0.5 text-gray-500">PO No. / 订单号</td>
+                  <td className="font-medium">{document.documentId}</td>
+                </tr>
+                <tr>
+                  <td className="pr-4 py-0.5 text-gray-500">Version / 版本</td>
+                  <td className="font-medium">{document.version}</td>
+                </tr>
+                <tr>
+                  <td className="pr-4 py-0.5 text-gray-500">Date / 日期</td>
+                  <td className="font-medium">{formatDocumentDate(document.createdDate)}</td>
+                </tr>
+                <tr>
+                  <td className="pr-4 py-0.5 text-gray-500">Order Ref. / 参考号</td>
+                  <td className="font-medium">{document.orderId}</td>
+                </tr>
+                {document.incoterm && (
+                  <tr>
+                    <td className="pr-4 py-0.5 text-gray-500">Incoterm / 贸易术语</td>
+                    <td className="font-medium">{document.incoterm}</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Lines */}
+          <table className="w-full border-collapse mb-6">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="border border-gray-300 px-2 py-2 text-left">#</th>
+                <th className="border border-gray-300 px-2 py-2 text-left">Item / 品名</th>
+                <th className="border border-gray-300 px-2 py-2 text-left">HS Code / 海关编码</th>
+                <th className="border border-gray-300 px-2 py-2 text-right">Qty / 数量</th>
+                <th className="border border-gray-300 px-2 py-2 text-right">Unit Price / 单价</th>
+                <th className="border border-gray-300 px-2 py-2 text-right">Amount / 金额</th>
+              </tr>
+            </thead>
+            <tbody>
+              {document.lines.map((line, index) => (
+                <tr key={line.productId}>
+                  <td className="border border-gray-300 px-2 py-2">{index + 1}</td>
+                  <td className="border border-gray-300 px-2 py-2">
+                    <p className="font-medium">{line.name}</p>
+                    {line.notes && <p className="text-xs text-gray-500">{line.notes}</p>}
+                  </td>
+                  <td className="border border-gray-300 px-2 py-2">{line.hsCode || '-'}</td>
+                  <td className="border border-gray-300 px-2 py-2 text-right">
+                    {line.quantity.toLocaleString('en-US')}
+                  </td>
+                  <td className="border border-gray-300 px-2 py-2 text-right">
+                    {line.currency} {formatAmount(line.unitPrice)}
+                  </td>
+                  <td className="border border-gray-300 px-2 py-2 text-right">
+                    {line.currency} {formatAmount(line.total)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              {Object.entries(totals).map(([currency, total]) => (
+                <tr key={currency} className="font-semibold">
+                  <td colSpan={5} className="border border-gray-300 px-2 py-2 text-right">
+                    Total / 合计 ({currency})
+                  </td>
+                  <td className="border border-gray-300 px-2 py-2 text-right">
+                    {currency} {formatAmount(total)}
+                  </td>
+                </tr>
+              ))}
+            </tfoot>
+          </table>
+
+          {/* Terms */}
+          <div className="space-y-2 mb-12">
+            <p>
+              <span className="font-semibold">Payment Terms / 付款方式: </span>
+              {document.paymentInstallments?.length
+                ? document.paymentInstallments.map(formatInstallment).join(', ')
+                : document.paymentTerms || 'As agreed / 按约定'}
+            </p>
+          </div>
+
+          {/* Signatures */}
+          <div className="grid grid-cols-2 gap-12 pt-8">
+            <div className="border-t border-gray-400 pt-2 text-gray-600">
+              Buyer Signature / 买方签字
+            </div>
+            <div className="border-t border-gray-400 pt-2 text-gray-600">
+              Supplier Confirmation / 供应商确认
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import Link from 'next/link';
 import { useQuery, useMutation } from 'convex/react';
 import { api } from '../../../../convex/_generated/api';
 import { formatCurrency } from '@/lib/utils';
+import { INCOTERMS, type Incoterm } from '@/lib/incoterms';
 import Button from '@/components/ui/Button';
 import Card from '@/components/ui/Card';
 import Spinner from '@/components/ui/Spinner';
@@ -13,6 +14,7 @@ import { useToast } from '@/components/ui/Toast';
 import ProductsTab from '@/components/order/ProductsTab';
 import CostsTab from '@/components/order/CostsTab';
 import PaymentsTab from '@/components/order/PaymentsTab';
+import ShipmentsTab from '@/components/order/ShipmentsTab';
 import SummaryTab from '@/components/order/SummaryTab';
 import {
   ArrowRightIcon,
@@ -21,9 +23,10 @@ import {
   CubeIcon,
   BanknotesIcon,
   CurrencyDollarIcon,
+  ExclamationTriangleIcon,
 } from '@heroicons/react/24/outline';
 
-type TabId = 'summary' | 'products' | 'costs' | 'payments';
+type TabId = 'summary' | 'products' | 'shipments' | 'costs' | 'payments';
 
 export default function OrderPage({ params }: { params: Promise<{ orderId: string }> }) {
   const { orderId } = use(params);
@@ -33,11 +36,16 @@ export default function OrderPage({ params }: { params: Promise<{ orderId: strin
   const data = useQuery(api.orders.getOrderFull, { orderId });
   const updateOrderMutation = useMutation(api.orders.updateOrder);
   const deleteOrderMutation = useMutation(api.orders.deleteOrder);
+  const paymentTerms = useQuery(api.paymentTerms.getPaymentTerms) ?? [];
+  const suppliers = useQuery(api.suppliers.getAllSuppliers) ?? [];
 
   const [activeTab, setActiveTab] = useState<TabId>('summary');
   const [isEditing, setIsEditing] = useState(false);
   const [editedOrder, setEditedOrder] = useState<{
     orderName?: string;
+    incoterm?: Incoterm;
+    paymentTermId?: string;
+    supplierId?: string;
     status?: string;
     notes?: string;
   }>({});
@@ -46,6 +54,9 @@ export default function OrderPage({ params }: { params: Promise<{ orderId: strin
   if (data && Object.keys(editedOrder).length === 0) {
     setEditedOrder({
       orderName: data.order.orderName,
+      incoterm: data.order.incoterm,
+      paymentTermId: data.order.paymentTermId || '',
+      supplierId: data.order.supplierId || '',
       status: data.order.status,
       notes: data.order.notes || '',
     });
@@ -56,6 +67,9 @@ export default function OrderPage({ params }: { params: Promise<{ orderId: strin
       await updateOrderMutation({
         orderId,
         orderName: editedOrder.orderName,
+        incoterm: editedOrder.incoterm,
+        paymentTermId: editedOrder.paymentTermId,
+        supplierId: editedOrder.supplierId,
         status: editedOrder.status,
         notes: editedOrder.notes,
       });
@@ -98,10 +112,12 @@ export default function OrderPage({ params }: { params: Promise<{ orderId: strin
   }
 
   const { order, summary } = data;
+  const orderPaymentTerm = paymentTerms.find((t) => t.paymentTermId === order.paymentTermId);
 
   const tabs: { id: TabId; label: string }[] = [
     { id: 'summary', label: 'סיכום' },
     { id: 'products', label: `מוצרים (${summary.productCount})` },
+    { id: 'shipments', label: `משלוחים (${data.shipments.length})` },
     { id: 'costs', label: `עלויות (${data.costs.length})` },
     { id: 'payments', label: `תשלומים (${data.payments.length})` },
   ];
@@ -121,20 +137,83 @@ export default function OrderPage({ params }: { params: Promise<{ orderId: strin
 
             <div className="flex-1">
               {isEditing ? (
-                <input
-                  type="text"
-                  value={editedOrder.orderName || ''}
-                  onChange={(e) =>
-                    setEditedOrder({ ...editedOrder, orderName: e.target.value })
-                  }
-                  className="text-2xl font-bold text-gray-900 border-b-2 border-blue-500 focus:outline-none"
-                />
+                <div className="flex items-center gap-3">
+                  <input
+                    type="text"
+                    value={editedOrder.orderName || ''}
+                    onChange={(e) =>
+                      setEditedOrder({ ...editedOrder, orderName: e.target.value })
+                    }
+                    className="text-2xl font-bold text-gray-900 border-b-2 border-blue-500 focus:outline-none"
+                  />
+                  <select
+                    value={editedOrder.incoterm || ''}
+                    onChange={(e) =>
+                      setEditedOrder({
+                        ...editedOrder,
+                        incoterm: (e.target.value || undefined) as Incoterm | undefined,
+                      })
+                    }
+                    className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="">ללא תנאי סחר</option>
+                    {INCOTERMS.map((term) => (
+                      <option key={term.value} value={term.value}>
+                        {term.label}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={editedOrder.supplierId || ''}
+                    onChange={(e) =>
+                      setEditedOrder({ ...editedOrder, supplierId: e.target.value })
+                    }
+                    className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="">ללא ספק</option>
+                    {suppliers.map((supplier) => (
+                      <option key={supplier.supplierId} value={supplier.supplierId}>
+                        {supplier.name}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={editedOrder.paymentTermId || ''}
+                    onChange={(e) =>
+                      setEditedOrder({ ...editedOrder, paymentTermId: e.target.value })
+                    }
+                    className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="">תנאי תשלום לפי הספק</option>
+                    {paymentTerms.map((term) => (
+                      <option key={term.paymentTermId} value={term.paymentTermId}>
+                        {term.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               ) : (
                 <h1 className="text-2xl font-bold text-gray-900">
                   {order.orderName}
                 </h1>
               )}
-              <p className="text-sm text-gray-500">{order.orderId}</p>
+              <p className="text-sm text-gray-500">
+                {order.orderId}
+                {order.supplier && (
+                  <>
+                    {' · '}
+                    {order.supplierId ? (
+                      <Link href={`/suppliers/${order.supplierId}`} className="hover:underline">
+                        {order.supplier}
+                      </Link>
+                    ) : (
+                      order.supplier
+                    )}
+                  </>
+                )}
+                {order.incoterm && ` · ${order.incoterm}`}
+                {orderPaymentTerm && ` · ${orderPaymentTerm.name}`}
+              </p>
             </div>
 
             <div className="flex items-center gap-2">
@@ -170,6 +249,15 @@ export default function OrderPage({ params }: { params: Promise<{ orderId: strin
       </header>
 
       <main className="max-w-7xl mx-auto px-4 py-6">
+        {data.missingRates.length > 0 && (
+          <div className="flex items-center gap-2 mb-6 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            <ExclamationTriangleIcon className="w-5 h-5 flex-shrink-0" />
+            <span>
+              חסרים שערי חליפין עבור {data.missingRates.join(', ')} - סכומים במטבעות אלו אינם נכללים בחישוב
+            </span>
+          </div>
+        )}
+
         {/* Summary Cards */}
         <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6">
           <Card>
@@ -240,8 +328,15 @@ export default function OrderPage({ params }: { params: Promise<{ orderId: strin
               <SummaryTab
                 order={order}
                 summary={summary}
+                containerPlan={data.containerPlan}
+                customs={data.customs}
+                fxSummary={data.fxSummary}
                 milestones={data.orderMilestones}
+                milestoneTypes={data.milestoneTypes}
                 products={data.products}
+                supplierBreakdown={data.supplierBreakdown}
+                rates={data.rates}
+                missingExpectedCosts={data.missingExpectedCosts}
               />
             )}
             {activeTab === 'products' && (
@@ -249,6 +344,17 @@ export default function OrderPage({ params }: { params: Promise<{ orderId: strin
                 orderId={orderId}
                 products={data.products}
                 productMilestones={data.productMilestones}
+                milestoneTypes={data.milestoneTypes}
+                rates={data.rates}
+              />
+            )}
+            {activeTab === 'shipments' && (
+              <ShipmentsTab
+                orderId={orderId}
+                shipments={data.shipments}
+                shipmentAllocations={data.shipmentAllocations}
+                shipmentSummaries={data.shipmentSummaries}
+                products={data.products}
               />
             )}
             {activeTab === 'costs' && (
@@ -256,6 +362,13 @@ export default function OrderPage({ params }: { params: Promise<{ orderId: strin
                 orderId={orderId}
                 costs={data.costs}
                 products={data.products}
+                links={data.links}
+                shipments={data.shipments}
+                shipmentAllocations={data.shipmentAllocations}
+                rates={data.rates}
+                allocationDecimals={data.settings.allocationDecimals}
+                incoterm={order.incoterm}
+                missingExpectedCosts={data.missingExpectedCosts}
               />
             )}
             {activeTab === 'payments' && (
@@ -266,6 +379,7 @@ export default function OrderPage({ params }: { params: Promise<{ orderId: strin
                 costs={data.costs}
                 paymentProductLinks={data.paymentProductLinks}
                 paymentCostLinks={data.paymentCostLinks}
+                rates={data.rates}
               />
             )}
           </div>
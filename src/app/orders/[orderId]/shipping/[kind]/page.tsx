@@ -0,0 +1,219 @@
+'use client';
+
+import { use } from 'react';
+import Link from 'next/link';
+import { useQuery } from 'convex/react';
+import { api } from '../../../../../../convex/_generated/api';
+import {
+  COMMERCIAL_INVOICE_HEADERS,
+  PACKING_LIST_HEADERS,
+  SHIPPING_DOCUMENT_TITLES,
+  getInvoiceTotals,
+  getPackingListTotals,
+  type ShippingDocumentKind,
+} from '@/lib/shippingDocuments';
+import Button from '@/components/ui/Button';
+import Spinner from '@/components/ui/Spinner';
+import { ArrowRightIcon, PrinterIcon } from '@heroicons/react/24/outline';
+
+const formatAmount = (value: number, decimals: number = 2) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+
+const cellClass = 'border border-gray-300 px-2 py-2';
+
+export default function ShippingDocumentPage({
+  params,
+}: {
+  params: Promise<{ orderId: string; kind: string }>;
+}) {
+  const { orderId, kind } = use(params);
+  const data = useQuery(api.orders.getOrderFull, { orderId });
+  const settings = useQuery(api.settings.getSettings);
+
+  if (data === undefined || settings === undefined) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  if (data === null || !(kind in SHIPPING_DOCUMENT_TITLES)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-500">מסמך לא נמצא</p>
+      </div>
+    );
+  }
+
+  const documentKind = kind as ShippingDocumentKind;
+  const title = SHIPPING_DOCUMENT_TITLES[documentKind];
+  const { order, products } = data;
+  const { company } = settings;
+  const packingTotals = getPackingListTotals(products);
+  const invoiceTotals = getInvoiceTotals(products);
+
+  return (
+    <div className="min-h-screen">
+      {/* Toolbar */}
+      <header className="bg-white border-b sticky top-0 z-10 print:hidden">
+        <div className="max-w-5xl mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href={`/orders/${orderId}`}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <ArrowRightIcon className="w-5 h-5 text-gray-600" />
+            </Link>
+            <div className="flex-1">
+              <h1 className="text-2xl font-bold text-gray-900">{title.he}</h1>
+              <p className="text-sm text-gray-500">{order.orderName}</p>
+            </div>
+            <Button onClick={() => window.print()}>
+              <PrinterIcon className="w-5 h-5" />
+              הדפס / שמור PDF
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 py-6 print:p-0 print:max-w-none">
+        <div
+          dir="ltr"
+          className="print-document bg-white shadow-sm rounded-lg p-10 text-sm text-gray-900 print:shadow-none print:rounded-none print:p-0"
+        >
+          {/* Title */}
+          <div className="flex items-start justify-between border-b-2 border-gray-900 pb-4 mb-6">
+            <div>
+              <p className="text-xs font-semibold text-gray-500 uppercase">Buyer / 买方</p>
+              <p className="text-xl font-bold">{company.name || '-'}</p>
+              {company.address && <p className="text-gray-600">{company.address}</p>}
+              {company.phone && <p className="text-gray-600">Tel: {company.phone}</p>}
+              {company.email && <p className="text-gray-600">{company.email}</p>}
+              {company.taxId && <p className="text-gray-600">Company No.: {company.taxId}</p>}
+            </div>
+            <div className="text-right">
+              <p className="text-2xl font-bold tracking-wide">{title.en}</p>
+              <p className="text-lg text-gray-600">{title.zh}</p>
+              <table className="mt-2 ml-auto text-sm">
+                <tbody>
+                  <tr>
+                    <td className="pr-4 py-0.5 text-gray-500">Order Ref. / 参考号</td>
+                    <td className="font-medium">{order.orderId}</td>
+                  </tr>
+                  <tr>
+                    <td className="pr-4 py-0.5 text-gray-500">Date / 日期</td>
+                    <td className="font-medium">
+                      {new Date().toLocaleDateString('en-GB', {
+                        day: '2-digit',
+                        month: 'short',
+                        year: 'numeric',
+                      })}
+                    </td>
+                  </tr>
+                  {order.incoterm && (
+                    <tr>
+                      <td className="pr-4 py-0.5 text-gray-500">Incoterm / 贸易术语</td>
+                      <td className="font-medium">{order.incoterm}</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {documentKind === 'packing-list' ? (
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-gray-100">
+                  {PACKING_LIST_HEADERS.map((header) => (
+                    <th key={header} className={`${cellClass} text-left`}>
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {products.map((product, index) => (
+                  <tr key={product.productId}>
+                    <td className={cellClass}>{index + 1}</td>
+                    <td className={cellClass}>{product.name}</td>
+                    <td className={cellClass}>{product.supplier || '-'}</td>
+                    <td className={cellClass}>{product.hsCode || '-'}</td>
+                    <td className={`${cellClass} text-right`}>{product.cartonCount || '-'}</td>
+                    <td className={`${cellClass} text-right`}>{product.quantity.toLocaleString('en-US')}</td>
+                    <td className={`${cellClass} text-right`}>{formatAmount(product.kgTotal, 1)}</td>
+                    <td className={`${cellClass} text-right`}>{formatAmount(product.cbmTotal, 3)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="font-semibold">
+                  <td colSpan={4} className={`${cellClass} text-right`}>
+                    Total / 合计
+                  </td>
+                  <td className={`${cellClass} text-right`}>
+                    {packingTotals.cartons}
+                    {packingTotals.missingCartons > 0 && '*'}
+                  </td>
+                  <td className={`${cellClass} text-right`}>{packingTotals.quantity.toLocaleString('en-US')}</td>
+                  <td className={`${cellClass} text-right`}>{formatAmount(packingTotals.kg, 1)}</td>
+                  <td className={`${cellClass} text-right`}>{formatAmount(packingTotals.cbm, 3)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          ) : (
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-gray-100">
+                  {COMMERCIAL_INVOICE_HEADERS.map((header) => (
+                    <th key={header} className={`${cellClass} text-left`}>
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {products.map((product, index) => (
+                  <tr key={product.productId}>
+                    <td className={cellClass}>{index + 1}</td>
+                    <td className={cellClass}>{product.name}</td>
+                    <td className={cellClass}>{product.supplier || '-'}</td>
+                    <td className={cellClass}>{product.hsCode || '-'}</td>
+                    <td className={`${cellClass} text-right`}>{product.quantity.toLocaleString('en-US')}</td>
+                    <td className={cellClass}>{product.currency}</td>
+                    <td className={`${cellClass} text-right`}>{formatAmount(product.pricePerUnit)}</td>
+                    <td className={`${cellClass} text-right`}>{formatAmount(product.priceTotal)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                {Object.entries(invoiceTotals).map(([currency, total]) => (
+                  <tr key={currency} className="font-semibold">
+                    <td colSpan={7} className={`${cellClass} text-right`}>
+                      Total / 合计 ({currency})
+                    </td>
+                    <td className={`${cellClass} text-right`}>{formatAmount(total)}</td>
+                  </tr>
+                ))}
+              </tfoot>
+            </table>
+          )}
+
+          {documentKind === 'packing-list' && packingTotals.missingCartons > 0 && (
+            <p className="text-xs text-gray-500 mt-2">
+              * {packingTotals.missingCartons} item(s) without a carton count
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-12 pt-16">
+            <div />
+            <div className="border-t border-gray-400 pt-2 text-gray-600">
+              Signature / 签字
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -12,11 +12,17 @@ import NewOrderModal from '@/components/orders/NewOrderModal';
 import ConfirmModal from '@/components/ui/ConfirmModal';
 import { useToast } from '@/components/ui/Toast';
 import Image from 'next/image';
+import Link from 'next/link';
+import type { Incoterm } from '@/lib/incoterms';
 import {
   PlusIcon,
   MagnifyingGlassIcon,
   CubeIcon,
   BanknotesIcon,
+  Cog6ToothIcon,
+  ClockIcon,
+  BuildingStorefrontIcon,
+  RectangleStackIcon,
 } from '@heroicons/react/24/outline';
 
 export default function HomePage() {
@@ -33,6 +39,10 @@ export default function HomePage() {
     order_name: string;
     usd_rate: number;
     cny_rate: number;
+    exchange_rates: Record<string, number>;
+    incoterm: Incoterm;
+    payment_term_id: string;
+    supplier_id: string;
     estimated_arrival: string;
     notes: string;
   }) => {
@@ -41,6 +51,10 @@ export default function HomePage() {
         orderName: data.order_name,
         usdRate: data.usd_rate,
         cnyRate: data.cny_rate,
+        exchangeRates: data.exchange_rates,
+        incoterm: data.incoterm,
+        paymentTermId: data.payment_term_id || undefined,
+        supplierId: data.supplier_id || undefined,
         notes: data.notes || undefined,
         estimatedArrival: data.estimated_arrival || undefined,
       });
@@ -107,10 +121,40 @@ export default function HomePage() {
               <Image src="/Logo.png" alt="Logo" width={40} height={40} />
               <h1 className="text-2xl font-bold text-gray-900">מעקב רכש בינלאומי</h1>
             </div>
-            <Button onClick={() => setShowNewOrderModal(true)}>
-              <PlusIcon className="w-5 h-5" />
-              הזמנה חדשה
-            </Button>
+            <div className="flex items-center gap-2">
+              <Link
+                href="/suppliers"
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                title="ספקים"
+              >
+                <BuildingStorefrontIcon className="w-5 h-5 text-gray-600" />
+              </Link>
+              <Link
+                href="/catalog"
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                title="קטלוג"
+              >
+                <RectangleStackIcon className="w-5 h-5 text-gray-600" />
+              </Link>
+              <Link
+                href="/aging"
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                title="גיול תשלומים"
+              >
+                <ClockIcon className="w-5 h-5 text-gray-600" />
+              </Link>
+              <Link
+                href="/settings"
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                title="הגדרות"
+              >
+                <Cog6ToothIcon className="w-5 h-5 text-gray-600" />
+              </Link>
+              <Button onClick={() => setShowNewOrderModal(true)}>
+                <PlusIcon className="w-5 h-5" />
+                הזמנה חדשה
+              </Button>
+            </div>
           </div>
         </div>
       </header>
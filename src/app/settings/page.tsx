@@ -0,0 +1,53 @@
+'use client';
+
+import Link from 'next/link';
+import Card from '@/components/ui/Card';
+import CompanyDetailsSection from '@/components/settings/CompanyDetailsSection';
+import CustomsRatesSection from '@/components/settings/CustomsRatesSection';
+import GeneralSettingsSection from '@/components/settings/GeneralSettingsSection';
+import MilestoneTypesSection from '@/components/settings/MilestoneTypesSection';
+import PaymentTermsSection from '@/components/settings/PaymentTermsSection';
+import { ArrowRightIcon } from '@heroicons/react/24/outline';
+
+export default function SettingsPage() {
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="bg-white border-b sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <ArrowRightIcon className="w-5 h-5 text-gray-600" />
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900">הגדרות</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+        <Card>
+          <GeneralSettingsSection />
+        </Card>
+
+        <Card>
+          <CompanyDetailsSection />
+        </Card>
+
+        <Card>
+          <MilestoneTypesSection />
+        </Card>
+
+        <Card>
+          <PaymentTermsSection />
+        </Card>
+
+        <Card>
+          <CustomsRatesSection />
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+'use client';
+
+import { useState, use } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../../convex/_generated/api';
+import { formatDate, formatNumber } from '@/lib/utils';
+import Button from '@/components/ui/Button';
+import Card from '@/components/ui/Card';
+import Spinner from '@/components/ui/Spinner';
+import { useToast } from '@/components/ui/Toast';
+import SupplierFormModal from '@/components/suppliers/SupplierFormModal';
+import SupplierScorecard from '@/components/suppliers/SupplierScorecard';
+import {
+  ArrowRightIcon,
+  PencilIcon,
+  TrashIcon,
+  BookOpenIcon,
+} from '@heroicons/react/24/outline';
+
+export default function SupplierPage({ params }: { params: Promise<{ supplierId: string }> }) {
+  const { supplierId } = use(params);
+  const router = useRouter();
+  const { showToast } = useToast();
+
+  const data = useQuery(api.suppliers.getSupplierDetails, { supplierId });
+  const deleteSupplierMutation = useMutation(api.suppliers.deleteSupplier);
+
+  const [showEditModal, setShowEditModal] = useState(false);
+
+  const handleDelete = async () => {
+    if (!confirm('האם למחוק את הספק? המוצרים וההזמנות ישמרו את שם הספק')) return;
+
+    try {
+      await deleteSupplierMutation({ supplierId });
+      showToast('ספק נמחק', 'success');
+      router.push('/suppliers');
+    } catch (error) {
+      console.error('Error deleting supplier:', error);
+      showToast('שגיאה במחיקת ספק', 'error');
+    }
+  };
+
+  if (data === undefined) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  if (data === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-500">ספק לא נמצא</p>
+      </div>
+    );
+  }
+
+  const { supplier, paymentTerm, orders, products } = data;
+
+  const details: { label: string; value?: string; ltr?: boolean }[] = [
+    { label: 'איש קשר', value: supplier.contactName },
+    { label: 'אימייל', value: supplier.email, ltr: true },
+    { label: 'טלפון', value: supplier.phone, ltr: true },
+    { label: 'מדינה', value: supplier.country },
+    { label: 'תנאי תשלום', value: paymentTerm?.name || 'תשלום אחד' },
+    { label: 'הערות', value: supplier.notes },
+  ];
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="bg-white border-b sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/suppliers"
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <ArrowRightIcon className="w-5 h-5 text-gray-600" />
+            </Link>
+            <div className="flex-1">
+              <h1 className="text-2xl font-bold text-gray-900">{supplier.name}</h1>
+              <p className="text-sm text-gray-500">{supplier.supplierId}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Link href={`/suppliers/ledger?supplier=${encodeURIComponent(supplier.name)}`}>
+                <Button variant="secondary">
+                  <BookOpenIcon className="w-5 h-5" />
+                  כרטסת
+                </Button>
+              </Link>
+              <Button variant="secondary" onClick={() => setShowEditModal(true)}>
+                <PencilIcon className="w-5 h-5" />
+                עריכה
+              </Button>
+              <Button variant="danger" onClick={handleDelete}>
+                <TrashIcon className="w-5 h-5" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+        {/* Details */}
+        <Card>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+            {details.map((detail) => (
+              <div key={detail.label}>
+                <p className="text-gray-500">{detail.label}</p>
+                <p className="font-medium" dir={detail.ltr ? 'ltr' : undefined}>
+                  {detail.value || '-'}
+                </p>
+              </div>
+            ))}
+          </div>
+        </Card>
+
+        <SupplierScorecard supplierId={supplier.supplierId} />
+
+        {/* Orders */}
+        <Card>
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">הזמנות ({orders.length})</h2>
+          {orders.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">אין הזמנות</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-gray-50">
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">הזמנה</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">מספר</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">סטטוס</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">נוצרה</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {orders.map((order) => (
+                    <tr
+                      key={order.orderId}
+                      className="border-b hover:bg-gray-50 cursor-pointer"
+                      onClick={() => router.push(`/orders/${order.orderId}`)}
+                    >
+                      <td className="py-3 px-4 font-medium">{order.orderName}</td>
+                      <td className="py-3 px-4 text-gray-500">{order.orderId}</td>
+                      <td className="py-3 px-4">{order.status}</td>
+                      <td className="py-3 px-4">{formatDate(order.createdDate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+
+        {/* Products */}
+        <Card>
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">מוצרים ({products.length})</h2>
+          {products.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">אין מוצרים</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-gray-50">
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">מוצר</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">הזמנה</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">כמות</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">מחיר/יח</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">סה״כ</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">תאריך הזמנה</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {products.map((product) => (
+                    <tr key={product.productId} className="border-b hover:bg-gray-50">
+                      <td className="py-3 px-4 font-medium">{product.name}</td>
+                      <td className="py-3 px-4">
+                        <Link
+                          href={`/orders/${product.orderId}`}
+                          className="text-blue-600 hover:underline"
+                        >
+                          {product.orderName}
+                        </Link>
+                      </td>
+                      <td className="py-3 px-4">{product.quantity}</td>
+                      <td className="py-3 px-4">
+                        {formatNumber(product.pricePerUnit)} {product.currency}
+                      </td>
+                      <td className="py-3 px-4">
+                        {formatNumber(product.priceTotal)} {product.currency}
+                      </td>
+                      <td className="py-3 px-4">
+                        {product.orderDate ? formatDate(product.orderDate) : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+      </main>
+
+      {showEditModal && (
+        <SupplierFormModal supplier={supplier} onClose={() => setShowEditModal(false)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { useQuery } from 'convex/react';
+import { api } from '../../../../convex/_generated/api';
+import { formatCurrency, formatDate, formatNumber } from '@/lib/utils';
+import { exportSupplierStatement } from '@/lib/exportUtils';
+import Button from '@/components/ui/Button';
+import Card from '@/components/ui/Card';
+import Select from '@/components/ui/Select';
+import Spinner from '@/components/ui/Spinner';
+import { ArrowRightIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+
+const ENTRY_TYPE_LABELS: Record<string, string> = {
+  product: 'מוצר',
+  cost: 'עלות',
+  payment: 'תשלום',
+};
+
+function SupplierLedgerContent() {
+  const searchParams = useSearchParams();
+  const supplierNames = useQuery(api.suppliers.getSupplierNames);
+  const [supplier, setSupplier] = useState(() => searchParams.get('supplier') || '');
+  const ledger = useQuery(
+    api.suppliers.getSupplierLedger,
+    supplier ? { name: supplier } : 'skip'
+  );
+
+  const handleExport = () => {
+    if (!ledger) return;
+    const date = new Date().toISOString().split('T')[0];
+    exportSupplierStatement(
+      ledger.supplier,
+      ledger.entries,
+      ledger.balances,
+      `כרטסת_${ledger.supplier}_${date}`
+    );
+  };
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="bg-white border-b sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/suppliers"
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <ArrowRightIcon className="w-5 h-5 text-gray-600" />
+            </Link>
+            <div className="flex-1">
+              <h1 className="text-2xl font-bold text-gray-900">כרטסת ספק</h1>
+              <p className="text-sm text-gray-500">
+                התחייבויות ותשלומים מאושרים לספק בכל ההזמנות
+              </p>
+            </div>
+            {ledger && ledger.entries.length > 0 && (
+              <Button variant="secondary" onClick={handleExport}>
+                <ArrowDownTrayIcon className="w-5 h-5" />
+                ייצוא ל-Excel
+              </Button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+        <Card>
+          <div className="max-w-sm">
+            <Select
+              id="supplier"
+              label="ספק"
+              options={[
+                { value: '', label: 'בחר ספק' },
+                ...(supplierNames ?? []).map((name) => ({ value: name, label: name })),
+              ]}
+              value={supplier}
+              onChange={(e) => setSupplier(e.target.value)}
+            />
+          </div>
+        </Card>
+
+        {supplier && ledger === undefined && (
+          <div className="flex justify-center py-12">
+            <Spinner size="lg" />
+          </div>
+        )}
+
+        {ledger && (
+          <>
+            {/* Closing balances */}
+            {Object.keys(ledger.balances).length > 0 && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {Object.entries(ledger.balances).map(([currency, balance]) => (
+                  <Card key={currency}>
+                    <p className="text-sm text-gray-500">יתרה ב-{currency}</p>
+                    <p
+                      className={`text-xl font-bold ${
+                        balance > 0.01 ? 'text-amber-600' : balance < -0.01 ? 'text-green-600' : 'text-gray-900'
+                      }`}
+                    >
+                      {formatCurrency(balance, currency)}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      {balance > 0.01 ? 'לתשלום לספק' : balance < -0.01 ? 'שולם מראש' : 'מאוזן'}
+                    </p>
+                  </Card>
+                ))}
+              </div>
+            )}
+
+            <Card>
+              {ledger.entries.length === 0 ? (
+                <p className="text-gray-500 text-center py-8">אין תנועות לספק</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b bg-gray-50">
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">תאריך</th>
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">סוג</th>
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">הזמנה</th>
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">תיאור</th>
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">אסמכתא</th>
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">מטבע</th>
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">חובה</th>
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">זכות</th>
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">יתרה</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {ledger.entries.map((entry, index) => (
+                        <tr key={index} className="border-b hover:bg-gray-50">
+                          <td className="py-3 px-4">{formatDate(entry.date)}</td>
+                          <td className="py-3 px-4">
+                            <span
+                              className={`text-xs px-2 py-0.5 rounded ${
+                                entry.type === 'payment'
+                                  ? 'bg-green-100 text-green-700'
+                                  : 'bg-gray-100 text-gray-700'
+                              }`}
+                            >
+                              {ENTRY_TYPE_LABELS[entry.type]}
+                            </span>
+                          </td>
+                          <td className="py-3 px-4">
+                            <Link
+                              href={`/orders/${entry.orderId}`}
+                              className="text-blue-600 hover:underline"
+                            >
+                              {entry.orderName}
+                            </Link>
+                          </td>
+                          <td className="py-3 px-4">{entry.description}</td>
+                          <td className="py-3 px-4 text-gray-500">{entry.reference || '-'}</td>
+                          <td className="py-3 px-4">{entry.currency}</td>
+                          <td className="py-3 px-4">{entry.debit ? formatNumber(entry.debit) : '-'}</td>
+                          <td className="py-3 px-4 text-green-600">
+                            {entry.credit ? formatNumber(entry.credit) : '-'}
+                          </td>
+                          <td className="py-3 px-4 font-semibold">{formatNumber(entry.balance)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+export default function SupplierLedgerPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen flex items-center justify-center">
+          <Spinner size="lg" />
+        </div>
+      }
+    >
+      <SupplierLedgerContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,184 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../../convex/_generated/api';
+import Button from '@/components/ui/Button';
+import Card from '@/components/ui/Card';
+import Select from '@/components/ui/Select';
+import Spinner from '@/components/ui/Spinner';
+import { useToast } from '@/components/ui/Toast';
+import { ArrowRightIcon, ArrowsPointingInIcon } from '@heroicons/react/24/outline';
+
+const THRESHOLD_OPTIONS = [
+  { value: '0.95', label: 'זהים כמעט לחלוטין' },
+  { value: '0.85', label: 'דומים מאוד' },
+  { value: '0.75', label: 'דומים' },
+];
+
+export default function SupplierMergePage() {
+  const [threshold, setThreshold] = useState('0.85');
+  const groups = useQuery(api.suppliers.findDuplicateSuppliers, {
+    threshold: parseFloat(threshold),
+  });
+  const mergeSuppliersMutation = useMutation(api.suppliers.mergeSuppliers);
+  const { showToast } = useToast();
+
+  // Per group, keyed by its suggested name: the name to keep and names left out
+  const [canonicalNames, setCanonicalNames] = useState<Record<string, string>>({});
+  const [excludedNames, setExcludedNames] = useState<Record<string, string[]>>({});
+  const [mergingGroup, setMergingGroup] = useState<string | null>(null);
+
+  const toggleExcluded = (groupKey: string, name: string) => {
+    const excluded = excludedNames[groupKey] || [];
+    setExcludedNames({
+      ...excludedNames,
+      [groupKey]: excluded.includes(name)
+        ? excluded.filter((n) => n !== name)
+        : [...excluded, name],
+    });
+  };
+
+  const handleMerge = async (groupKey: string, names: string[]) => {
+    const canonicalName = canonicalNames[groupKey] || groupKey;
+    const excluded = excludedNames[groupKey] || [];
+    const toMerge = names.filter((name) => !excluded.includes(name) && name !== canonicalName);
+
+    if (toMerge.length === 0) return;
+    if (!confirm(`למזג ${toMerge.length} שמות לתוך "${canonicalName}"?`)) return;
+
+    setMergingGroup(groupKey);
+    try {
+      const result = await mergeSuppliersMutation({ canonicalName, names: toMerge });
+      showToast(`הספקים מוזגו, עודכנו ${result.rewrittenReferences} רשומות`, 'success');
+    } catch (error) {
+      console.error('Error merging suppliers:', error);
+      showToast('שגיאה במיזוג ספקים', 'error');
+    } finally {
+      setMergingGroup(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="bg-white border-b sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/suppliers"
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <ArrowRightIcon className="w-5 h-5 text-gray-600" />
+            </Link>
+            <div className="flex-1">
+              <h1 className="text-2xl font-bold text-gray-900">מיזוג ספקים כפולים</h1>
+              <p className="text-sm text-gray-500">
+                שמות ספקים דומים במוצרים, הזמנות, עלויות ותשלומים
+              </p>
+            </div>
+            <div className="w-48">
+              <Select
+                id="threshold"
+                options={THRESHOLD_OPTIONS}
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6 space-y-4">
+        {groups === undefined ? (
+          <div className="flex justify-center py-12">
+            <Spinner size="lg" />
+          </div>
+        ) : groups.length === 0 ? (
+          <Card>
+            <p className="text-gray-500 text-center py-8">לא נמצאו ספקים כפולים</p>
+          </Card>
+        ) : (
+          groups.map((group) => {
+            const groupKey = group.suggestedName;
+            const canonicalName = canonicalNames[groupKey] || groupKey;
+            const excluded = excludedNames[groupKey] || [];
+            const mergeCount = group.names.filter(
+              (u) => !excluded.includes(u.name) && u.name !== canonicalName
+            ).length;
+
+            return (
+              <Card key={groupKey}>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b bg-gray-50">
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">שם לשמירה</th>
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">למזג</th>
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">שם</th>
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">מוצרים</th>
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">הזמנות</th>
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">עלויות</th>
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">תשלומים</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {group.names.map((usage) => (
+                        <tr key={usage.name} className="border-b hover:bg-gray-50">
+                          <td className="py-3 px-4">
+                            <input
+                              type="radio"
+                              name={`canonical-${groupKey}`}
+                              checked={canonicalName === usage.name}
+                              onChange={() =>
+                                setCanonicalNames({ ...canonicalNames, [groupKey]: usage.name })
+                              }
+                            />
+                          </td>
+                          <td className="py-3 px-4">
+                            <input
+                              type="checkbox"
+                              disabled={canonicalName === usage.name}
+                              checked={canonicalName === usage.name || !excluded.includes(usage.name)}
+                              onChange={() => toggleExcluded(groupKey, usage.name)}
+                            />
+                          </td>
+                          <td className="py-3 px-4 font-medium">
+                            {usage.supplierId ? (
+                              <Link
+                                href={`/suppliers/${usage.supplierId}`}
+                                className="text-blue-600 hover:underline"
+                              >
+                                {usage.name}
+                              </Link>
+                            ) : (
+                              usage.name
+                            )}
+                          </td>
+                          <td className="py-3 px-4">{usage.products}</td>
+                          <td className="py-3 px-4">{usage.orders}</td>
+                          <td className="py-3 px-4">{usage.costs}</td>
+                          <td className="py-3 px-4">{usage.payments}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="flex justify-end pt-4">
+                  <Button
+                    onClick={() => handleMerge(groupKey, group.names.map((u) => u.name))}
+                    disabled={mergeCount === 0 || mergingGroup !== null}
+                  >
+                    <ArrowsPointingInIcon className="w-5 h-5" />
+                    {mergingGroup === groupKey ? 'ממזג...' : `מזג ${mergeCount} לתוך "${canonicalName}"`}
+                  </Button>
+                </div>
+              </Card>
+            );
+          })
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import Button from '@/components/ui/Button';
+import Card from '@/components/ui/Card';
+import Spinner from '@/components/ui/Spinner';
+import { useToast } from '@/components/ui/Toast';
+import SupplierFormModal from '@/components/suppliers/SupplierFormModal';
+import {
+  ArrowRightIcon,
+  PlusIcon,
+  MagnifyingGlassIcon,
+  BookOpenIcon,
+  LinkIcon,
+  ArrowsPointingInIcon,
+} from '@heroicons/react/24/outline';
+
+export default function SuppliersPage() {
+  const router = useRouter();
+  const suppliers = useQuery(api.suppliers.getSupplierList);
+  const linkSupplierNamesMutation = useMutation(api.suppliers.linkSupplierNames);
+  const { showToast } = useToast();
+
+  const [search, setSearch] = useState('');
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [isLinking, setIsLinking] = useState(false);
+
+  const filteredSuppliers = (suppliers ?? []).filter((supplier) =>
+    [supplier.name, supplier.contactName, supplier.country].some((value) =>
+      value?.toLowerCase().includes(search.toLowerCase())
+    )
+  );
+
+  const handleLinkNames = async () => {
+    setIsLinking(true);
+    try {
+      const result = await linkSupplierNamesMutation();
+      showToast(
+        `קושרו ${result.linkedProducts} מוצרים ו-${result.linkedOrders} הזמנות, נוצרו ${result.createdSuppliers} ספקים`,
+        'success'
+      );
+    } catch (error) {
+      console.error('Error linking supplier names:', error);
+      showToast('שגיאה בקישור שמות ספקים', 'error');
+    } finally {
+      setIsLinking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="bg-white border-b sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <ArrowRightIcon className="w-5 h-5 text-gray-600" />
+            </Link>
+            <h1 className="flex-1 text-2xl font-bold text-gray-900">ספקים</h1>
+            <div className="flex items-center gap-2">
+              <Link
+                href="/suppliers/ledger"
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                title="כרטסת ספק"
+              >
+                <BookOpenIcon className="w-5 h-5 text-gray-600" />
+              </Link>
+              <Link
+                href="/suppliers/merge"
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                title="מיזוג ספקים כפולים"
+              >
+                <ArrowsPointingInIcon className="w-5 h-5 text-gray-600" />
+              </Link>
+              <Button variant="secondary" onClick={handleLinkNames} disabled={isLinking}>
+                <LinkIcon className="w-5 h-5" />
+                {isLinking ? 'מקשר...' : 'קשר שמות ספקים קיימים'}
+              </Button>
+              <Button onClick={() => setShowAddModal(true)}>
+                <PlusIcon className="w-5 h-5" />
+                ספק חדש
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+        {/* Search */}
+        <div className="relative max-w-md">
+          <MagnifyingGlassIcon className="absolute right-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="חיפוש ספק..."
+            className="w-full pr-10 pl-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <Card>
+          {suppliers === undefined ? (
+            <div className="flex justify-center py-8">
+              <Spinner />
+            </div>
+          ) : filteredSuppliers.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">
+              {search ? 'לא נמצאו ספקים' : 'אין ספקים'}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-gray-50">
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">שם</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">איש קשר</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">אימייל</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">טלפון</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">מדינה</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">הזמנות</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">מוצרים</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredSuppliers.map((supplier) => (
+                    <tr
+                      key={supplier.supplierId}
+                      className="border-b hover:bg-gray-50 cursor-pointer"
+                      onClick={() => router.push(`/suppliers/${supplier.supplierId}`)}
+                    >
+                      <td className="py-3 px-4 font-medium">{supplier.name}</td>
+                      <td className="py-3 px-4">{supplier.contactName || '-'}</td>
+                      <td className="py-3 px-4" dir="ltr">{supplier.email || '-'}</td>
+                      <td className="py-3 px-4" dir="ltr">{supplier.phone || '-'}</td>
+                      <td className="py-3 px-4">{supplier.country || '-'}</td>
+                      <td className="py-3 px-4">{supplier.orderCount}</td>
+                      <td className="py-3 px-4">{supplier.productCount}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+      </main>
+
+      {showAddModal && <SupplierFormModal onClose={() => setShowAddModal(false)} />}
+    </div>
+  );
+}
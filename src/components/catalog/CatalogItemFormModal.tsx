@@ -0,0 +1,235 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import { Id } from '../../../convex/_generated/dataModel';
+import Modal from '@/components/ui/Modal';
+import Input from '@/components/ui/Input';
+import Select from '@/components/ui/Select';
+import Button from '@/components/ui/Button';
+import { useToast } from '@/components/ui/Toast';
+
+interface CatalogItem {
+  catalogId: string;
+  sku: string;
+  name: string;
+  supplierId?: string;
+  cbmPerUnit: number;
+  kgPerUnit: number;
+  hsCode?: string;
+  notes?: string;
+  photoUrl: string | null;
+}
+
+interface CatalogItemFormModalProps {
+  onClose: () => void;
+  // Edits this item; adds a new one when omitted
+  item?: CatalogItem | null;
+}
+
+interface CatalogItemFormData {
+  sku: string;
+  name: string;
+  supplierId: string;
+  cbmPerUnit: number;
+  kgPerUnit: number;
+  hsCode: string;
+  notes: string;
+}
+
+export default function CatalogItemFormModal({ onClose, item }: CatalogItemFormModalProps) {
+  const suppliers = useQuery(api.suppliers.getAllSuppliers) ?? [];
+  const generateUploadUrlMutation = useMutation(api.files.generateUploadUrl);
+  const addCatalogItemMutation = useMutation(api.catalog.addCatalogItem);
+  const updateCatalogItemMutation = useMutation(api.catalog.updateCatalogItem);
+  const { showToast } = useToast();
+
+  // Mounted fresh each time it opens, so the form starts from the item
+  const [formData, setFormData] = useState<CatalogItemFormData>(() => ({
+    sku: item?.sku || '',
+    name: item?.name || '',
+    supplierId: item?.supplierId || '',
+    cbmPerUnit: item?.cbmPerUnit || 0,
+    kgPerUnit: item?.kgPerUnit || 0,
+    hsCode: item?.hsCode || '',
+    notes: item?.notes || '',
+  }));
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [removePhoto, setRemovePhoto] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const uploadPhoto = async (file: File): Promise<Id<'_storage'>> => {
+    const uploadUrl = await generateUploadUrlMutation();
+    const response = await fetch(uploadUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': file.type },
+      body: file,
+    });
+    if (!response.ok) throw new Error(`Photo upload failed: ${response.status}`);
+    const { storageId } = await response.json();
+    return storageId;
+  };
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    try {
+      const photoStorageId = photo ? await uploadPhoto(photo) : undefined;
+
+      if (item) {
+        await updateCatalogItemMutation({
+          catalogId: item.catalogId,
+          sku: formData.sku,
+          name: formData.name,
+          supplierId: formData.supplierId,
+          cbmPerUnit: formData.cbmPerUnit,
+          kgPerUnit: formData.kgPerUnit,
+          hsCode: formData.hsCode,
+          notes: formData.notes,
+          photoStorageId,
+          removePhoto: removePhoto || undefined,
+        });
+        showToast('פריט עודכן בהצלחה', 'success');
+      } else {
+        await addCatalogItemMutation({
+          sku: formData.sku,
+          name: formData.name,
+          supplierId: formData.supplierId || undefined,
+          cbmPerUnit: formData.cbmPerUnit,
+          kgPerUnit: formData.kgPerUnit,
+          hsCode: formData.hsCode || undefined,
+          notes: formData.notes || undefined,
+          photoStorageId,
+        });
+        showToast('פריט נוסף לקטלוג', 'success');
+      }
+
+      onClose();
+    } catch (error) {
+      console.error('Error saving catalog item:', error);
+      showToast('שגיאה בשמירת פריט', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const currentPhotoUrl = !removePhoto && !photo ? item?.photoUrl : null;
+
+  return (
+    <Modal isOpen onClose={onClose} title={item ? 'עריכת פריט' : 'פריט חדש'} size="lg">
+      <div className="space-y-4">
+        <div className="grid grid-cols-3 gap-4">
+          <Input
+            id="sku"
+            label="מק״ט"
+            dir="ltr"
+            value={formData.sku}
+            onChange={(e) => setFormData({ ...formData, sku: e.target.value })}
+            required
+          />
+          <div className="col-span-2">
+            <Input
+              id="catalogName"
+              label="שם הפריט"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              required
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <Select
+            id="catalogSupplier"
+            label="ספק ברירת מחדל"
+            options={[
+              { value: '', label: 'ללא ספק' },
+              ...suppliers.map((supplier) => ({ value: supplier.supplierId, label: supplier.name })),
+            ]}
+            value={formData.supplierId}
+            onChange={(e) => setFormData({ ...formData, supplierId: e.target.value })}
+          />
+          <Input
+            id="catalogHsCode"
+            label="קוד מכס (HS)"
+            dir="ltr"
+            value={formData.hsCode}
+            onChange={(e) => setFormData({ ...formData, hsCode: e.target.value })}
+            placeholder="8516.60.00"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            id="catalogCbm"
+            label="CBM ליחידה"
+            type="number"
+            step="0.001"
+            value={formData.cbmPerUnit}
+            onChange={(e) => setFormData({ ...formData, cbmPerUnit: parseFloat(e.target.value) || 0 })}
+          />
+          <Input
+            id="catalogKg"
+            label="KG ליחידה"
+            type="number"
+            step="0.1"
+            value={formData.kgPerUnit}
+            onChange={(e) => setFormData({ ...formData, kgPerUnit: parseFloat(e.target.value) || 0 })}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">תמונה</label>
+          <div className="flex items-center gap-4">
+            {currentPhotoUrl && (
+              <Image
+                src={currentPhotoUrl}
+                alt={formData.name}
+                width={64}
+                height={64}
+                unoptimized
+                className="w-16 h-16 object-cover rounded-lg border"
+              />
+            )}
+            <input
+              type="file"
+              accept="image/*"
+              onChange={(e) => setPhoto(e.target.files?.[0] ?? null)}
+              className="text-sm"
+            />
+            {item?.photoUrl && !photo && (
+              <label className="flex items-center gap-1 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={removePhoto}
+                  onChange={(e) => setRemovePhoto(e.target.checked)}
+                />
+                הסר תמונה
+              </label>
+            )}
+          </div>
+        </div>
+
+        <Input
+          id="catalogNotes"
+          label="הערות"
+          value={formData.notes}
+          onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+        />
+
+        <div className="flex justify-end gap-3 pt-4">
+          <Button variant="secondary" onClick={onClose}>
+            ביטול
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!formData.sku.trim() || !formData.name.trim() || isSaving}
+          >
+            {isSaving ? 'שומר...' : item ? 'עדכן' : 'הוסף'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
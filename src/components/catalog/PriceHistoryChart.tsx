@@ -0,0 +1,119 @@
+'use client';
+
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+interface PriceHistoryChartPoint {
+  productId: string;
+  date: string;
+  pricePerUnitILS: number;
+  finalCostPerUnitILS: number;
+  flagged: boolean;
+}
+
+interface PriceHistoryChartProps {
+  points: PriceHistoryChartPoint[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 72 };
+const GRID_LINES = 4;
+
+const SERIES = [
+  { key: 'pricePerUnitILS', label: 'מחיר ספק ליחידה', color: '#2563eb' },
+  { key: 'finalCostPerUnitILS', label: 'עלות נחיתה ליחידה', color: '#ea580c' },
+] as const;
+
+// Unit price and landed unit cost per order, in ILS, oldest on the left
+export default function PriceHistoryChart({ points }: PriceHistoryChartProps) {
+  if (points.length === 0) return null;
+
+  const maxValue =
+    Math.max(...points.flatMap((p) => [p.pricePerUnitILS, p.finalCostPerUnitILS])) || 1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  // A single order is drawn in the middle
+  const x = (i: number) =>
+    PADDING.left + (points.length > 1 ? (i / (points.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" direction="ltr">
+        {Array.from({ length: GRID_LINES + 1 }, (_, i) => {
+          const value = (maxValue / GRID_LINES) * i;
+          return (
+            <g key={i}>
+              <line
+                x1={PADDING.left}
+                x2={WIDTH - PADDING.right}
+                y1={y(value)}
+                y2={y(value)}
+                stroke="#e5e7eb"
+              />
+              <text
+                x={PADDING.left - 8}
+                y={y(value)}
+                textAnchor="end"
+                dominantBaseline="middle"
+                className="fill-gray-500 text-[10px]"
+              >
+                {formatCurrency(value)}
+              </text>
+            </g>
+          );
+        })}
+
+        {points.map((point, i) => (
+          <text
+            key={point.productId}
+            x={x(i)}
+            y={HEIGHT - 10}
+            textAnchor="middle"
+            className="fill-gray-500 text-[10px]"
+          >
+            {formatDate(point.date)}
+          </text>
+        ))}
+
+        {SERIES.map((series) => (
+          <g key={series.key}>
+            <polyline
+              points={points.map((p, i) => `${x(i)},${y(p[series.key])}`).join(' ')}
+              fill="none"
+              stroke={series.color}
+              strokeWidth={2}
+            />
+            {points.map((point, i) => (
+              <circle
+                key={point.productId}
+                cx={x(i)}
+                cy={y(point[series.key])}
+                r={series.key === 'pricePerUnitILS' && point.flagged ? 5 : 3}
+                fill={series.key === 'pricePerUnitILS' && point.flagged ? '#dc2626' : series.color}
+              >
+                <title>
+                  {`${series.label}: ${formatCurrency(point[series.key])}`}
+                </title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+
+      <div className="flex gap-4 justify-center text-xs text-gray-600 mt-2">
+        {SERIES.map((series) => (
+          <span key={series.key} className="flex items-center gap-1">
+            <span className="w-3 h-0.5 inline-block" style={{ backgroundColor: series.color }} />
+            {series.label}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="w-2 h-2 rounded-full inline-block bg-red-600" />
+          עלייה מעל הסף
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import Link from 'next/link';
+import { useQuery } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import { formatCurrency, formatDate, formatNumber } from '@/lib/utils';
+import Modal from '@/components/ui/Modal';
+import Spinner from '@/components/ui/Spinner';
+import PriceHistoryChart from '@/components/catalog/PriceHistoryChart';
+
+// A catalog item, or an order line matched by name and supplier
+export interface PriceHistoryItem {
+  catalogId?: string;
+  name: string;
+  supplier?: string;
+  supplierId?: string;
+}
+
+interface PriceHistoryModalProps {
+  item: PriceHistoryItem;
+  onClose: () => void;
+}
+
+export default function PriceHistoryModal({ item, onClose }: PriceHistoryModalProps) {
+  const history = useQuery(api.products.getPriceHistory, {
+    catalogId: item.catalogId,
+    name: item.name,
+    supplier: item.supplier,
+    supplierId: item.supplierId,
+  });
+
+  return (
+    <Modal isOpen onClose={onClose} title={`היסטוריית מחירים - ${item.name}`} size="xl">
+      {history === undefined ? (
+        <div className="flex justify-center py-8">
+          <Spinner />
+        </div>
+      ) : history.points.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">אין הזמנות קודמות לפריט</p>
+      ) : (
+        <div className="space-y-4">
+          <PriceHistoryChart points={history.points} />
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <th className="text-right py-3 px-4 font-medium text-gray-600">הזמנה</th>
+                  <th className="text-right py-3 px-4 font-medium text-gray-600">תאריך</th>
+                  <th className="text-right py-3 px-4 font-medium text-gray-600">כמות</th>
+                  <th className="text-right py-3 px-4 font-medium text-gray-600">מחיר/יח</th>
+                  <th className="text-right py-3 px-4 font-medium text-gray-600">שינוי</th>
+                  <th className="text-right py-3 px-4 font-medium text-gray-600">עלות נחיתה/יח ₪</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...history.points].reverse().map((point) => (
+                  <tr
+                    key={point.productId}
+                    className={`border-b ${point.flagged ? 'bg-red-50' : ''}`}
+                  >
+                    <td className="py-3 px-4">
+                      <Link
+                        href={`/orders/${point.orderId}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {point.orderName}
+                      </Link>
+                    </td>
+                    <td className="py-3 px-4">{formatDate(point.date)}</td>
+                    <td className="py-3 px-4">{point.quantity}</td>
+                    <td className="py-3 px-4">
+                      {formatNumber(point.pricePerUnit)} {point.currency}
+                    </td>
+                    <td
+                      className={`py-3 px-4 ${
+                        point.flagged
+                          ? 'text-red-600 font-semibold'
+                          : (point.priceChangePct ?? 0) < 0
+                            ? 'text-green-600'
+                            : 'text-gray-600'
+                      }`}
+                      dir="ltr"
+                    >
+                      {point.priceChangePct === null
+                        ? '-'
+                        : `${point.priceChangePct > 0 ? '+' : ''}${formatNumber(point.priceChangePct, 1)}%`}
+                    </td>
+                    <td className="py-3 px-4 font-medium">
+                      {formatCurrency(point.finalCostPerUnitILS)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            עליות מחיר של יותר מ-{formatNumber(history.threshold, 1)}% מסומנות באדום (ניתן לשנות בהגדרות)
+          </p>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import Button from '@/components/ui/Button';
+import Modal from '@/components/ui/Modal';
+import Input from '@/components/ui/Input';
+import Select from '@/components/ui/Select';
+
+interface MilestoneType {
+  typeId: string;
+  name: string;
+  defaultOrder: number;
+  color: string;
+}
+
+export interface NewMilestone {
+  milestoneTypeId: string;
+  targetDate: string;
+  notes: string;
+}
+
+interface AddMilestoneModalProps {
+  title: string;
+  // Types of the milestone's level, in their default order
+  milestoneTypes: MilestoneType[];
+  // Types the order or product already has, skipped when picking the default
+  usedTypeIds: string[];
+  onAdd: (milestone: NewMilestone) => Promise<void>;
+  onClose: () => void;
+}
+
+export default function AddMilestoneModal({
+  title,
+  milestoneTypes,
+  usedTypeIds,
+  onAdd,
+  onClose,
+}: AddMilestoneModalProps) {
+  const [formData, setFormData] = useState<NewMilestone>({
+    milestoneTypeId: (
+      milestoneTypes.find((t) => !usedTypeIds.includes(t.typeId)) ?? milestoneTypes[0]
+    )?.typeId ?? '',
+    targetDate: '',
+    notes: '',
+  });
+
+  const selectedType = milestoneTypes.find((t) => t.typeId === formData.milestoneTypeId);
+
+  return (
+    <Modal isOpen onClose={onClose} title={title}>
+      {milestoneTypes.length === 0 ? (
+        <div className="text-center py-4 space-y-3">
+          <p className="text-gray-500">לא הוגדרו סוגי מיילסטונים</p>
+          <Link href="/settings" className="text-blue-600 hover:underline text-sm">
+            הגדרת סוגי מיילסטונים
+          </Link>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-end gap-2">
+            <Select
+              id="milestoneTypeId"
+              label="סוג"
+              options={milestoneTypes.map((t) => ({ value: t.typeId, label: t.name }))}
+              value={formData.milestoneTypeId}
+              onChange={(e) => setFormData({ ...formData, milestoneTypeId: e.target.value })}
+            />
+            {selectedType && (
+              <span
+                className="w-4 h-4 mb-3 rounded-full flex-shrink-0"
+                style={{ backgroundColor: selectedType.color }}
+              />
+            )}
+          </div>
+
+          <Input
+            id="milestoneTargetDate"
+            label="תאריך יעד"
+            type="date"
+            value={formData.targetDate}
+            onChange={(e) => setFormData({ ...formData, targetDate: e.target.value })}
+          />
+
+          <Input
+            id="milestoneNotes"
+            label="הערות"
+            value={formData.notes}
+            onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+          />
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button variant="secondary" onClick={onClose}>
+              ביטול
+            </Button>
+            <Button onClick={() => onAdd(formData)} disabled={!formData.milestoneTypeId}>
+              הוסף
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,253 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import Image from 'next/image';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import { Doc } from '../../../convex/_generated/dataModel';
+import { formatDate } from '@/lib/utils';
+import Button from '@/components/ui/Button';
+import Modal from '@/components/ui/Modal';
+import Select from '@/components/ui/Select';
+import { useToast } from '@/components/ui/Toast';
+import {
+  PaperClipIcon,
+  DocumentIcon,
+  EyeIcon,
+  ArrowDownTrayIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+
+type EntityType = Doc<'attachments'>['entityType'];
+type DocumentType = Doc<'attachments'>['documentType'];
+type Attachment = Doc<'attachments'> & { url: string | null };
+
+const DOCUMENT_TYPES: { value: DocumentType; label: string }[] = [
+  { value: 'PI', label: 'חשבון פרופורמה (PI)' },
+  { value: 'CI', label: 'חשבונית מסחרית (CI)' },
+  { value: 'BL', label: 'שטר מטען (B/L)' },
+  { value: 'SWIFT', label: 'אישור SWIFT' },
+  { value: 'photo', label: 'תמונה' },
+  { value: 'certificate', label: 'תעודה' },
+];
+
+// The type new uploads start with on each kind of record
+const DEFAULT_DOCUMENT_TYPE: Record<EntityType, DocumentType> = {
+  order: 'PI',
+  product: 'photo',
+  cost: 'CI',
+  payment: 'SWIFT',
+};
+
+const isImage = (attachment: Attachment) => !!attachment.contentType?.startsWith('image/');
+const isPdf = (attachment: Attachment) => attachment.contentType === 'application/pdf';
+
+interface AttachmentsSectionProps {
+  orderId: string;
+  entityType: EntityType;
+  // orderId, productId, costId or paymentId
+  entityId: string;
+  title?: string;
+}
+
+export default function AttachmentsSection({
+  orderId,
+  entityType,
+  entityId,
+  title = 'קבצים מצורפים',
+}: AttachmentsSectionProps) {
+  const allAttachments = useQuery(api.attachments.getOrderAttachments, { orderId });
+  const generateUploadUrlMutation = useMutation(api.files.generateUploadUrl);
+  const addAttachmentMutation = useMutation(api.attachments.addAttachment);
+  const deleteAttachmentMutation = useMutation(api.attachments.deleteAttachment);
+  const { showToast } = useToast();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [documentType, setDocumentType] = useState<DocumentType>(
+    DEFAULT_DOCUMENT_TYPE[entityType]
+  );
+  const [isUploading, setIsUploading] = useState(false);
+  const [previewAttachment, setPreviewAttachment] = useState<Attachment | null>(null);
+
+  const attachments = (allAttachments ?? []).filter(
+    (a) => a.entityType === entityType && a.entityId === entityId
+  );
+
+  const handleUpload = async (file: File) => {
+    setIsUploading(true);
+    try {
+      const uploadUrl = await generateUploadUrlMutation();
+      const response = await fetch(uploadUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': file.type },
+        body: file,
+      });
+      if (!response.ok) throw new Error(`Upload failed: ${response.status}`);
+      const { storageId } = await response.json();
+
+      await addAttachmentMutation({
+        orderId,
+        entityType,
+        entityId,
+        documentType,
+        storageId,
+        fileName: file.name,
+        contentType: file.type || undefined,
+        size: file.size,
+      });
+      showToast('הקובץ הועלה', 'success');
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      showToast('שגיאה בהעלאת הקובץ', 'error');
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    if (!confirm(`האם למחוק את ${attachment.fileName}?`)) return;
+
+    try {
+      await deleteAttachmentMutation({ attachmentId: attachment.attachmentId });
+      showToast('הקובץ נמחק', 'success');
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+      showToast('שגיאה במחיקת הקובץ', 'error');
+    }
+  };
+
+  const typeLabel = (type: DocumentType) =>
+    DOCUMENT_TYPES.find((t) => t.value === type)?.label ?? type;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <h4 className="text-sm font-semibold text-gray-800 flex items-center gap-1">
+          <PaperClipIcon className="w-4 h-4" />
+          {title}
+          {attachments.length > 0 && (
+            <span className="text-gray-500 font-normal">({attachments.length})</span>
+          )}
+        </h4>
+        <div className="flex items-center gap-2">
+          <Select
+            id={`documentType-${entityId}`}
+            options={DOCUMENT_TYPES}
+            value={documentType}
+            onChange={(e) => setDocumentType(e.target.value as DocumentType)}
+          />
+          <input
+            ref={fileInputRef}
+            type="file"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleUpload(file);
+            }}
+          />
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+          >
+            {isUploading ? 'מעלה...' : 'העלה קובץ'}
+          </Button>
+        </div>
+      </div>
+
+      {attachments.length === 0 ? (
+        <p className="text-sm text-gray-500">אין קבצים מצורפים</p>
+      ) : (
+        <div className="space-y-2">
+          {attachments.map((attachment) => (
+            <div
+              key={attachment.attachmentId}
+              className="flex items-center gap-3 p-2 bg-white border border-gray-200 rounded-lg"
+            >
+              {isImage(attachment) && attachment.url ? (
+                <Image
+                  src={attachment.url}
+                  alt={attachment.fileName}
+                  width={40}
+                  height={40}
+                  unoptimized
+                  className="w-10 h-10 object-cover rounded"
+                />
+              ) : (
+                <div className="w-10 h-10 rounded bg-gray-100 flex items-center justify-center">
+                  <DocumentIcon className="w-5 h-5 text-gray-400" />
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate" dir="ltr">
+                  {attachment.fileName}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {typeLabel(attachment.documentType)} · {formatDate(attachment.uploadedDate)}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                {(isImage(attachment) || isPdf(attachment)) && (
+                  <button
+                    onClick={() => setPreviewAttachment(attachment)}
+                    className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded"
+                    title="תצוגה מקדימה"
+                  >
+                    <EyeIcon className="w-4 h-4" />
+                  </button>
+                )}
+                {attachment.url && (
+                  <a
+                    href={attachment.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    download={attachment.fileName}
+                    className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded"
+                    title="הורדה"
+                  >
+                    <ArrowDownTrayIcon className="w-4 h-4" />
+                  </a>
+                )}
+                <button
+                  onClick={() => handleDelete(attachment)}
+                  className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded"
+                  title="מחק"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {previewAttachment?.url && (
+        <Modal
+          isOpen
+          onClose={() => setPreviewAttachment(null)}
+          title={previewAttachment.fileName}
+          size="xl"
+        >
+          {isImage(previewAttachment) ? (
+            <Image
+              src={previewAttachment.url}
+              alt={previewAttachment.fileName}
+              width={800}
+              height={600}
+              unoptimized
+              className="w-full h-auto max-h-[70vh] object-contain"
+            />
+          ) : (
+            <iframe
+              src={previewAttachment.url}
+              title={previewAttachment.fileName}
+              className="w-full h-[70vh] border rounded"
+            />
+          )}
+        </Modal>
+      )}
+    </div>
+  );
+}
@@ -3,62 +3,120 @@
 import { useState } from 'react';
 import { useMutation } from 'convex/react';
 import { api } from '../../../convex/_generated/api';
-import { formatCurrency } from '@/lib/utils';
+import { formatCurrency, formatNumber } from '@/lib/utils';
 import Button from '@/components/ui/Button';
 import Modal from '@/components/ui/Modal';
 import Input from '@/components/ui/Input';
 import Select from '@/components/ui/Select';
 import { useToast } from '@/components/ui/Toast';
-import { PlusIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
+import AttachmentsSection from '@/components/order/AttachmentsSection';
+import { getRateCurrencyOptions } from '@/lib/currencies';
+import { COST_CATEGORIES, getCostCategoryLabel, type CostCategory } from '@/lib/incoterms';
+import {
+  MANUAL_ALLOCATION_METHODS,
+  DEFAULT_VOLUMETRIC_DIVISOR,
+  allocateCost,
+  getChargeableWeight,
+  getCostAllocationProducts,
+  getShipmentProducts,
+  toILS,
+  validateAllocationWeights,
+  type AllocationMethod,
+} from '../../../convex/helpers';
+import {
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
+  ExclamationTriangleIcon,
+} from '@heroicons/react/24/outline';
 
 interface Cost {
   costId: string;
   orderId: string;
   description: string;
   amount: number;
-  currency: 'USD' | 'CNY' | 'ILS';
-  allocationMethod: 'שווה' | 'נפח' | 'משקל' | 'עלות' | 'כמות';
+  currency: string;
+  allocationMethod: AllocationMethod;
+  volumetricDivisor?: number;
+  category?: CostCategory;
+  supplier?: string;
+  shipmentId?: string;
   notes?: string;
   amountILS?: number;
   linkedProductCount?: number;
+  paidILS?: number;
+  pendingILS?: number;
+  balanceILS?: number;
 }
 
 interface Product {
   productId: string;
   name: string;
   supplier?: string;
+  quantity: number;
+  priceTotal: number;
+  currency: string;
+  cbmTotal: number;
+  kgTotal: number;
+  finalCostILS: number;
+  costBreakdown: { costId: string; shareILS: number }[];
+}
+
+interface CostProductLink {
+  costId: string;
+  productId: string;
+  isLinked: boolean;
+  weight?: number;
+}
+
+interface Shipment {
+  shipmentId: string;
+  name: string;
+}
+
+interface ShipmentAllocation {
+  shipmentId: string;
+  productId: string;
+  quantity: number;
 }
 
 interface CostsTabProps {
   orderId: string;
   costs: Cost[];
   products: Product[];
+  links: CostProductLink[];
+  shipments: Shipment[];
+  shipmentAllocations: ShipmentAllocation[];
+  rates: Record<string, number>;
+  allocationDecimals: number;
+  incoterm?: string;
+  missingExpectedCosts: CostCategory[];
 }
 
-const CURRENCIES = [
-  { value: 'USD', label: 'USD ($)' },
-  { value: 'CNY', label: 'CNY (¥)' },
-  { value: 'ILS', label: 'ILS (₪)' },
-];
-
 const ALLOCATION_METHODS = [
   { value: 'שווה', label: 'שווה - לפי מספר מוצרים' },
   { value: 'נפח', label: 'נפח - לפי CBM' },
   { value: 'משקל', label: 'משקל - לפי KG' },
   { value: 'עלות', label: 'עלות - לפי עלות המוצר' },
   { value: 'כמות', label: 'כמות - לפי מספר יחידות' },
+  { value: 'אחוזים', label: 'אחוזים - אחוז ידני לכל מוצר' },
+  { value: 'ידני', label: 'ידני - משקל יחסי לכל מוצר' },
+  { value: 'משקל לחיוב', label: 'משקל לחיוב - הגבוה מבין KG למשקל נפחי' },
 ];
 
-type Currency = 'USD' | 'CNY' | 'ILS';
-type AllocationMethod = 'נפח' | 'משקל' | 'עלות' | 'כמות' | 'שווה';
-
 interface CostFormData {
   description: string;
   amount: number;
-  currency: Currency;
+  currency: string;
   allocationMethod: AllocationMethod;
+  volumetricDivisor: number;
+  category: CostCategory;
+  supplier: string;
+  // Empty for costs split over the whole order
+  shipmentId: string;
   notes: string;
   linkedProductIds: string[];
+  weights: Record<string, number>;
 }
 
 const emptyCost: CostFormData = {
@@ -66,43 +124,67 @@ const emptyCost: CostFormData = {
   amount: 0,
   currency: 'USD',
   allocationMethod: 'שווה',
+  volumetricDivisor: DEFAULT_VOLUMETRIC_DIVISOR,
+  category: 'other',
+  supplier: '',
+  shipmentId: '',
   notes: '',
   linkedProductIds: [],
+  weights: {},
 };
 
 export default function CostsTab({
   orderId,
   costs,
   products,
+  links,
+  shipments,
+  shipmentAllocations,
+  rates,
+  allocationDecimals,
+  incoterm,
+  missingExpectedCosts,
 }: CostsTabProps) {
   const { showToast } = useToast();
   const addCostMutation = useMutation(api.costs.addCost);
   const updateCostMutation = useMutation(api.costs.updateCost);
   const deleteCostMutation = useMutation(api.costs.deleteCost);
-  const updateCostProductLinksMutation = useMutation(api.costs.updateCostProductLinks);
 
   const [showModal, setShowModal] = useState(false);
   const [editingCost, setEditingCost] = useState<Cost | null>(null);
   const [formData, setFormData] = useState(emptyCost);
 
-  const openAddModal = () => {
+  const openAddModal = (category: CostCategory = 'other') => {
     setEditingCost(null);
     setFormData({
       ...emptyCost,
+      category,
       linkedProductIds: products.map((p) => p.productId),
     });
     setShowModal(true);
   };
 
   const openEditModal = (cost: Cost) => {
+    const costLinks = links.filter((l) => l.costId === cost.costId && l.isLinked);
+
     setEditingCost(cost);
     setFormData({
       description: cost.description,
       amount: cost.amount,
       currency: cost.currency,
       allocationMethod: cost.allocationMethod,
+      volumetricDivisor: cost.volumetricDivisor || DEFAULT_VOLUMETRIC_DIVISOR,
+      category: cost.category || 'other',
+      supplier: cost.supplier || '',
+      shipmentId: cost.shipmentId || '',
       notes: cost.notes || '',
-      linkedProductIds: products.map((p) => p.productId),
+      linkedProductIds:
+        costLinks.length > 0
+          ? costLinks.map((l) => l.productId)
+          : products.map((p) => p.productId),
+      weights: Object.fromEntries(
+        costLinks.map((l) => [l.productId, l.weight ?? 0])
+      ),
     });
     setShowModal(true);
   };
@@ -116,6 +198,40 @@ export default function CostsTab({
     }));
   };
 
+  const isManual = MANUAL_ALLOCATION_METHODS.includes(formData.allocationMethod);
+  const isChargeable = formData.allocationMethod === 'משקל לחיוב';
+  const totalWeight = formData.linkedProductIds.reduce(
+    (sum, id) => sum + (formData.weights[id] || 0),
+    0
+  );
+  const weightsError = validateAllocationWeights(
+    formData.allocationMethod,
+    formData.linkedProductIds.map((id) => formData.weights[id] || 0)
+  );
+
+  // Mirrors the server: a shipment's cost covers what is on it, and no
+  // linked products means the cost applies to all of them
+  const shipmentProducts = formData.shipmentId
+    ? getShipmentProducts(formData.shipmentId, products, shipmentAllocations)
+    : [];
+  const allocatedProducts = getCostAllocationProducts(
+    formData.shipmentId || undefined,
+    formData.linkedProductIds,
+    products,
+    shipmentAllocations
+  );
+  const previewProducts = products.filter((p) =>
+    allocatedProducts.some((a) => a.productId === p.productId)
+  );
+  const previewShares = allocateCost(
+    formData,
+    toILS(formData.amount, formData.currency, rates),
+    allocatedProducts,
+    formData.weights,
+    rates,
+    allocationDecimals
+  );
+
   const handleSubmit = async () => {
     try {
       if (editingCost) {
@@ -125,28 +241,30 @@ export default function CostsTab({
           amount: formData.amount,
           currency: formData.currency,
           allocationMethod: formData.allocationMethod,
+          volumetricDivisor: isChargeable ? formData.volumetricDivisor : undefined,
+          category: formData.category,
+          supplier: formData.supplier,
+          shipmentId: formData.shipmentId,
           notes: formData.notes || undefined,
-        });
-
-        await updateCostProductLinksMutation({
-          costId: editingCost.costId,
           linkedProductIds: formData.linkedProductIds,
+          weights: isManual ? formData.weights : undefined,
         });
 
         showToast('עלות עודכנה בהצלחה', 'success');
       } else {
-        const costId = await addCostMutation({
+        await addCostMutation({
           orderId,
           description: formData.description,
           amount: formData.amount,
           currency: formData.currency,
           allocationMethod: formData.allocationMethod,
+          volumetricDivisor: isChargeable ? formData.volumetricDivisor : undefined,
+          category: formData.category,
+          supplier: formData.supplier || undefined,
+          shipmentId: formData.shipmentId || undefined,
           notes: formData.notes || undefined,
-        });
-
-        await updateCostProductLinksMutation({
-          costId,
           linkedProductIds: formData.linkedProductIds,
+          weights: isManual ? formData.weights : undefined,
         });
 
         showToast('עלות נוספה בהצלחה', 'success');
@@ -175,12 +293,33 @@ export default function CostsTab({
     <div>
       <div className="flex justify-between items-center mb-4">
         <h3 className="text-lg font-semibold text-gray-900">עלויות נוספות</h3>
-        <Button size="sm" onClick={openAddModal}>
+        <Button size="sm" onClick={() => openAddModal()}>
           <PlusIcon className="w-4 h-4" />
           הוסף עלות
         </Button>
       </div>
 
+      {missingExpectedCosts.length > 0 && (
+        <div className="flex items-start gap-2 mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+          <ExclamationTriangleIcon className="w-5 h-5 flex-shrink-0" />
+          <div>
+            <p>לפי תנאי {incoterm} חסרות עלויות צפויות - עלות הנחיתה אינה מלאה:</p>
+            <div className="flex flex-wrap gap-2 mt-2">
+              {missingExpectedCosts.map((category) => (
+                <button
+                  key={category}
+                  onClick={() => openAddModal(category)}
+                  className="flex items-center gap-1 px-2 py-1 bg-white border border-amber-300 rounded hover:bg-amber-100"
+                >
+                  <PlusIcon className="w-3 h-3" />
+                  {getCostCategoryLabel(category)}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       {costs.length === 0 ? (
         <p className="text-gray-500 text-center py-8">אין עלויות נוספות</p>
       ) : (
@@ -192,6 +331,8 @@ export default function CostsTab({
                 <th className="text-right py-3 px-4 font-medium text-gray-600">סכום</th>
                 <th className="text-right py-3 px-4 font-medium text-gray-600">מטבע</th>
                 <th className="text-right py-3 px-4 font-medium text-gray-600">סכום ₪</th>
+                <th className="text-right py-3 px-4 font-medium text-gray-600">שולם / יתרה ₪</th>
+                <th className="text-right py-3 px-4 font-medium text-gray-600">קטגוריה</th>
                 <th className="text-right py-3 px-4 font-medium text-gray-600">שיטת חלוקה</th>
                 <th className="text-right py-3 px-4 font-medium text-gray-600">מוצרים</th>
                 <th className="text-right py-3 px-4 font-medium text-gray-600">הערות</th>
@@ -201,10 +342,30 @@ export default function CostsTab({
             <tbody>
               {costs.map((cost) => (
                 <tr key={cost.costId} className="border-b hover:bg-gray-50">
-                  <td className="py-3 px-4 font-medium">{cost.description}</td>
+                  <td className="py-3 px-4 font-medium">
+                    {cost.description}
+                    {cost.shipmentId && (
+                      <span className="block text-xs font-normal text-gray-500">
+                        {shipments.find((s) => s.shipmentId === cost.shipmentId)?.name}
+                      </span>
+                    )}
+                  </td>
                   <td className="py-3 px-4">{cost.amount}</td>
                   <td className="py-3 px-4">{cost.currency}</td>
                   <td className="py-3 px-4">{formatCurrency(cost.amountILS || 0)}</td>
+                  <td className="py-3 px-4">
+                    <span className="text-green-600">{formatCurrency(cost.paidILS || 0)}</span>
+                    <span
+                      className={`block text-xs ${
+                        (cost.balanceILS || 0) > 0.01 ? 'text-amber-600' : 'text-gray-400'
+                      }`}
+                    >
+                      יתרה {formatCurrency(cost.balanceILS || 0)}
+                    </span>
+                  </td>
+                  <td className="py-3 px-4">
+                    {getCostCategoryLabel(cost.category || 'other')}
+                  </td>
                   <td className="py-3 px-4">{cost.allocationMethod}</td>
                   <td className="py-3 px-4">
                     {cost.linkedProductCount || products.length}/{products.length}
@@ -264,10 +425,10 @@ export default function CostsTab({
             <Select
               id="currency"
               label="מטבע"
-              options={CURRENCIES}
+              options={getRateCurrencyOptions(rates)}
               value={formData.currency}
               onChange={(e) =>
-                setFormData({ ...formData, currency: e.target.value as 'USD' | 'CNY' | 'ILS' })
+                setFormData({ ...formData, currency: e.target.value })
               }
             />
             <Select
@@ -284,12 +445,68 @@ export default function CostsTab({
             />
           </div>
 
-          <Input
-            id="notes"
-            label="הערות"
-            value={formData.notes}
-            onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
-          />
+          <div className="grid grid-cols-3 gap-4">
+            <Select
+              id="category"
+              label="קטגוריה"
+              options={COST_CATEGORIES}
+              value={formData.category}
+              onChange={(e) =>
+                setFormData({ ...formData, category: e.target.value as CostCategory })
+              }
+            />
+            <Input
+              id="supplier"
+              label="ספק / נותן שירות"
+              value={formData.supplier}
+              onChange={(e) => setFormData({ ...formData, supplier: e.target.value })}
+              placeholder="משלח, עמיל מכס..."
+            />
+            <Input
+              id="notes"
+              label="הערות"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            />
+          </div>
+
+          {shipments.length > 0 && (
+            <div>
+              <Select
+                id="shipmentId"
+                label="משלוח"
+                options={[
+                  { value: '', label: 'כל ההזמנה' },
+                  ...shipments.map((s) => ({ value: s.shipmentId, label: s.name })),
+                ]}
+                value={formData.shipmentId}
+                onChange={(e) => setFormData({ ...formData, shipmentId: e.target.value })}
+              />
+              {formData.shipmentId && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {shipmentProducts.length > 0
+                    ? 'העלות תחולק רק על היחידות שבמשלוח'
+                    : 'לא שויכו מוצרים למשלוח - העלות תחולק על כל ההזמנה'}
+                </p>
+              )}
+            </div>
+          )}
+
+          {isChargeable && (
+            <Input
+              id="volumetricDivisor"
+              label="מחלק נפחי (סמ״ק לק״ג)"
+              type="number"
+              step="1"
+              value={formData.volumetricDivisor}
+              onChange={(e) =>
+                setFormData({
+                  ...formData,
+                  volumetricDivisor: parseFloat(e.target.value) || DEFAULT_VOLUMETRIC_DIVISOR,
+                })
+              }
+            />
+          )}
 
           {/* Product Selection */}
           <div>
@@ -311,20 +528,108 @@ export default function CostsTab({
                       onChange={() => toggleProduct(product.productId)}
                       className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                     />
-                    <span className="text-sm">
+                    <span className="text-sm flex-1">
                       {product.name} ({product.supplier || 'ללא ספק'})
                     </span>
+                    {isChargeable && (
+                      <span className="text-xs text-gray-500">
+                        {formatNumber(getChargeableWeight(product, formData.volumetricDivisor), 1)} KG לחיוב
+                      </span>
+                    )}
+                    {isManual && formData.linkedProductIds.includes(product.productId) && (
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={formData.weights[product.productId] ?? 0}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            weights: {
+                              ...formData.weights,
+                              [product.productId]: parseFloat(e.target.value) || 0,
+                            },
+                          })
+                        }
+                        className="w-24 px-2 py-1 border border-gray-300 rounded text-sm"
+                      />
+                    )}
                   </label>
                 ))
               )}
             </div>
+            {isManual && (
+              <p className={`text-xs mt-1 ${weightsError ? 'text-red-600' : 'text-gray-500'}`}>
+                {formData.allocationMethod === 'אחוזים'
+                  ? `סה״כ ${totalWeight}% מתוך 100%`
+                  : `סה״כ משקלות: ${totalWeight}`}
+              </p>
+            )}
           </div>
 
+          {/* Allocation Preview */}
+          {formData.amount > 0 && previewProducts.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                תצוגה מקדימה של החלוקה
+              </label>
+              <div className="border rounded-lg max-h-48 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b bg-gray-50">
+                      <th className="text-right py-2 px-3 font-medium text-gray-600">מוצר</th>
+                      <th className="text-right py-2 px-3 font-medium text-gray-600">חלק ₪</th>
+                      <th className="text-right py-2 px-3 font-medium text-gray-600">עלות/יח נוכחית</th>
+                      <th className="text-right py-2 px-3 font-medium text-gray-600">עלות/יח חדשה</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {previewProducts.map((product) => {
+                      const share = previewShares[product.productId] || 0;
+                      const previousShare = editingCost
+                        ? product.costBreakdown.find((c) => c.costId === editingCost.costId)
+                            ?.shareILS || 0
+                        : 0;
+                      const newFinalCost = product.finalCostILS - previousShare + share;
+
+                      return (
+                        <tr key={product.productId} className="border-b last:border-0">
+                          <td className="py-2 px-3">{product.name}</td>
+                          <td className="py-2 px-3">{formatCurrency(share)}</td>
+                          <td className="py-2 px-3 text-gray-500">
+                            {product.quantity > 0
+                              ? formatCurrency(product.finalCostILS / product.quantity)
+                              : '-'}
+                          </td>
+                          <td className="py-2 px-3 font-medium">
+                            {product.quantity > 0
+                              ? formatCurrency(newFinalCost / product.quantity)
+                              : '-'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {editingCost && (
+            <div className="border-t pt-4">
+              <AttachmentsSection
+                orderId={orderId}
+                entityType="cost"
+                entityId={editingCost.costId}
+              />
+            </div>
+          )}
+
           <div className="flex justify-end gap-3 pt-4">
             <Button variant="secondary" onClick={() => setShowModal(false)}>
               ביטול
             </Button>
-            <Button onClick={handleSubmit} disabled={!formData.description}>
+            <Button onClick={handleSubmit} disabled={!formData.description || !!weightsError}>
               {editingCost ? 'עדכן' : 'הוסף'}
             </Button>
           </div>
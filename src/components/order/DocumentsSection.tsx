@@ -0,0 +1,109 @@
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import { formatDate } from '@/lib/utils';
+import Button from '@/components/ui/Button';
+import { useToast } from '@/components/ui/Toast';
+import { DocumentPlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+interface DocumentsSectionProps {
+  orderId: string;
+  // Suppliers with products in the order
+  suppliers: { supplierId?: string; supplier: string }[];
+}
+
+export default function DocumentsSection({ orderId, suppliers }: DocumentsSectionProps) {
+  const router = useRouter();
+  const { showToast } = useToast();
+  const documents = useQuery(api.documents.getOrderDocuments, { orderId }) ?? [];
+  const generatePurchaseOrderMutation = useMutation(api.documents.generatePurchaseOrder);
+  const deleteDocumentMutation = useMutation(api.documents.deleteDocument);
+
+  const handleGenerate = async (supplier: { supplierId?: string; supplier: string }) => {
+    try {
+      const documentId = await generatePurchaseOrderMutation({
+        orderId,
+        supplierId: supplier.supplierId,
+        supplier: supplier.supplier,
+      });
+      showToast('הזמנת רכש נוצרה', 'success');
+      router.push(`/orders/${orderId}/documents/${documentId}`);
+    } catch (error) {
+      console.error('Error generating purchase order:', error);
+      showToast('שגיאה ביצירת הזמנת רכש', 'error');
+    }
+  };
+
+  const handleDelete = async (documentId: string) => {
+    if (!confirm('האם למחוק את גרסת המסמך?')) return;
+
+    try {
+      await deleteDocumentMutation({ documentId });
+      showToast('המסמך נמחק', 'success');
+    } catch (error) {
+      console.error('Error deleting document:', error);
+      showToast('שגיאה במחיקת המסמך', 'error');
+    }
+  };
+
+  if (suppliers.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">הזמנות רכש לספקים</h3>
+      <div className="space-y-3">
+        {suppliers.map((supplier) => {
+          const versions = documents.filter((d) =>
+            supplier.supplierId
+              ? d.supplierId === supplier.supplierId
+              : !d.supplierId && d.supplier === supplier.supplier
+          );
+
+          return (
+            <div
+              key={supplier.supplierId || supplier.supplier || '-'}
+              className="flex items-start justify-between gap-4 p-3 border border-gray-200 rounded-lg"
+            >
+              <div className="flex-1">
+                <p className="font-medium text-gray-900">{supplier.supplier || 'ללא ספק'}</p>
+                {versions.length === 0 ? (
+                  <p className="text-sm text-gray-500">טרם נוצרה הזמנת רכש</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2 mt-1">
+                    {versions.map((document) => (
+                      <span
+                        key={document.documentId}
+                        className="flex items-center gap-1 text-xs bg-gray-100 rounded px-2 py-1"
+                      >
+                        <Link
+                          href={`/orders/${orderId}/documents/${document.documentId}`}
+                          className="text-blue-600 hover:underline"
+                        >
+                          גרסה {document.version} · {formatDate(document.createdDate)}
+                        </Link>
+                        <button
+                          onClick={() => handleDelete(document.documentId)}
+                          className="text-gray-400 hover:text-red-500"
+                          title="מחק"
+                        >
+                          <TrashIcon className="w-3.5 h-3.5" />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <Button size="sm" variant="secondary" onClick={() => handleGenerate(supplier)}>
+                <DocumentPlusIcon className="w-4 h-4" />
+                {versions.length === 0 ? 'צור הזמנת רכש' : 'גרסה חדשה'}
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -3,12 +3,19 @@
 import { useState, useMemo } from 'react';
 import { useMutation } from 'convex/react';
 import { api } from '../../../convex/_generated/api';
-import { formatCurrency, formatDate } from '@/lib/utils';
+import { formatCurrency, formatNumber, formatDate } from '@/lib/utils';
 import Button from '@/components/ui/Button';
 import Modal from '@/components/ui/Modal';
+import AttachmentsSection from '@/components/order/AttachmentsSection';
 import Input from '@/components/ui/Input';
 import Select from '@/components/ui/Select';
 import { useToast } from '@/components/ui/Toast';
+import { getRateCurrencyOptions } from '@/lib/currencies';
+import {
+  daysBetween,
+  isPaymentOverdue,
+  validatePaymentLinkAmounts,
+} from '../../../convex/helpers';
 import {
   PlusIcon,
   PencilIcon,
@@ -22,12 +29,16 @@ interface Payment {
   orderId: string;
   date: string;
   amount: number;
-  currency: 'USD' | 'CNY' | 'ILS';
+  currency: string;
   payee?: string;
   description?: string;
   reference?: string;
   amountILS?: number;
+  appliedRate?: number;
+  actualAmountILS?: number;
+  fxGainLossILS?: number;
   status: 'pending' | 'approved';
+  dueDate?: string;
 }
 
 interface Product {
@@ -43,11 +54,13 @@ interface Cost {
 interface PaymentProductLink {
   paymentId: string;
   productId: string;
+  amount?: number;
 }
 
 interface PaymentCostLink {
   paymentId: string;
   costId: string;
+  amount?: number;
 }
 
 interface PaymentsTabProps {
@@ -57,26 +70,23 @@ interface PaymentsTabProps {
   costs: Cost[];
   paymentProductLinks: PaymentProductLink[];
   paymentCostLinks: PaymentCostLink[];
+  rates: Record<string, number>;
 }
 
-const CURRENCIES = [
-  { value: 'USD', label: 'USD ($)' },
-  { value: 'CNY', label: 'CNY (¥)' },
-  { value: 'ILS', label: 'ILS (₪)' },
-];
-
-type Currency = 'USD' | 'CNY' | 'ILS';
-
 interface PaymentFormData {
   date: string;
   amount: number;
-  currency: Currency;
+  currency: string;
   payee: string;
   description: string;
   reference: string;
   linkedProductIds: string[];
   linkedCostIds: string[];
+  // Amount per linked product or cost; left out when the whole payment is split by value
+  linkAmounts: Record<string, number>;
   status: 'pending' | 'approved';
+  appliedRate: number;
+  dueDate: string;
 }
 
 const emptyPayment: PaymentFormData = {
@@ -88,9 +98,17 @@ const emptyPayment: PaymentFormData = {
   reference: '',
   linkedProductIds: [],
   linkedCostIds: [],
+  linkAmounts: {},
   status: 'approved',
+  appliedRate: 0,
+  dueDate: '',
 };
 
+// Payments without a due date go last
+function compareDueDates(a?: string, b?: string) {
+  return (a || '9999').localeCompare(b || '9999');
+}
+
 export default function PaymentsTab({
   orderId,
   payments,
@@ -98,28 +116,45 @@ export default function PaymentsTab({
   costs,
   paymentProductLinks,
   paymentCostLinks,
+  rates,
 }: PaymentsTabProps) {
   const { showToast } = useToast();
   const addPaymentMutation = useMutation(api.payments.addPayment);
   const updatePaymentMutation = useMutation(api.payments.updatePayment);
-  const updatePaymentLinksMutation = useMutation(api.payments.updatePaymentLinks);
   const deletePaymentMutation = useMutation(api.payments.deletePayment);
   const approvePaymentMutation = useMutation(api.payments.approvePayment);
   const dismissPaymentMutation = useMutation(api.payments.dismissPayment);
+  const applyOrderPaymentRatesMutation = useMutation(api.rates.applyOrderPaymentRates);
 
   const [showModal, setShowModal] = useState(false);
   const [editingPayment, setEditingPayment] = useState<Payment | null>(null);
   const [formData, setFormData] = useState(emptyPayment);
+  // Pending payment being approved, with the day it was paid
+  const [approving, setApproving] = useState<{ paymentId: string; paidDate: string } | null>(
+    null
+  );
 
-  // Split payments into pending and approved
+  const today = new Date().toISOString().split('T')[0];
+
+  // Split payments into pending and approved; pending ones in due-date order
   const pendingPayments = useMemo(
-    () => payments.filter((p) => p.status === 'pending'),
+    () =>
+      payments
+        .filter((p) => p.status === 'pending')
+        .sort((a, b) => compareDueDates(a.dueDate, b.dueDate)),
     [payments]
   );
+  const overduePayments = useMemo(
+    () => pendingPayments.filter((p) => isPaymentOverdue(p, today)),
+    [pendingPayments, today]
+  );
   const approvedPayments = useMemo(
     () => payments.filter((p) => p.status === 'approved'),
     [payments]
   );
+  const unratedPaymentCount = approvedPayments.filter(
+    (p) => p.currency !== 'ILS' && p.appliedRate === undefined
+  ).length;
 
   // Get linked products/costs for a payment
   const getLinkedProductIds = (paymentId: string) =>
@@ -128,6 +163,21 @@ export default function PaymentsTab({
   const getLinkedCostIds = (paymentId: string) =>
     paymentCostLinks.filter((l) => l.paymentId === paymentId).map((l) => l.costId);
 
+  const getLinkAmounts = (paymentId: string) => {
+    const amounts: Record<string, number> = {};
+    for (const link of paymentProductLinks) {
+      if (link.paymentId === paymentId && link.amount !== undefined) {
+        amounts[link.productId] = link.amount;
+      }
+    }
+    for (const link of paymentCostLinks) {
+      if (link.paymentId === paymentId && link.amount !== undefined) {
+        amounts[link.costId] = link.amount;
+      }
+    }
+    return amounts;
+  };
+
   // Get linked names for display
   const getLinkedNames = (paymentId: string) => {
     const productIds = getLinkedProductIds(paymentId);
@@ -164,17 +214,24 @@ export default function PaymentsTab({
       reference: payment.reference || '',
       linkedProductIds: getLinkedProductIds(payment.paymentId),
       linkedCostIds: getLinkedCostIds(payment.paymentId),
+      linkAmounts: getLinkAmounts(payment.paymentId),
       status: payment.status,
+      appliedRate: payment.appliedRate || 0,
+      dueDate: payment.dueDate || '',
     });
     setShowModal(true);
   };
 
+  const withoutLinkAmount = (amounts: Record<string, number>, id: string) =>
+    Object.fromEntries(Object.entries(amounts).filter(([key]) => key !== id));
+
   const toggleProduct = (productId: string) => {
     setFormData((prev) => ({
       ...prev,
       linkedProductIds: prev.linkedProductIds.includes(productId)
         ? prev.linkedProductIds.filter((id) => id !== productId)
         : [...prev.linkedProductIds, productId],
+      linkAmounts: withoutLinkAmount(prev.linkAmounts, productId),
     }));
   };
 
@@ -184,9 +241,28 @@ export default function PaymentsTab({
       linkedCostIds: prev.linkedCostIds.includes(costId)
         ? prev.linkedCostIds.filter((id) => id !== costId)
         : [...prev.linkedCostIds, costId],
+      linkAmounts: withoutLinkAmount(prev.linkAmounts, costId),
     }));
   };
 
+  const setLinkAmount = (id: string, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      linkAmounts:
+        value === ''
+          ? withoutLinkAmount(prev.linkAmounts, id)
+          : { ...prev.linkAmounts, [id]: parseFloat(value) || 0 },
+    }));
+  };
+
+  const linkedIds = [...formData.linkedProductIds, ...formData.linkedCostIds];
+  const linkAmountsTotal = linkedIds.reduce((sum, id) => sum + (formData.linkAmounts[id] || 0), 0);
+  const hasLinkAmounts = linkedIds.some((id) => id in formData.linkAmounts);
+  const linkAmountsError = validatePaymentLinkAmounts(
+    formData.amount,
+    linkedIds.map((id) => formData.linkAmounts[id])
+  );
+
   const handleSubmit = async () => {
     try {
       if (editingPayment) {
@@ -199,12 +275,15 @@ export default function PaymentsTab({
           description: formData.description || undefined,
           reference: formData.reference || undefined,
           status: formData.status,
-        });
-
-        await updatePaymentLinksMutation({
-          paymentId: editingPayment.paymentId,
+          // Only an edited rate is sent, so a new date picks up its own rate
+          appliedRate:
+            formData.appliedRate && formData.appliedRate !== editingPayment.appliedRate
+              ? formData.appliedRate
+              : undefined,
+          dueDate: formData.dueDate,
           linkedProductIds: formData.linkedProductIds,
           linkedCostIds: formData.linkedCostIds,
+          linkAmounts: hasLinkAmounts ? formData.linkAmounts : undefined,
         });
 
         showToast('תשלום עודכן בהצלחה', 'success');
@@ -218,8 +297,11 @@ export default function PaymentsTab({
           description: formData.description || undefined,
           reference: formData.reference || undefined,
           status: formData.status,
+          appliedRate: formData.appliedRate || undefined,
+          dueDate: formData.dueDate || undefined,
           linkedProductIds: formData.linkedProductIds,
           linkedCostIds: formData.linkedCostIds,
+          linkAmounts: hasLinkAmounts ? formData.linkAmounts : undefined,
         });
         showToast('תשלום נוסף בהצלחה', 'success');
       }
@@ -243,10 +325,13 @@ export default function PaymentsTab({
     }
   };
 
-  const handleApprove = async (paymentId: string) => {
+  const handleApprove = async () => {
+    if (!approving) return;
+
     try {
-      await approvePaymentMutation({ paymentId });
+      await approvePaymentMutation(approving);
       showToast('תשלום אושר', 'success');
+      setApproving(null);
     } catch (error) {
       console.error('Error approving payment:', error);
       showToast('שגיאה באישור תשלום', 'error');
@@ -265,6 +350,16 @@ export default function PaymentsTab({
     }
   };
 
+  const handleApplyRates = async () => {
+    try {
+      await applyOrderPaymentRatesMutation({ orderId });
+      showToast('שערי יום התשלום מתעדכנים', 'success');
+    } catch (error) {
+      console.error('Error applying payment rates:', error);
+      showToast('שגיאה בעדכון שערים', 'error');
+    }
+  };
+
   const PaymentTable = ({
     paymentsList,
     isPending,
@@ -277,75 +372,121 @@ export default function PaymentsTab({
         <thead>
           <tr className={`border-b ${isPending ? 'bg-amber-50' : 'bg-gray-50'}`}>
             <th className="text-right py-3 px-4 font-medium text-gray-600">תאריך</th>
+            {isPending && (
+              <th className="text-right py-3 px-4 font-medium text-gray-600">מועד תשלום</th>
+            )}
             <th className="text-right py-3 px-4 font-medium text-gray-600">נמען</th>
             <th className="text-right py-3 px-4 font-medium text-gray-600">תיאור</th>
             <th className="text-right py-3 px-4 font-medium text-gray-600">סכום</th>
             <th className="text-right py-3 px-4 font-medium text-gray-600">מטבע</th>
             <th className="text-right py-3 px-4 font-medium text-gray-600">סכום ₪</th>
+            {!isPending && (
+              <>
+                <th className="text-right py-3 px-4 font-medium text-gray-600">שער בפועל</th>
+                <th className="text-right py-3 px-4 font-medium text-gray-600">הפרש שער ₪</th>
+              </>
+            )}
             <th className="text-right py-3 px-4 font-medium text-gray-600">אסמכתא</th>
             <th className="text-right py-3 px-4 font-medium text-gray-600">קישור</th>
             <th className="text-right py-3 px-4 font-medium text-gray-600">פעולות</th>
           </tr>
         </thead>
         <tbody>
-          {paymentsList.map((payment) => (
-            <tr
-              key={payment.paymentId}
-              className={`border-b hover:bg-gray-50 cursor-pointer ${
-                isPending ? 'bg-amber-50/50 border-r-4 border-r-amber-400' : ''
-              }`}
-              onClick={() => openEditModal(payment)}
-            >
-              <td className="py-3 px-4">{formatDate(payment.date)}</td>
-              <td className="py-3 px-4 font-medium">{payment.payee || '-'}</td>
-              <td className="py-3 px-4">{payment.description || '-'}</td>
-              <td className="py-3 px-4">{payment.amount}</td>
-              <td className="py-3 px-4">{payment.currency}</td>
-              <td className="py-3 px-4 font-semibold text-green-600">
-                {formatCurrency(payment.amountILS || 0)}
-              </td>
-              <td className="py-3 px-4 text-gray-500">{payment.reference || '-'}</td>
-              <td className="py-3 px-4">
-                <span className="text-xs bg-gray-100 px-2 py-1 rounded max-w-[150px] truncate block">
-                  {getLinkedNames(payment.paymentId)}
-                </span>
-              </td>
-              <td className="py-3 px-4" onClick={(e) => e.stopPropagation()}>
-                <div className="flex gap-1">
-                  {isPending && (
-                    <>
-                      <button
-                        onClick={() => handleApprove(payment.paymentId)}
-                        className="p-1.5 text-green-600 hover:bg-green-50 rounded"
-                        title="אשר תשלום"
-                      >
-                        <CheckCircleIcon className="w-4 h-4" />
-                      </button>
-                      <button
-                        onClick={() => handleDismiss(payment.paymentId)}
-                        className="p-1.5 text-amber-600 hover:bg-amber-50 rounded"
-                        title="בטל תשלום ממתין"
-                      >
-                        <XMarkIcon className="w-4 h-4" />
-                      </button>
-                    </>
-                  )}
-                  <button
-                    onClick={() => openEditModal(payment)}
-                    className="p-1.5 text-gray-500 hover:bg-gray-100 rounded"
-                  >
-                    <PencilIcon className="w-4 h-4" />
-                  </button>
-                  <button
-                    onClick={() => handleDelete(payment.paymentId)}
-                    className="p-1.5 text-red-500 hover:bg-red-50 rounded"
-                  >
-                    <TrashIcon className="w-4 h-4" />
-                  </button>
-                </div>
-              </td>
-            </tr>
-          ))}
+          {paymentsList.map((payment) => {
+            const overdue = isPaymentOverdue(payment, today);
+            return (
+              <tr
+                key={payment.paymentId}
+                className={`border-b hover:bg-gray-50 cursor-pointer ${
+                  overdue
+                    ? 'bg-red-50/60 border-r-4 border-r-red-500'
+                    : isPending
+                    ? 'bg-amber-50/50 border-r-4 border-r-amber-400'
+                    : ''
+                }`}
+                onClick={() => openEditModal(payment)}
+              >
+                <td className="py-3 px-4">{formatDate(payment.date)}</td>
+                {isPending && (
+                  <td className="py-3 px-4">
+                    {payment.dueDate ? formatDate(payment.dueDate) : '-'}
+                    {overdue && payment.dueDate && (
+                      <span className="block text-xs text-red-600 font-medium">
+                        באיחור {daysBetween(payment.dueDate, today)} ימים
+                      </span>
+                    )}
+                  </td>
+                )}
+                <td className="py-3 px-4 font-medium">{payment.payee || '-'}</td>
+                <td className="py-3 px-4">{payment.description || '-'}</td>
+                <td className="py-3 px-4">{payment.amount}</td>
+                <td className="py-3 px-4">{payment.currency}</td>
+                <td className="py-3 px-4 font-semibold text-green-600">
+                  {formatCurrency(payment.amountILS || 0)}
+                </td>
+                {!isPending && (
+                  <>
+                    <td className="py-3 px-4 text-gray-600">
+                      {payment.currency === 'ILS'
+                        ? '-'
+                        : payment.appliedRate !== undefined
+                        ? formatNumber(payment.appliedRate, 4)
+                        : 'ממתין'}
+                    </td>
+                    <td
+                      className={`py-3 px-4 ${
+                        (payment.fxGainLossILS || 0) >= 0 ? 'text-green-600' : 'text-red-600'
+                      }`}
+                    >
+                      {payment.fxGainLossILS ? formatCurrency(payment.fxGainLossILS) : '-'}
+                    </td>
+                  </>
+                )}
+                <td className="py-3 px-4 text-gray-500">{payment.reference || '-'}</td>
+                <td className="py-3 px-4">
+                  <span className="text-xs bg-gray-100 px-2 py-1 rounded max-w-[150px] truncate block">
+                    {getLinkedNames(payment.paymentId)}
+                  </span>
+                </td>
+                <td className="py-3 px-4" onClick={(e) => e.stopPropagation()}>
+                  <div className="flex gap-1">
+                    {isPending && (
+                      <>
+                        <button
+                          onClick={() =>
+                            setApproving({ paymentId: payment.paymentId, paidDate: payment.date })
+                          }
+                          className="p-1.5 text-green-600 hover:bg-green-50 rounded"
+                          title="אשר תשלום"
+                        >
+                          <CheckCircleIcon className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDismiss(payment.paymentId)}
+                          className="p-1.5 text-amber-600 hover:bg-amber-50 rounded"
+                          title="בטל תשלום ממתין"
+                        >
+                          <XMarkIcon className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                    <button
+                      onClick={() => openEditModal(payment)}
+                      className="p-1.5 text-gray-500 hover:bg-gray-100 rounded"
+                    >
+                      <PencilIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(payment.paymentId)}
+                      className="p-1.5 text-red-500 hover:bg-red-50 rounded"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
         </tbody>
       </table>
     </div>
@@ -369,6 +510,11 @@ export default function PaymentsTab({
             <h4 className="text-sm font-medium text-amber-700">
               תשלומים ממתינים ({pendingPayments.length})
             </h4>
+            {overduePayments.length > 0 && (
+              <span className="text-xs bg-red-100 text-red-700 px-2 py-0.5 rounded-full">
+                {overduePayments.length} באיחור
+              </span>
+            )}
           </div>
           <div className="border border-amber-200 rounded-lg overflow-hidden">
             <PaymentTable paymentsList={pendingPayments} isPending={true} />
@@ -376,6 +522,15 @@ export default function PaymentsTab({
         </div>
       )}
 
+      {unratedPaymentCount > 0 && (
+        <div className="flex items-center justify-between mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-700">
+          <span>{unratedPaymentCount} תשלומים מאושרים ללא שער מיום התשלום</span>
+          <Button size="sm" variant="secondary" onClick={handleApplyRates}>
+            עדכן שערים היסטוריים
+          </Button>
+        </div>
+      )}
+
       {/* Approved Payments Section */}
       {approvedPayments.length > 0 ? (
         <div>
@@ -437,10 +592,10 @@ export default function PaymentsTab({
             <Select
               id="currency"
               label="מטבע"
-              options={CURRENCIES}
+              options={getRateCurrencyOptions(rates)}
               value={formData.currency}
               onChange={(e) =>
-                setFormData({ ...formData, currency: e.target.value as 'USD' | 'CNY' | 'ILS' })
+                setFormData({ ...formData, currency: e.target.value })
               }
             />
             <Input
@@ -460,6 +615,29 @@ export default function PaymentsTab({
             placeholder="מקדמה, יתרה, וכו'"
           />
 
+          {formData.status === 'pending' && (
+            <Input
+              id="dueDate"
+              label="מועד תשלום"
+              type="date"
+              value={formData.dueDate}
+              onChange={(e) => setFormData({ ...formData, dueDate: e.target.value })}
+            />
+          )}
+
+          {formData.status === 'approved' && formData.currency !== 'ILS' && (
+            <Input
+              id="appliedRate"
+              label="שער בפועל (ריק = שער בנק ישראל ליום התשלום)"
+              type="number"
+              step="0.0001"
+              value={formData.appliedRate || ''}
+              onChange={(e) =>
+                setFormData({ ...formData, appliedRate: parseFloat(e.target.value) || 0 })
+              }
+            />
+          )}
+
           {/* Status Selection */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">סטטוס</label>
@@ -495,18 +673,28 @@ export default function PaymentsTab({
               </label>
               <div className="border rounded-lg p-3 max-h-32 overflow-y-auto space-y-2">
                 {products.map((product) => (
-                  <label
-                    key={product.productId}
-                    className="flex items-center gap-2 cursor-pointer"
-                  >
-                    <input
-                      type="checkbox"
-                      checked={formData.linkedProductIds.includes(product.productId)}
-                      onChange={() => toggleProduct(product.productId)}
-                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                    />
-                    <span className="text-sm">{product.name}</span>
-                  </label>
+                  <div key={product.productId} className="flex items-center gap-2">
+                    <label className="flex flex-1 items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={formData.linkedProductIds.includes(product.productId)}
+                        onChange={() => toggleProduct(product.productId)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="text-sm">{product.name}</span>
+                    </label>
+                    {formData.linkedProductIds.includes(product.productId) && (
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={formData.linkAmounts[product.productId] ?? ''}
+                        onChange={(e) => setLinkAmount(product.productId, e.target.value)}
+                        className="w-28 px-2 py-1 border border-gray-300 rounded text-sm"
+                        placeholder="סכום"
+                      />
+                    )}
+                  </div>
                 ))}
               </div>
             </div>
@@ -520,30 +708,86 @@ export default function PaymentsTab({
               </label>
               <div className="border rounded-lg p-3 max-h-32 overflow-y-auto space-y-2">
                 {costs.map((cost) => (
-                  <label key={cost.costId} className="flex items-center gap-2 cursor-pointer">
-                    <input
-                      type="checkbox"
-                      checked={formData.linkedCostIds.includes(cost.costId)}
-                      onChange={() => toggleCost(cost.costId)}
-                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                    />
-                    <span className="text-sm">{cost.description}</span>
-                  </label>
+                  <div key={cost.costId} className="flex items-center gap-2">
+                    <label className="flex flex-1 items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={formData.linkedCostIds.includes(cost.costId)}
+                        onChange={() => toggleCost(cost.costId)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="text-sm">{cost.description}</span>
+                    </label>
+                    {formData.linkedCostIds.includes(cost.costId) && (
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={formData.linkAmounts[cost.costId] ?? ''}
+                        onChange={(e) => setLinkAmount(cost.costId, e.target.value)}
+                        className="w-28 px-2 py-1 border border-gray-300 rounded text-sm"
+                        placeholder="סכום"
+                      />
+                    )}
+                  </div>
                 ))}
               </div>
             </div>
           )}
 
+          {linkedIds.length > 0 && (
+            <p className={`text-sm ${linkAmountsError ? 'text-red-600' : 'text-gray-500'}`}>
+              {hasLinkAmounts
+                ? `שויכו ${formatNumber(linkAmountsTotal)} מתוך ${formatNumber(formData.amount)} ${formData.currency}`
+                : 'ללא סכומים, התשלום יתחלק בין הפריטים לפי ערכם'}
+              {linkAmountsError && hasLinkAmounts && ' - יש להזין סכום לכל פריט כך שהסכום הכולל יהיה שווה לתשלום'}
+            </p>
+          )}
+
+          {editingPayment && (
+            <div className="border-t pt-4">
+              <AttachmentsSection
+                orderId={orderId}
+                entityType="payment"
+                entityId={editingPayment.paymentId}
+              />
+            </div>
+          )}
+
           <div className="flex justify-end gap-3 pt-4">
             <Button variant="secondary" onClick={() => setShowModal(false)}>
               ביטול
             </Button>
-            <Button onClick={handleSubmit} disabled={!formData.amount}>
+            <Button onClick={handleSubmit} disabled={!formData.amount || !!linkAmountsError}>
               {editingPayment ? 'עדכן' : 'הוסף'}
             </Button>
           </div>
         </div>
       </Modal>
+
+      {/* The paid date decides the historical rate the payment is valued at */}
+      <Modal isOpen={!!approving} onClose={() => setApproving(null)} title="אישור תשלום">
+        {approving && (
+          <div className="space-y-4">
+            <Input
+              id="paidDate"
+              label="תאריך תשלום"
+              type="date"
+              value={approving.paidDate}
+              onChange={(e) => setApproving({ ...approving, paidDate: e.target.value })}
+            />
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button variant="secondary" onClick={() => setApproving(null)}>
+                ביטול
+              </Button>
+              <Button onClick={handleApprove} disabled={!approving.paidDate}>
+                אשר
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
     </div>
   );
 }
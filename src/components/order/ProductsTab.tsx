@@ -4,11 +4,26 @@ import { useState, Fragment, useMemo } from 'react';
 import { useMutation, useQuery } from 'convex/react';
 import { api } from '../../../convex/_generated/api';
 import { formatCurrency, formatNumber, formatDate } from '@/lib/utils';
+import { CURRENCIES } from '@/lib/currencies';
 import Button from '@/components/ui/Button';
 import Modal from '@/components/ui/Modal';
 import Input from '@/components/ui/Input';
 import Select from '@/components/ui/Select';
 import { useToast } from '@/components/ui/Toast';
+import SupplierScorecard from '@/components/suppliers/SupplierScorecard';
+import PriceHistoryModal from '@/components/catalog/PriceHistoryModal';
+import AttachmentsSection from '@/components/order/AttachmentsSection';
+import AddMilestoneModal, { NewMilestone } from '@/components/order/AddMilestoneModal';
+import {
+  INCH_TO_CM,
+  LB_TO_KG,
+  calculateCartonTotals,
+  hasCartonDimensions,
+  hasCartonWeight,
+  getMilestoneName,
+  roundTo,
+  sortMilestones,
+} from '../../../convex/helpers';
 import {
   PlusIcon,
   MinusIcon,
@@ -16,6 +31,7 @@ import {
   TrashIcon,
   CheckCircleIcon,
   ClockIcon,
+  ArrowTrendingUpIcon,
 } from '@heroicons/react/24/outline';
 
 interface Product {
@@ -23,6 +39,8 @@ interface Product {
   orderId: string;
   name: string;
   supplier?: string;
+  supplierId?: string;
+  catalogId?: string;
   quantity: number;
   pricePerUnit: number;
   priceTotal: number;
@@ -31,12 +49,36 @@ interface Product {
   cbmTotal: number;
   kgPerUnit: number;
   kgTotal: number;
+  cartonCount?: number;
+  unitsPerCarton?: number;
+  cartonLengthCm?: number;
+  cartonWidthCm?: number;
+  cartonHeightCm?: number;
+  cartonGrossKg?: number;
+  cartonNetKg?: number;
+  hsCode?: string;
   orderDate?: string;
   notes?: string;
   priceILS?: number;
   additionalCostsILS?: number;
+  costBreakdown?: { costId: string; description: string; shareILS: number }[];
+  dutyRate?: number;
+  purchaseTaxRate?: number;
+  dutyILS?: number;
+  purchaseTaxILS?: number;
+  vatILS?: number;
   finalCostILS?: number;
   finalCostPerUnitILS?: number;
+  paidILS?: number;
+  pendingILS?: number;
+  balanceILS?: number;
+  previousPrice?: {
+    orderId: string;
+    pricePerUnit: number;
+    currency: string;
+    changePct: number;
+    flagged: boolean;
+  } | null;
 }
 
 interface Milestone {
@@ -49,50 +91,29 @@ interface Milestone {
   notes?: string;
 }
 
+interface MilestoneType {
+  typeId: string;
+  name: string;
+  level: 'order' | 'product';
+  defaultOrder: number;
+  color: string;
+}
+
 interface ProductsTabProps {
   orderId: string;
   products: Product[];
   productMilestones: Milestone[];
+  milestoneTypes: MilestoneType[];
+  rates: Record<string, number>;
 }
 
-const CURRENCIES = [
-  { value: 'USD', label: 'USD ($)', symbol: '$' },
-  { value: 'EUR', label: 'EUR (€)', symbol: '€' },
-  { value: 'GBP', label: 'GBP (£)', symbol: '£' },
-  { value: 'JPY', label: 'JPY (¥)', symbol: '¥' },
-  { value: 'CNY', label: 'CNY (¥)', symbol: '¥' },
-  { value: 'ILS', label: 'ILS (₪)', symbol: '₪' },
-  { value: 'AUD', label: 'AUD (A$)', symbol: 'A$' },
-  { value: 'CAD', label: 'CAD (C$)', symbol: 'C$' },
-  { value: 'CHF', label: 'CHF (Fr)', symbol: 'Fr' },
-  { value: 'HKD', label: 'HKD (HK$)', symbol: 'HK$' },
-  { value: 'SGD', label: 'SGD (S$)', symbol: 'S$' },
-  { value: 'SEK', label: 'SEK (kr)', symbol: 'kr' },
-  { value: 'KRW', label: 'KRW (₩)', symbol: '₩' },
-  { value: 'NOK', label: 'NOK (kr)', symbol: 'kr' },
-  { value: 'NZD', label: 'NZD (NZ$)', symbol: 'NZ$' },
-  { value: 'INR', label: 'INR (₹)', symbol: '₹' },
-  { value: 'MXN', label: 'MXN ($)', symbol: '$' },
-  { value: 'TWD', label: 'TWD (NT$)', symbol: 'NT$' },
-  { value: 'ZAR', label: 'ZAR (R)', symbol: 'R' },
-  { value: 'BRL', label: 'BRL (R$)', symbol: 'R$' },
-  { value: 'DKK', label: 'DKK (kr)', symbol: 'kr' },
-  { value: 'PLN', label: 'PLN (zł)', symbol: 'zł' },
-  { value: 'THB', label: 'THB (฿)', symbol: '฿' },
-  { value: 'IDR', label: 'IDR (Rp)', symbol: 'Rp' },
-  { value: 'HUF', label: 'HUF (Ft)', symbol: 'Ft' },
-  { value: 'CZK', label: 'CZK (Kč)', symbol: 'Kč' },
-  { value: 'AED', label: 'AED (د.إ)', symbol: 'د.إ' },
-  { value: 'TRY', label: 'TRY (₺)', symbol: '₺' },
-  { value: 'SAR', label: 'SAR (﷼)', symbol: '﷼' },
-  { value: 'PHP', label: 'PHP (₱)', symbol: '₱' },
-  { value: 'MYR', label: 'MYR (RM)', symbol: 'RM' },
-  { value: 'RUB', label: 'RUB (₽)', symbol: '₽' },
-];
-
 interface ProductFormData {
   name: string;
   supplier: string;
+  // Set when a supplier record is picked; a typed name is matched on save
+  supplierId: string;
+  // Catalog item the line was added from
+  catalogId: string;
   quantity: number;
   pricePerUnit: number;
   priceTotal: number;
@@ -101,13 +122,34 @@ interface ProductFormData {
   cbmTotal: number;
   kgPerUnit: number;
   kgTotal: number;
+  cartonCount: number;
+  // Carton packing, in the units picked below
+  unitsPerCarton: number;
+  cartonLength: number;
+  cartonWidth: number;
+  cartonHeight: number;
+  cartonGrossWeight: number;
+  cartonNetWeight: number;
+  dimensionUnit: 'cm' | 'in';
+  weightUnit: 'kg' | 'lb';
+  hsCode: string;
   orderDate: string;
   notes: string;
 }
 
+type CartonField =
+  | 'unitsPerCarton'
+  | 'cartonLength'
+  | 'cartonWidth'
+  | 'cartonHeight'
+  | 'cartonGrossWeight'
+  | 'cartonNetWeight';
+
 const getEmptyProduct = (): ProductFormData => ({
   name: '',
   supplier: '',
+  supplierId: '',
+  catalogId: '',
   quantity: 0,
   pricePerUnit: 0,
   priceTotal: 0,
@@ -116,14 +158,46 @@ const getEmptyProduct = (): ProductFormData => ({
   cbmTotal: 0,
   kgPerUnit: 0,
   kgTotal: 0,
+  cartonCount: 0,
+  unitsPerCarton: 0,
+  cartonLength: 0,
+  cartonWidth: 0,
+  cartonHeight: 0,
+  cartonGrossWeight: 0,
+  cartonNetWeight: 0,
+  dimensionUnit: 'cm',
+  weightUnit: 'kg',
+  hsCode: '',
   orderDate: new Date().toISOString().split('T')[0],
   notes: '',
 });
 
+// Carton packing in cm and kg, whatever units it was entered in
+const getCartonPacking = (data: ProductFormData) => {
+  const toCm = data.dimensionUnit === 'in' ? INCH_TO_CM : 1;
+  const toKg = data.weightUnit === 'lb' ? LB_TO_KG : 1;
+  return {
+    unitsPerCarton: data.unitsPerCarton,
+    cartonLengthCm: data.cartonLength * toCm,
+    cartonWidthCm: data.cartonWidth * toCm,
+    cartonHeightCm: data.cartonHeight * toCm,
+    cartonGrossKg: data.cartonGrossWeight * toKg,
+    cartonNetKg: data.cartonNetWeight * toKg,
+  };
+};
+
+// Cartons, CBM and KG follow the carton packing once it is filled in
+const withCartonTotals = (data: ProductFormData): ProductFormData => ({
+  ...data,
+  ...calculateCartonTotals(data.quantity, getCartonPacking(data)),
+});
+
 export default function ProductsTab({
   orderId,
   products,
   productMilestones,
+  milestoneTypes,
+  rates,
 }: ProductsTabProps) {
   const { showToast } = useToast();
   const addProductMutation = useMutation(api.products.addProduct);
@@ -132,30 +206,33 @@ export default function ProductsTab({
   const addProductMilestoneMutation = useMutation(api.milestones.addProductMilestone);
   const updateProductMilestoneMutation = useMutation(api.milestones.updateProductMilestone);
   const deleteProductMilestoneMutation = useMutation(api.milestones.deleteProductMilestone);
+  const setExchangeRateMutation = useMutation(api.orders.setExchangeRate);
 
   const [showModal, setShowModal] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [formData, setFormData] = useState(getEmptyProduct);
   const [expandedProductId, setExpandedProductId] = useState<string | null>(null);
-  const [showMilestoneModal, setShowMilestoneModal] = useState(false);
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
   const [milestoneProductId, setMilestoneProductId] = useState<string | null>(null);
-  const [newMilestone, setNewMilestone] = useState({
-    description: '',
-    targetDate: '',
-    notes: '',
-  });
   const [showSupplierSuggestions, setShowSupplierSuggestions] = useState(false);
   const [showCurrencySuggestions, setShowCurrencySuggestions] = useState(false);
   const [currencySearch, setCurrencySearch] = useState('');
+  const [newRate, setNewRate] = useState(0);
+
+  // The order has no rate yet for the selected currency
+  const needsRate = !(formData.currency in rates);
 
-  // Get all unique suppliers from all products across all orders
-  const allSuppliers = useQuery(api.products.getAllSuppliers) ?? [];
+  // Supplier records for autocomplete
+  const allSuppliers = useQuery(api.suppliers.getAllSuppliers) ?? [];
+
+  // Catalog items to add order lines from
+  const catalogItems = useQuery(api.catalog.getCatalogItems) ?? [];
 
   // Filter suppliers based on current input (max 3)
   const filteredSuppliers = useMemo(() => {
     if (!formData.supplier.trim()) return allSuppliers.slice(0, 3);
     return allSuppliers
-      .filter((s) => s.toLowerCase().includes(formData.supplier.toLowerCase()))
+      .filter((s) => s.name.toLowerCase().includes(formData.supplier.toLowerCase()))
       .slice(0, 3);
   }, [formData.supplier, allSuppliers]);
 
@@ -169,6 +246,20 @@ export default function ProductsTab({
     );
   }, [currencySearch]);
 
+  const selectCurrency = (currency: string) => {
+    setFormData({ ...formData, currency });
+    setCurrencySearch('');
+    setShowCurrencySuggestions(false);
+
+    if (!(currency in rates)) {
+      setNewRate(0);
+      fetch('/api/rates')
+        .then((res) => res.json())
+        .then((data) => setNewRate(data.rates?.[currency] || 0))
+        .catch(console.error);
+    }
+  };
+
   const getMilestonesForProduct = (productId: string) => {
     return productMilestones.filter((m) => m.productId === productId);
   };
@@ -185,6 +276,8 @@ export default function ProductsTab({
     setFormData({
       name: product.name,
       supplier: product.supplier || '',
+      supplierId: product.supplierId || '',
+      catalogId: product.catalogId || '',
       quantity: product.quantity,
       pricePerUnit: product.pricePerUnit,
       priceTotal: product.priceTotal,
@@ -193,6 +286,16 @@ export default function ProductsTab({
       cbmTotal: product.cbmTotal,
       kgPerUnit: product.kgPerUnit,
       kgTotal: product.kgTotal,
+      cartonCount: product.cartonCount || 0,
+      unitsPerCarton: product.unitsPerCarton || 0,
+      cartonLength: product.cartonLengthCm || 0,
+      cartonWidth: product.cartonWidthCm || 0,
+      cartonHeight: product.cartonHeightCm || 0,
+      cartonGrossWeight: product.cartonGrossKg || 0,
+      cartonNetWeight: product.cartonNetKg || 0,
+      dimensionUnit: 'cm',
+      weightUnit: 'kg',
+      hsCode: product.hsCode || '',
       orderDate: product.orderDate || new Date().toISOString().split('T')[0],
       notes: product.notes || '',
     });
@@ -200,16 +303,85 @@ export default function ProductsTab({
     setShowModal(true);
   };
 
+  // Fills the line from a catalog item, with the price from its latest order
+  const handleCatalogSelect = (catalogId: string) => {
+    const item = catalogItems.find((i) => i.catalogId === catalogId);
+    if (!item) {
+      setFormData({ ...formData, catalogId: '' });
+      return;
+    }
+
+    const pricePerUnit = item.lastPrice?.pricePerUnit ?? formData.pricePerUnit;
+    setFormData(
+      withCartonTotals({
+        ...formData,
+        catalogId: item.catalogId,
+        name: item.name,
+        supplier: item.supplier || formData.supplier,
+        supplierId: item.supplierId || (item.supplier ? '' : formData.supplierId),
+        pricePerUnit,
+        priceTotal: formData.quantity * pricePerUnit,
+        currency: item.lastPrice?.currency ?? formData.currency,
+        cbmPerUnit: item.cbmPerUnit,
+        cbmTotal: formData.quantity * item.cbmPerUnit,
+        kgPerUnit: item.kgPerUnit,
+        kgTotal: formData.quantity * item.kgPerUnit,
+        hsCode: item.hsCode || formData.hsCode,
+      })
+    );
+  };
+
   const handleQuantityChange = (qty: number) => {
-    setFormData({
-      ...formData,
-      quantity: qty,
-      priceTotal: qty * formData.pricePerUnit,
-      cbmTotal: qty * formData.cbmPerUnit,
-      kgTotal: qty * formData.kgPerUnit,
-    });
+    setFormData(
+      withCartonTotals({
+        ...formData,
+        quantity: qty,
+        priceTotal: qty * formData.pricePerUnit,
+        cbmTotal: qty * formData.cbmPerUnit,
+        kgTotal: qty * formData.kgPerUnit,
+      })
+    );
+  };
+
+  const handleCartonChange = (field: CartonField, value: number) => {
+    setFormData(withCartonTotals({ ...formData, [field]: value }));
+  };
+
+  // Converts the entered carton dimensions to the newly picked unit
+  const handleDimensionUnitChange = (unit: 'cm' | 'in') => {
+    if (unit === formData.dimensionUnit) return;
+    const factor = unit === 'in' ? 1 / INCH_TO_CM : INCH_TO_CM;
+    setFormData(
+      withCartonTotals({
+        ...formData,
+        dimensionUnit: unit,
+        cartonLength: roundTo(formData.cartonLength * factor, 2),
+        cartonWidth: roundTo(formData.cartonWidth * factor, 2),
+        cartonHeight: roundTo(formData.cartonHeight * factor, 2),
+      })
+    );
+  };
+
+  const handleWeightUnitChange = (unit: 'kg' | 'lb') => {
+    if (unit === formData.weightUnit) return;
+    const factor = unit === 'lb' ? 1 / LB_TO_KG : LB_TO_KG;
+    setFormData(
+      withCartonTotals({
+        ...formData,
+        weightUnit: unit,
+        cartonGrossWeight: roundTo(formData.cartonGrossWeight * factor, 2),
+        cartonNetWeight: roundTo(formData.cartonNetWeight * factor, 2),
+      })
+    );
   };
 
+  // Cartons are derived rather than typed once the units per carton are known,
+  // volume once the carton is measured and weight once it is weighed
+  const hasCartonPacking = formData.unitsPerCarton > 0;
+  const cartonPacking = getCartonPacking(formData);
+  const derivesVolume = hasCartonPacking && hasCartonDimensions(cartonPacking);
+  const derivesWeight = hasCartonPacking && hasCartonWeight(cartonPacking);
+
   const handlePricePerUnitChange = (price: number) => {
     setFormData({
       ...formData,
@@ -259,12 +431,27 @@ export default function ProductsTab({
   };
 
   const handleSubmit = async () => {
+    if (needsRate && !newRate) {
+      showToast(`חסר שער חליפין עבור ${formData.currency}`, 'error');
+      return;
+    }
+
     try {
+      if (needsRate) {
+        await setExchangeRateMutation({
+          orderId,
+          currency: formData.currency,
+          rate: newRate,
+        });
+      }
+
       if (editingProduct) {
         await updateProductMutation({
           productId: editingProduct.productId,
           name: formData.name,
           supplier: formData.supplier || undefined,
+          supplierId: formData.supplierId || undefined,
+          catalogId: formData.catalogId,
           quantity: formData.quantity,
           pricePerUnit: formData.pricePerUnit,
           priceTotal: formData.priceTotal,
@@ -273,6 +460,9 @@ export default function ProductsTab({
           cbmTotal: formData.cbmTotal,
           kgPerUnit: formData.kgPerUnit,
           kgTotal: formData.kgTotal,
+          cartonCount: formData.cartonCount,
+          ...getCartonPacking(formData),
+          hsCode: formData.hsCode || undefined,
           orderDate: formData.orderDate || undefined,
           notes: formData.notes || undefined,
         });
@@ -282,6 +472,8 @@ export default function ProductsTab({
           orderId,
           name: formData.name,
           supplier: formData.supplier || undefined,
+          supplierId: formData.supplierId || undefined,
+          catalogId: formData.catalogId || undefined,
           quantity: formData.quantity,
           pricePerUnit: formData.pricePerUnit,
           priceTotal: formData.priceTotal,
@@ -290,6 +482,9 @@ export default function ProductsTab({
           cbmTotal: formData.cbmTotal,
           kgPerUnit: formData.kgPerUnit,
           kgTotal: formData.kgTotal,
+          cartonCount: formData.cartonCount || undefined,
+          ...getCartonPacking(formData),
+          hsCode: formData.hsCode || undefined,
           orderDate: formData.orderDate || undefined,
           notes: formData.notes || undefined,
         });
@@ -315,26 +510,21 @@ export default function ProductsTab({
     }
   };
 
-  const openMilestoneModal = (productId: string) => {
-    setMilestoneProductId(productId);
-    setNewMilestone({ description: '', targetDate: '', notes: '' });
-    setShowMilestoneModal(true);
-  };
+  const productMilestoneTypes = milestoneTypes.filter((t) => t.level === 'product');
 
-  const handleAddMilestone = async () => {
+  const handleAddMilestone = async (milestone: NewMilestone) => {
     if (!milestoneProductId) return;
 
     try {
       await addProductMilestoneMutation({
         productId: milestoneProductId,
-        milestoneTypeId: 'custom',
-        targetDate: newMilestone.targetDate || undefined,
-        status: newMilestone.description,
-        notes: newMilestone.notes || undefined,
+        milestoneTypeId: milestone.milestoneTypeId,
+        targetDate: milestone.targetDate || undefined,
+        notes: milestone.notes || undefined,
       });
 
       showToast('מיילסטון נוסף בהצלחה', 'success');
-      setShowMilestoneModal(false);
+      setMilestoneProductId(null);
     } catch (error) {
       console.error('Error adding milestone:', error);
       showToast('שגיאה בהוספת מיילסטון', 'error');
@@ -390,6 +580,7 @@ export default function ProductsTab({
                 <th className="text-right py-3 px-4 font-medium text-gray-600">מחיר/יח</th>
                 <th className="text-right py-3 px-4 font-medium text-gray-600">סה"כ</th>
                 <th className="text-right py-3 px-4 font-medium text-gray-600">עלות סופית ₪</th>
+                <th className="text-right py-3 px-4 font-medium text-gray-600">שולם / יתרה ₪</th>
                 <th className="text-right py-3 px-4 font-medium text-gray-600">פעולות</th>
               </tr>
             </thead>
@@ -415,13 +606,34 @@ export default function ProductsTab({
                           )}
                         </button>
                       </td>
-                      <td className="py-3 px-4 font-medium">{product.name}</td>
+                      <td className="py-3 px-4 font-medium">
+                        {product.name}
+                        {product.previousPrice?.flagged && (
+                          <span
+                            className="inline-flex items-center gap-0.5 mr-2 px-1.5 py-0.5 text-xs font-medium text-red-700 bg-red-100 rounded"
+                            title={`מחיר קודם: ${formatNumber(product.previousPrice.pricePerUnit)} ${product.previousPrice.currency}`}
+                          >
+                            <ArrowTrendingUpIcon className="w-3 h-3" />
+                            <span dir="ltr">+{formatNumber(product.previousPrice.changePct, 1)}%</span>
+                          </span>
+                        )}
+                      </td>
                       <td className="py-3 px-4">{product.quantity}</td>
                       <td className="py-3 px-4">{formatNumber(product.pricePerUnit)} {product.currency}</td>
                       <td className="py-3 px-4">{formatNumber(product.priceTotal)} {product.currency}</td>
                       <td className="py-3 px-4 font-semibold text-blue-600">
                         {formatCurrency(product.finalCostILS || 0)}
                       </td>
+                      <td className="py-3 px-4">
+                        <span className="text-green-600">{formatCurrency(product.paidILS || 0)}</span>
+                        <span
+                          className={`block text-xs ${
+                            (product.balanceILS || 0) > 0.01 ? 'text-amber-600' : 'text-gray-400'
+                          }`}
+                        >
+                          יתרה {formatCurrency(product.balanceILS || 0)}
+                        </span>
+                      </td>
                       <td className="py-3 px-4" onClick={(e) => e.stopPropagation()}>
                         <div className="flex gap-1">
                           <button
@@ -441,7 +653,7 @@ export default function ProductsTab({
                     </tr>
                     {isExpanded && (
                       <tr key={`${product.productId}-details`}>
-                        <td colSpan={7} className="bg-gray-50 px-6 py-4">
+                        <td colSpan={8} className="bg-gray-50 px-6 py-4">
                           {/* Product Details Section */}
                           <div className="grid grid-cols-2 gap-6 mb-6">
                             {/* Right Column - Basic Info */}
@@ -472,6 +684,43 @@ export default function ProductsTab({
                                   <span className="text-gray-500">KG סה"כ:</span>
                                   <span className="font-medium">{formatNumber(product.kgTotal, 1)}</span>
                                 </div>
+                                <div className="flex justify-between">
+                                  <span className="text-gray-500">קרטונים:</span>
+                                  <span className="font-medium">{product.cartonCount || '-'}</span>
+                                </div>
+                                {!!product.unitsPerCarton && (
+                                  <div className="flex justify-between">
+                                    <span className="text-gray-500">אריזה:</span>
+                                    <span className="font-medium">
+                                      {product.unitsPerCarton} יח׳ בקרטון
+                                      {' · '}
+                                      <span dir="ltr">
+                                        {formatNumber(product.cartonLengthCm || 0, 1)}×
+                                        {formatNumber(product.cartonWidthCm || 0, 1)}×
+                                        {formatNumber(product.cartonHeightCm || 0, 1)} cm
+                                      </span>
+                                      {' · '}
+                                      ברוטו {formatNumber(product.cartonGrossKg || 0, 1)} / נטו{' '}
+                                      {formatNumber(product.cartonNetKg || 0, 1)} ק״ג
+                                    </span>
+                                  </div>
+                                )}
+                                <div className="flex justify-between">
+                                  <span className="text-gray-500">קוד מכס (HS):</span>
+                                  <span className="font-medium" dir="ltr">{product.hsCode || '-'}</span>
+                                </div>
+                                <div className="flex justify-between">
+                                  <span className="text-gray-500">מחיר בהזמנה קודמת:</span>
+                                  <button
+                                    onClick={() => setHistoryProduct(product)}
+                                    className="font-medium text-blue-600 hover:underline"
+                                  >
+                                    {product.previousPrice
+                                      ? `${formatNumber(product.previousPrice.pricePerUnit)} ${product.previousPrice.currency}`
+                                      : '-'}
+                                    {' · '}היסטוריה
+                                  </button>
+                                </div>
                                 {product.notes && (
                                   <div className="flex justify-between border-t pt-2">
                                     <span className="text-gray-500">הערות:</span>
@@ -493,6 +742,20 @@ export default function ProductsTab({
                                   <span>עלויות נוספות:</span>
                                   <span className="font-medium">+ {formatCurrency(product.additionalCostsILS || 0)}</span>
                                 </div>
+                                {product.costBreakdown?.map((cost) => (
+                                  <div key={cost.costId} className="flex justify-between text-xs text-gray-500 pr-4">
+                                    <span>{cost.description}</span>
+                                    <span>{formatCurrency(cost.shareILS)}</span>
+                                  </div>
+                                ))}
+                                <div className="flex justify-between text-red-600">
+                                  <span>מכס ({formatNumber(product.dutyRate || 0, 1)}%):</span>
+                                  <span className="font-medium">+ {formatCurrency(product.dutyILS || 0)}</span>
+                                </div>
+                                <div className="flex justify-between text-red-600">
+                                  <span>מס קנייה ({formatNumber(product.purchaseTaxRate || 0, 1)}%):</span>
+                                  <span className="font-medium">+ {formatCurrency(product.purchaseTaxILS || 0)}</span>
+                                </div>
                                 <div className="flex justify-between border-t pt-2 font-semibold">
                                   <span className="text-gray-700">עלות סופית:</span>
                                   <span className="text-blue-600">{formatCurrency(product.finalCostILS || 0)}</span>
@@ -501,6 +764,22 @@ export default function ProductsTab({
                                   <span>עלות סופית ליחידה:</span>
                                   <span className="font-semibold">{formatCurrency(product.finalCostPerUnitILS || 0)}</span>
                                 </div>
+                                <div className="flex justify-between text-gray-500 border-t pt-2">
+                                  <span>מע״מ יבוא (מוחזר, לא בעלות):</span>
+                                  <span className="font-medium">{formatCurrency(product.vatILS || 0)}</span>
+                                </div>
+                                <div className="flex justify-between text-green-600 border-t pt-2">
+                                  <span>שולם לספק:</span>
+                                  <span className="font-medium">{formatCurrency(product.paidILS || 0)}</span>
+                                </div>
+                                <div className="flex justify-between text-amber-600">
+                                  <span>בתשלומים ממתינים:</span>
+                                  <span className="font-medium">{formatCurrency(product.pendingILS || 0)}</span>
+                                </div>
+                                <div className="flex justify-between font-semibold">
+                                  <span className="text-gray-700">יתרה לתשלום:</span>
+                                  <span>{formatCurrency(product.balanceILS || 0)}</span>
+                                </div>
                               </div>
                             </div>
                           </div>
@@ -513,7 +792,7 @@ export default function ProductsTab({
                                 size="sm"
                                 onClick={(e) => {
                                   e.stopPropagation();
-                                  openMilestoneModal(product.productId);
+                                  setMilestoneProductId(product.productId);
                                 }}
                               >
                                 <PlusIcon className="w-3 h-3" />
@@ -533,11 +812,7 @@ export default function ProductsTab({
 
                                 {/* Progress line */}
                                 {(() => {
-                                  const sorted = [...milestones].sort((a, b) => {
-                                    const dateA = a.targetDate || a.actualDate || '';
-                                    const dateB = b.targetDate || b.actualDate || '';
-                                    return dateA.localeCompare(dateB);
-                                  });
+                                  const sorted = sortMilestones(milestones, milestoneTypes);
                                   const today = new Date().toISOString().split('T')[0];
                                   let lastCompletedIndex = -1;
                                   let lastOverdueIndex = -1;
@@ -569,16 +844,14 @@ export default function ProductsTab({
 
                                 {/* Milestones */}
                                 <div className="relative flex justify-between">
-                                  {milestones
-                                    .sort((a, b) => {
-                                      const dateA = a.targetDate || a.actualDate || '';
-                                      const dateB = b.targetDate || b.actualDate || '';
-                                      return dateA.localeCompare(dateB);
-                                    })
+                                  {sortMilestones(milestones, milestoneTypes)
                                     .map((milestone, index, arr) => {
                                       const isCompleted = !!milestone.actualDate;
                                       const today = new Date().toISOString().split('T')[0];
                                       const isOverdue = !isCompleted && milestone.targetDate && milestone.targetDate < today;
+                                      const typeColor = milestoneTypes.find(
+                                        (t) => t.typeId === milestone.milestoneTypeId
+                                      )?.color;
 
                                       const getCircleClasses = () => {
                                         if (isCompleted) return 'bg-green-500 border-green-500 text-white';
@@ -595,6 +868,11 @@ export default function ProductsTab({
                                           {/* Circle */}
                                           <div
                                             className={`w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0 border-4 transition-all z-10 ${getCircleClasses()}`}
+                                            style={
+                                              !isCompleted && !isOverdue && typeColor
+                                                ? { borderColor: typeColor, color: typeColor }
+                                                : undefined
+                                            }
                                           >
                                             {isCompleted ? (
                                               <CheckCircleIcon className="w-6 h-6" />
@@ -612,7 +890,7 @@ export default function ProductsTab({
                                                 isCompleted ? 'text-green-700' : isOverdue ? 'text-red-600' : 'text-gray-600'
                                               }`}
                                             >
-                                              {milestone.status}
+                                              {getMilestoneName(milestone, milestoneTypes)}
                                             </p>
                                             <p className={`text-xs mt-0.5 ${isOverdue ? 'text-red-500 font-medium' : 'text-gray-400'}`}>
                                               {milestone.actualDate
@@ -658,6 +936,15 @@ export default function ProductsTab({
                             </div>
                             )}
                           </div>
+
+                          {/* Attachments Section */}
+                          <div className="bg-white rounded-lg p-4 border mt-6">
+                            <AttachmentsSection
+                              orderId={orderId}
+                              entityType="product"
+                              entityId={product.productId}
+                            />
+                          </div>
                         </td>
                       </tr>
                     )}
@@ -669,6 +956,10 @@ export default function ProductsTab({
         </div>
       )}
 
+      {historyProduct && (
+        <PriceHistoryModal item={historyProduct} onClose={() => setHistoryProduct(null)} />
+      )}
+
       {/* Product Modal */}
       <Modal
         isOpen={showModal}
@@ -677,6 +968,23 @@ export default function ProductsTab({
         size="xl"
       >
         <div className="space-y-4">
+          {/* Catalog item */}
+          {catalogItems.length > 0 && (
+            <Select
+              id="catalogItem"
+              label="הוסף מהקטלוג"
+              options={[
+                { value: '', label: 'ללא פריט קטלוג' },
+                ...catalogItems.map((item) => ({
+                  value: item.catalogId,
+                  label: `${item.sku} - ${item.name}`,
+                })),
+              ]}
+              value={formData.catalogId}
+              onChange={(e) => handleCatalogSelect(e.target.value)}
+            />
+          )}
+
           {/* Row 1: Basic Info - Name, Supplier */}
           <div className="grid grid-cols-2 gap-4">
             <Input
@@ -691,7 +999,9 @@ export default function ProductsTab({
                 id="supplier"
                 label="ספק"
                 value={formData.supplier}
-                onChange={(e) => setFormData({ ...formData, supplier: e.target.value })}
+                onChange={(e) =>
+                  setFormData({ ...formData, supplier: e.target.value, supplierId: '' })
+                }
                 onFocus={() => setShowSupplierSuggestions(true)}
                 onBlur={() => setTimeout(() => setShowSupplierSuggestions(false), 150)}
                 autoComplete="off"
@@ -700,20 +1010,30 @@ export default function ProductsTab({
                 <div className="absolute z-10 w-full mt-1 bg-white border border-gray-200 rounded-lg shadow-lg">
                   {filteredSuppliers.map((supplier) => (
                     <button
-                      key={supplier}
+                      key={supplier.supplierId}
                       type="button"
                       className="w-full px-3 py-2 text-right text-sm hover:bg-gray-100 first:rounded-t-lg last:rounded-b-lg"
                       onMouseDown={(e) => {
                         e.preventDefault();
-                        setFormData({ ...formData, supplier });
+                        setFormData({
+                          ...formData,
+                          supplier: supplier.name,
+                          supplierId: supplier.supplierId,
+                        });
                         setShowSupplierSuggestions(false);
                       }}
                     >
-                      {supplier}
+                      {supplier.name}
+                      {supplier.country && (
+                        <span className="text-gray-400 mr-2">{supplier.country}</span>
+                      )}
                     </button>
                   ))}
                 </div>
               )}
+              {formData.supplierId && (
+                <SupplierScorecard supplierId={formData.supplierId} compact />
+              )}
             </div>
           </div>
 
@@ -755,9 +1075,7 @@ export default function ProductsTab({
                       className="w-full px-3 py-2 text-right text-sm hover:bg-gray-100 first:rounded-t-lg last:rounded-b-lg"
                       onMouseDown={(e) => {
                         e.preventDefault();
-                        setFormData({ ...formData, currency: currency.value });
-                        setCurrencySearch('');
-                        setShowCurrencySuggestions(false);
+                        selectCurrency(currency.value);
                       }}
                     >
                       {currency.label}
@@ -790,10 +1108,114 @@ export default function ProductsTab({
             </div>
           </div>
 
+          {needsRate && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+              <p className="text-sm text-amber-700 mb-2">
+                להזמנה אין עדיין שער ל-{formData.currency}. השער יישמר בהזמנה.
+              </p>
+              <Input
+                id="newRate"
+                label={`שער ${formData.currency} (₪ ליחידה)`}
+                type="number"
+                step="0.0001"
+                value={newRate}
+                onChange={(e) => setNewRate(parseFloat(e.target.value) || 0)}
+              />
+            </div>
+          )}
+
+          {/* Carton packing */}
+          <div className="border border-gray-200 rounded-lg p-3 space-y-3">
+            <p className="text-sm font-medium text-gray-700">
+              אריזה בקרטונים
+              <span className="font-normal text-gray-500">
+                {' '}- כשממולא, הקרטונים, ה-CBM וה-KG מחושבים לפי קרטונים מלאים
+              </span>
+            </p>
+            <div className="grid grid-cols-4 gap-3">
+              <Input
+                id="unitsPerCarton"
+                label="יחידות בקרטון"
+                type="number"
+                min="0"
+                step="1"
+                value={formData.unitsPerCarton}
+                onChange={(e) => handleCartonChange('unitsPerCarton', parseInt(e.target.value) || 0)}
+              />
+              <Input
+                id="cartonLength"
+                label={`אורך (${formData.dimensionUnit})`}
+                type="number"
+                step="0.1"
+                value={formData.cartonLength}
+                onChange={(e) => handleCartonChange('cartonLength', parseFloat(e.target.value) || 0)}
+              />
+              <Input
+                id="cartonWidth"
+                label={`רוחב (${formData.dimensionUnit})`}
+                type="number"
+                step="0.1"
+                value={formData.cartonWidth}
+                onChange={(e) => handleCartonChange('cartonWidth', parseFloat(e.target.value) || 0)}
+              />
+              <Input
+                id="cartonHeight"
+                label={`גובה (${formData.dimensionUnit})`}
+                type="number"
+                step="0.1"
+                value={formData.cartonHeight}
+                onChange={(e) => handleCartonChange('cartonHeight', parseFloat(e.target.value) || 0)}
+              />
+            </div>
+            <div className="grid grid-cols-4 gap-3">
+              <Select
+                id="dimensionUnit"
+                label="יחידת מידה"
+                options={[
+                  { value: 'cm', label: 'סנטימטר (cm)' },
+                  { value: 'in', label: 'אינץ׳ (inch)' },
+                ]}
+                value={formData.dimensionUnit}
+                onChange={(e) => handleDimensionUnitChange(e.target.value as 'cm' | 'in')}
+              />
+              <Input
+                id="cartonGrossWeight"
+                label={`ברוטו לקרטון (${formData.weightUnit})`}
+                type="number"
+                step="0.1"
+                value={formData.cartonGrossWeight}
+                onChange={(e) =>
+                  handleCartonChange('cartonGrossWeight', parseFloat(e.target.value) || 0)
+                }
+              />
+              <Input
+                id="cartonNetWeight"
+                label={`נטו לקרטון (${formData.weightUnit})`}
+                type="number"
+                step="0.1"
+                value={formData.cartonNetWeight}
+                onChange={(e) =>
+                  handleCartonChange('cartonNetWeight', parseFloat(e.target.value) || 0)
+                }
+              />
+              <Select
+                id="weightUnit"
+                label="יחידת משקל"
+                options={[
+                  { value: 'kg', label: 'קילוגרם (kg)' },
+                  { value: 'lb', label: 'פאונד (lb)' },
+                ]}
+                value={formData.weightUnit}
+                onChange={(e) => handleWeightUnitChange(e.target.value as 'kg' | 'lb')}
+              />
+            </div>
+          </div>
+
           {/* CBM Row */}
           <div className="grid grid-cols-2 gap-4">
             <Input
               id="cbmPerUnit"
+              disabled={derivesVolume}
               label="CBM ליחידה"
               type="number"
               step="0.001"
@@ -802,6 +1224,7 @@ export default function ProductsTab({
             />
             <Input
               id="cbmTotal"
+              disabled={derivesVolume}
               label="CBM סה״כ"
               type="number"
               step="0.001"
@@ -814,6 +1237,7 @@ export default function ProductsTab({
           <div className="grid grid-cols-2 gap-4">
             <Input
               id="kgPerUnit"
+              disabled={derivesWeight}
               label="KG ליחידה"
               type="number"
               step="0.1"
@@ -822,6 +1246,7 @@ export default function ProductsTab({
             />
             <Input
               id="kgTotal"
+              disabled={derivesWeight}
               label="KG סה״כ"
               type="number"
               step="0.1"
@@ -830,8 +1255,28 @@ export default function ProductsTab({
             />
           </div>
 
-          {/* Date & Notes Row */}
-          <div className="grid grid-cols-2 gap-4">
+          {/* HS Code, Cartons & Date Row */}
+          <div className="grid grid-cols-3 gap-4">
+            <Input
+              id="hsCode"
+              label="קוד מכס (HS)"
+              dir="ltr"
+              value={formData.hsCode}
+              onChange={(e) => setFormData({ ...formData, hsCode: e.target.value })}
+              placeholder="8516.60.00"
+            />
+            <Input
+              id="cartonCount"
+              disabled={hasCartonPacking}
+              label="מספר קרטונים"
+              type="number"
+              min="0"
+              step="1"
+              value={formData.cartonCount}
+              onChange={(e) =>
+                setFormData({ ...formData, cartonCount: parseInt(e.target.value) || 0 })
+              }
+            />
             <Input
               id="orderDate"
               label="תאריך הזמנה"
@@ -839,14 +1284,15 @@ export default function ProductsTab({
               value={formData.orderDate}
               onChange={(e) => setFormData({ ...formData, orderDate: e.target.value })}
             />
-            <Input
-              id="notes"
-              label="הערות"
-              value={formData.notes}
-              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
-            />
           </div>
 
+          <Input
+            id="notes"
+            label="הערות"
+            value={formData.notes}
+            onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+          />
+
           <div className="flex justify-end gap-3 pt-4">
             <Button variant="secondary" onClick={() => setShowModal(false)}>
               ביטול
@@ -859,52 +1305,15 @@ export default function ProductsTab({
       </Modal>
 
       {/* Milestone Modal */}
-      <Modal
-        isOpen={showMilestoneModal}
-        onClose={() => setShowMilestoneModal(false)}
-        title="הוסף מיילסטון למוצר"
-      >
-        <div className="space-y-4">
-          <Input
-            id="milestone_description"
-            label="תיאור"
-            value={newMilestone.description}
-            onChange={(e) =>
-              setNewMilestone({ ...newMilestone, description: e.target.value })
-            }
-            placeholder="לדוגמה: יצא מסין, הגיע לנמל"
-            required
-          />
-
-          <Input
-            id="milestone_target_date"
-            label="תאריך יעד"
-            type="date"
-            value={newMilestone.targetDate}
-            onChange={(e) =>
-              setNewMilestone({ ...newMilestone, targetDate: e.target.value })
-            }
-          />
-
-          <Input
-            id="milestone_notes"
-            label="הערות"
-            value={newMilestone.notes}
-            onChange={(e) =>
-              setNewMilestone({ ...newMilestone, notes: e.target.value })
-            }
-          />
-
-          <div className="flex justify-end gap-3 pt-4">
-            <Button variant="secondary" onClick={() => setShowMilestoneModal(false)}>
-              ביטול
-            </Button>
-            <Button onClick={handleAddMilestone} disabled={!newMilestone.description}>
-              הוסף
-            </Button>
-          </div>
-        </div>
-      </Modal>
+      {milestoneProductId && (
+        <AddMilestoneModal
+          title="הוסף מיילסטון למוצר"
+          milestoneTypes={productMilestoneTypes}
+          usedTypeIds={getMilestonesForProduct(milestoneProductId).map((m) => m.milestoneTypeId)}
+          onAdd={handleAddMilestone}
+          onClose={() => setMilestoneProductId(null)}
+        />
+      )}
     </div>
   );
 }
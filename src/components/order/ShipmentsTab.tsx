@@ -0,0 +1,490 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import { formatCurrency, formatNumber, formatDate } from '@/lib/utils';
+import Button from '@/components/ui/Button';
+import Modal from '@/components/ui/Modal';
+import Input from '@/components/ui/Input';
+import Select from '@/components/ui/Select';
+import { useToast } from '@/components/ui/Toast';
+import {
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
+  TruckIcon,
+  ExclamationTriangleIcon,
+} from '@heroicons/react/24/outline';
+
+type ShipmentMode = 'sea' | 'air' | 'courier';
+
+interface Shipment {
+  shipmentId: string;
+  name: string;
+  mode: ShipmentMode;
+  containerNumber?: string;
+  blNumber?: string;
+  vessel?: string;
+  etd?: string;
+  eta?: string;
+  forwarder?: string;
+  notes?: string;
+}
+
+interface ShipmentAllocation {
+  shipmentId: string;
+  productId: string;
+  quantity: number;
+}
+
+interface ShipmentSummary {
+  shipmentId: string;
+  productCount: number;
+  quantity: number;
+  valueILS: number;
+  cbm: number;
+  kg: number;
+  costsILS: number;
+}
+
+interface Product {
+  productId: string;
+  name: string;
+  quantity: number;
+}
+
+interface ShipmentsTabProps {
+  orderId: string;
+  shipments: Shipment[];
+  shipmentAllocations: ShipmentAllocation[];
+  shipmentSummaries: ShipmentSummary[];
+  products: Product[];
+}
+
+const SHIPMENT_MODES: { value: ShipmentMode; label: string }[] = [
+  { value: 'sea', label: 'ים' },
+  { value: 'air', label: 'אוויר' },
+  { value: 'courier', label: 'שליחים' },
+];
+
+interface ShipmentFormData {
+  name: string;
+  mode: ShipmentMode;
+  containerNumber: string;
+  blNumber: string;
+  vessel: string;
+  etd: string;
+  eta: string;
+  forwarder: string;
+  notes: string;
+}
+
+const emptyShipment: ShipmentFormData = {
+  name: '',
+  mode: 'sea',
+  containerNumber: '',
+  blNumber: '',
+  vessel: '',
+  etd: '',
+  eta: '',
+  forwarder: '',
+  notes: '',
+};
+
+export default function ShipmentsTab({
+  orderId,
+  shipments,
+  shipmentAllocations,
+  shipmentSummaries,
+  products,
+}: ShipmentsTabProps) {
+  const { showToast } = useToast();
+  const addShipmentMutation = useMutation(api.shipments.addShipment);
+  const updateShipmentMutation = useMutation(api.shipments.updateShipment);
+  const deleteShipmentMutation = useMutation(api.shipments.deleteShipment);
+  const setShipmentAllocationMutation = useMutation(api.shipments.setShipmentAllocation);
+
+  const [showModal, setShowModal] = useState(false);
+  const [editingShipment, setEditingShipment] = useState<Shipment | null>(null);
+  const [formData, setFormData] = useState(emptyShipment);
+  // Quantities being typed, keyed by shipmentId:productId, saved on blur
+  const [draftQuantities, setDraftQuantities] = useState<Record<string, number>>({});
+
+  const getAllocated = (shipmentId: string, productId: string) =>
+    shipmentAllocations.find((a) => a.shipmentId === shipmentId && a.productId === productId)
+      ?.quantity ?? 0;
+
+  const getUnassigned = (product: Product) =>
+    product.quantity -
+    shipmentAllocations
+      .filter((a) => a.productId === product.productId)
+      .reduce((sum, a) => sum + a.quantity, 0);
+
+  const unassignedProducts = products.filter((p) => getUnassigned(p) > 0);
+
+  const openAddModal = () => {
+    setEditingShipment(null);
+    setFormData({ ...emptyShipment, name: `משלוח ${shipments.length + 1}` });
+    setShowModal(true);
+  };
+
+  const openEditModal = (shipment: Shipment) => {
+    setEditingShipment(shipment);
+    setFormData({
+      name: shipment.name,
+      mode: shipment.mode,
+      containerNumber: shipment.containerNumber || '',
+      blNumber: shipment.blNumber || '',
+      vessel: shipment.vessel || '',
+      etd: shipment.etd || '',
+      eta: shipment.eta || '',
+      forwarder: shipment.forwarder || '',
+      notes: shipment.notes || '',
+    });
+    setShowModal(true);
+  };
+
+  const handleSubmit = async () => {
+    try {
+      if (editingShipment) {
+        await updateShipmentMutation({
+          shipmentId: editingShipment.shipmentId,
+          ...formData,
+        });
+        showToast('משלוח עודכן בהצלחה', 'success');
+      } else {
+        await addShipmentMutation({
+          orderId,
+          name: formData.name,
+          mode: formData.mode,
+          containerNumber: formData.containerNumber || undefined,
+          blNumber: formData.blNumber || undefined,
+          vessel: formData.vessel || undefined,
+          etd: formData.etd || undefined,
+          eta: formData.eta || undefined,
+          forwarder: formData.forwarder || undefined,
+          notes: formData.notes || undefined,
+        });
+        showToast('משלוח נוסף בהצלחה', 'success');
+      }
+
+      setShowModal(false);
+    } catch (error) {
+      console.error('Error saving shipment:', error);
+      showToast('שגיאה בשמירת משלוח', 'error');
+    }
+  };
+
+  const handleDelete = async (shipmentId: string) => {
+    if (!confirm('האם למחוק את המשלוח? עלויות המשלוח יחולקו על כל ההזמנה')) return;
+
+    try {
+      await deleteShipmentMutation({ shipmentId });
+      showToast('משלוח נמחק', 'success');
+    } catch (error) {
+      console.error('Error deleting shipment:', error);
+      showToast('שגיאה במחיקת משלוח', 'error');
+    }
+  };
+
+  const saveQuantity = async (shipmentId: string, productId: string) => {
+    const key = `${shipmentId}:${productId}`;
+    const quantity = draftQuantities[key];
+    if (quantity === undefined) return;
+
+    const rest = { ...draftQuantities };
+    delete rest[key];
+    setDraftQuantities(rest);
+    if (quantity === getAllocated(shipmentId, productId)) return;
+
+    try {
+      await setShipmentAllocationMutation({ shipmentId, productId, quantity });
+    } catch (error) {
+      console.error('Error assigning product to shipment:', error);
+      showToast('הכמות חורגת מהיחידות שנותרו למשלוח', 'error');
+    }
+  };
+
+  // Everything not yet on another shipment
+  const assignRemaining = async (shipmentId: string) => {
+    try {
+      for (const product of products) {
+        const remaining = getUnassigned(product);
+        if (remaining <= 0) continue;
+        await setShipmentAllocationMutation({
+          shipmentId,
+          productId: product.productId,
+          quantity: getAllocated(shipmentId, product.productId) + remaining,
+        });
+      }
+      showToast('היתרה שויכה למשלוח', 'success');
+    } catch (error) {
+      console.error('Error assigning remaining products:', error);
+      showToast('שגיאה בשיוך מוצרים', 'error');
+    }
+  };
+
+  const modeLabel = (mode: ShipmentMode) =>
+    SHIPMENT_MODES.find((m) => m.value === mode)?.label ?? mode;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">משלוחים</h3>
+        <Button size="sm" onClick={openAddModal}>
+          <PlusIcon className="w-4 h-4" />
+          הוסף משלוח
+        </Button>
+      </div>
+
+      {shipments.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">
+          ההזמנה נשלחת כמשלוח אחד. הוסף משלוחים כדי לפצל אותה למכולות או למשלוחים חלקיים
+        </p>
+      ) : (
+        <>
+          {unassignedProducts.length > 0 && (
+            <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-700">
+              <ExclamationTriangleIcon className="w-5 h-5 flex-shrink-0" />
+              <p>
+                יחידות שלא שויכו למשלוח:{' '}
+                {unassignedProducts.map((p) => `${p.name} (${getUnassigned(p)})`).join(', ')}
+              </p>
+            </div>
+          )}
+
+          {shipments.map((shipment) => {
+            const summary = shipmentSummaries.find((s) => s.shipmentId === shipment.shipmentId);
+
+            return (
+              <div key={shipment.shipmentId} className="border border-gray-200 rounded-lg">
+                <div className="flex items-start justify-between gap-4 p-4 border-b bg-gray-50">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <TruckIcon className="w-5 h-5 text-gray-500" />
+                      <h4 className="font-semibold text-gray-900">{shipment.name}</h4>
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-700">
+                        {modeLabel(shipment.mode)}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-sm text-gray-600">
+                      {shipment.containerNumber && (
+                        <span>
+                          מכולה: <span dir="ltr">{shipment.containerNumber}</span>
+                        </span>
+                      )}
+                      {shipment.blNumber && (
+                        <span>
+                          B/L: <span dir="ltr">{shipment.blNumber}</span>
+                        </span>
+                      )}
+                      {shipment.vessel && <span>אונייה / טיסה: {shipment.vessel}</span>}
+                      {shipment.forwarder && <span>משלח: {shipment.forwarder}</span>}
+                      {shipment.etd && <span>ETD: {formatDate(shipment.etd)}</span>}
+                      {shipment.eta && <span>ETA: {formatDate(shipment.eta)}</span>}
+                    </div>
+                    {shipment.notes && (
+                      <p className="text-sm text-gray-500 mt-1">{shipment.notes}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => openEditModal(shipment)}
+                      className="p-1.5 text-gray-500 hover:bg-gray-100 rounded"
+                    >
+                      <PencilIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(shipment.shipmentId)}
+                      className="p-1.5 text-red-500 hover:bg-red-50 rounded"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {summary && (
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-4 p-4 text-sm border-b">
+                    <div>
+                      <p className="text-gray-500">יחידות</p>
+                      <p className="font-semibold">{formatNumber(summary.quantity, 0)}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">CBM</p>
+                      <p className="font-semibold">{formatNumber(summary.cbm, 3)}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">KG</p>
+                      <p className="font-semibold">{formatNumber(summary.kg, 1)}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">ערך סחורה</p>
+                      <p className="font-semibold">{formatCurrency(summary.valueILS)}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">עלויות המשלוח</p>
+                      <p className="font-semibold">{formatCurrency(summary.costsILS)}</p>
+                    </div>
+                  </div>
+                )}
+
+                <div className="p-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm font-medium text-gray-700">מוצרים במשלוח</p>
+                    {unassignedProducts.length > 0 && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => assignRemaining(shipment.shipmentId)}
+                      >
+                        שייך את כל היתרה
+                      </Button>
+                    )}
+                  </div>
+                  {products.length === 0 ? (
+                    <p className="text-sm text-gray-500">אין מוצרים בהזמנה</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b">
+                          <th className="text-right py-2 px-3 font-medium text-gray-600">מוצר</th>
+                          <th className="text-right py-2 px-3 font-medium text-gray-600">הוזמן</th>
+                          <th className="text-right py-2 px-3 font-medium text-gray-600">לא שויך</th>
+                          <th className="text-right py-2 px-3 font-medium text-gray-600 w-32">
+                            במשלוח זה
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {products.map((product) => {
+                          const key = `${shipment.shipmentId}:${product.productId}`;
+                          return (
+                            <tr key={product.productId} className="border-b last:border-0">
+                              <td className="py-2 px-3">{product.name}</td>
+                              <td className="py-2 px-3 text-gray-500">{product.quantity}</td>
+                              <td className="py-2 px-3 text-gray-500">{getUnassigned(product)}</td>
+                              <td className="py-1 px-3">
+                                <Input
+                                  id={`allocation-${key}`}
+                                  type="number"
+                                  min="0"
+                                  step="1"
+                                  value={
+                                    draftQuantities[key] ??
+                                    getAllocated(shipment.shipmentId, product.productId)
+                                  }
+                                  onChange={(e) =>
+                                    setDraftQuantities({
+                                      ...draftQuantities,
+                                      [key]: parseInt(e.target.value) || 0,
+                                    })
+                                  }
+                                  onBlur={() => saveQuantity(shipment.shipmentId, product.productId)}
+                                />
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </>
+      )}
+
+      {/* Shipment Modal */}
+      <Modal
+        isOpen={showModal}
+        onClose={() => setShowModal(false)}
+        title={editingShipment ? 'עריכת משלוח' : 'הוסף משלוח'}
+        size="lg"
+      >
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              id="shipmentName"
+              label="שם"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              required
+            />
+            <Select
+              id="shipmentMode"
+              label="אופן שילוח"
+              options={SHIPMENT_MODES}
+              value={formData.mode}
+              onChange={(e) => setFormData({ ...formData, mode: e.target.value as ShipmentMode })}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <Input
+              id="containerNumber"
+              label="מספר מכולה"
+              dir="ltr"
+              value={formData.containerNumber}
+              onChange={(e) => setFormData({ ...formData, containerNumber: e.target.value })}
+              placeholder="MSCU1234567"
+            />
+            <Input
+              id="blNumber"
+              label="B/L / AWB"
+              dir="ltr"
+              value={formData.blNumber}
+              onChange={(e) => setFormData({ ...formData, blNumber: e.target.value })}
+            />
+            <Input
+              id="vessel"
+              label="אונייה / טיסה"
+              value={formData.vessel}
+              onChange={(e) => setFormData({ ...formData, vessel: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <Input
+              id="etd"
+              label="ETD"
+              type="date"
+              value={formData.etd}
+              onChange={(e) => setFormData({ ...formData, etd: e.target.value })}
+            />
+            <Input
+              id="eta"
+              label="ETA"
+              type="date"
+              value={formData.eta}
+              onChange={(e) => setFormData({ ...formData, eta: e.target.value })}
+            />
+            <Input
+              id="forwarder"
+              label="משלח"
+              value={formData.forwarder}
+              onChange={(e) => setFormData({ ...formData, forwarder: e.target.value })}
+            />
+          </div>
+
+          <Input
+            id="shipmentNotes"
+            label="הערות"
+            value={formData.notes}
+            onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+          />
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button variant="secondary" onClick={() => setShowModal(false)}>
+              ביטול
+            </Button>
+            <Button onClick={handleSubmit} disabled={!formData.name.trim()}>
+              {editingShipment ? 'עדכן' : 'הוסף'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
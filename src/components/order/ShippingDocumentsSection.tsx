@@ -0,0 +1,83 @@
+'use client';
+
+import Link from 'next/link';
+import { useQuery } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import { exportShippingDocument } from '@/lib/exportUtils';
+import {
+  SHIPPING_DOCUMENT_TITLES,
+  getShippingDocumentFilename,
+  type ShippingDocumentKind,
+  type ShippingDocumentProduct,
+} from '@/lib/shippingDocuments';
+import Button from '@/components/ui/Button';
+import { PrinterIcon, TableCellsIcon } from '@heroicons/react/24/outline';
+
+interface ShippingDocumentsSectionProps {
+  order: { orderId: string; orderName: string; incoterm?: string };
+  products: ShippingDocumentProduct[];
+}
+
+const KINDS: ShippingDocumentKind[] = ['packing-list', 'commercial-invoice'];
+
+export default function ShippingDocumentsSection({ order, products }: ShippingDocumentsSectionProps) {
+  const settings = useQuery(api.settings.getSettings);
+
+  if (products.length === 0) return null;
+
+  const handleExport = (kind: ShippingDocumentKind) => {
+    if (!settings) return;
+    exportShippingDocument(
+      kind,
+      { ...order, company: settings.company },
+      products,
+      getShippingDocumentFilename(kind, order.orderName)
+    );
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">מסמכי משלוח</h3>
+      {settings && !settings.company.name && (
+        <p className="text-sm text-amber-600 mb-3">
+          לא הוגדרו פרטי חברה -{' '}
+          <Link href="/settings" className="underline">
+            הגדרות
+          </Link>
+        </p>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {KINDS.map((kind) => (
+          <div
+            key={kind}
+            className="flex items-center justify-between gap-4 p-3 border border-gray-200 rounded-lg"
+          >
+            <div>
+              <p className="font-medium text-gray-900">{SHIPPING_DOCUMENT_TITLES[kind].he}</p>
+              <p className="text-xs text-gray-500" dir="ltr">
+                {SHIPPING_DOCUMENT_TITLES[kind].en}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Link href={`/orders/${order.orderId}/shipping/${kind}`}>
+                <Button size="sm" variant="secondary">
+                  <PrinterIcon className="w-4 h-4" />
+                  PDF
+                </Button>
+              </Link>
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => handleExport(kind)}
+                disabled={!settings}
+              >
+                <TableCellsIcon className="w-4 h-4" />
+                Excel
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -4,11 +4,21 @@ import { useState } from 'react';
 import { useMutation } from 'convex/react';
 import { api } from '../../../convex/_generated/api';
 import { formatCurrency, formatNumber, formatDate } from '@/lib/utils';
-import { exportToCSV, exportToXLSX, ProductCostRow } from '@/lib/exportUtils';
+import {
+  exportToCSV,
+  exportToXLSX,
+  ProductCostRow,
+  SupplierBreakdownRow,
+} from '@/lib/exportUtils';
+import { getCurrencySymbol } from '@/lib/currencies';
+import { getCostCategoryLabel } from '@/lib/incoterms';
 import Button from '@/components/ui/Button';
-import Modal from '@/components/ui/Modal';
-import Input from '@/components/ui/Input';
 import { useToast } from '@/components/ui/Toast';
+import DocumentsSection from '@/components/order/DocumentsSection';
+import ShippingDocumentsSection from '@/components/order/ShippingDocumentsSection';
+import AttachmentsSection from '@/components/order/AttachmentsSection';
+import AddMilestoneModal, { NewMilestone } from '@/components/order/AddMilestoneModal';
+import { getMilestoneName, sortMilestones } from '../../../convex/helpers';
 import {
   PlusIcon,
   CheckCircleIcon,
@@ -16,6 +26,7 @@ import {
   TrashIcon,
   DocumentTextIcon,
   TableCellsIcon,
+  ExclamationTriangleIcon,
 } from '@heroicons/react/24/outline';
 
 interface Order {
@@ -24,6 +35,7 @@ interface Order {
   createdDate: string;
   usdRate: number;
   cnyRate: number;
+  incoterm?: string;
   estimatedArrival?: string;
   notes?: string;
 }
@@ -38,6 +50,14 @@ interface Milestone {
   notes?: string;
 }
 
+interface MilestoneType {
+  typeId: string;
+  name: string;
+  level: 'order' | 'product';
+  defaultOrder: number;
+  color: string;
+}
+
 interface ProductWithCosts {
   productId: string;
   name: string;
@@ -46,12 +66,43 @@ interface ProductWithCosts {
   pricePerUnit: number;
   priceTotal: number;
   currency: string;
+  hsCode?: string;
+  cartonCount?: number;
+  cbmTotal: number;
+  kgTotal: number;
   priceILS: number;
   additionalCostsILS: number;
+  dutyILS: number;
+  purchaseTaxILS: number;
+  vatILS: number;
   finalCostILS: number;
   finalCostPerUnitILS: number;
 }
 
+interface ContainerMix {
+  type: string;
+  count: number;
+}
+
+interface ContainerPlan {
+  isLCL: boolean;
+  lclChargeableUnits: number;
+  containers: ContainerMix[];
+  volumeUtilization: number;
+  weightUtilization: number;
+  options: (ContainerMix & { volumeUtilization: number; weightUtilization: number })[];
+  nearBoundary?: {
+    containers: ContainerMix[];
+    overCBM: number;
+    overKG: number;
+  };
+}
+
+const formatContainers = (containers: ContainerMix[]) =>
+  containers.length === 0
+    ? 'LCL'
+    : containers.map((c) => `${c.count} × ${c.type}`).join(' + ');
+
 interface SummaryTabProps {
   order: Order;
   summary: {
@@ -59,20 +110,48 @@ interface SummaryTabProps {
     totalProductsILS: number;
     totalCostsILS: number;
     totalOrderILS: number;
+    totalLandedILS: number;
     totalPaidILS: number;
     balanceILS: number;
     totalCBM: number;
     totalKG: number;
   };
+  containerPlan: ContainerPlan;
+  customs: {
+    goodsILS: number;
+    freightILS: number;
+    insuranceILS: number;
+    cifILS: number;
+    dutyILS: number;
+    purchaseTaxILS: number;
+    vatILS: number;
+    unclassifiedCount: number;
+  };
+  fxSummary: {
+    actualPaidILS: number;
+    realizedFxILS: number;
+    unratedPaymentCount: number;
+  };
   milestones: Milestone[];
+  milestoneTypes: MilestoneType[];
   products: ProductWithCosts[];
+  supplierBreakdown: SupplierBreakdownRow[];
+  rates: Record<string, number>;
+  missingExpectedCosts: string[];
 }
 
 export default function SummaryTab({
   order,
   summary,
+  containerPlan,
+  customs,
+  fxSummary,
   milestones,
+  milestoneTypes,
   products,
+  supplierBreakdown,
+  rates,
+  missingExpectedCosts,
 }: SummaryTabProps) {
   const { showToast } = useToast();
   const addOrderMilestoneMutation = useMutation(api.milestones.addOrderMilestone);
@@ -80,25 +159,20 @@ export default function SummaryTab({
   const deleteOrderMilestoneMutation = useMutation(api.milestones.deleteOrderMilestone);
 
   const [showAddMilestone, setShowAddMilestone] = useState(false);
-  const [newMilestone, setNewMilestone] = useState({
-    description: '',
-    targetDate: '',
-    notes: '',
-  });
 
-  const handleAddMilestone = async () => {
+  const orderMilestoneTypes = milestoneTypes.filter((t) => t.level === 'order');
+
+  const handleAddMilestone = async (milestone: NewMilestone) => {
     try {
       await addOrderMilestoneMutation({
         orderId: order.orderId,
-        milestoneTypeId: 'custom',
-        targetDate: newMilestone.targetDate || undefined,
-        status: newMilestone.description,
-        notes: newMilestone.notes || undefined,
+        milestoneTypeId: milestone.milestoneTypeId,
+        targetDate: milestone.targetDate || undefined,
+        notes: milestone.notes || undefined,
       });
 
       showToast('מיילסטון נוסף בהצלחה', 'success');
       setShowAddMilestone(false);
-      setNewMilestone({ description: '', targetDate: '', notes: '' });
     } catch (error) {
       console.error('Error adding milestone:', error);
       showToast('שגיאה בהוספת מיילסטון', 'error');
@@ -131,19 +205,14 @@ export default function SummaryTab({
     }
   };
 
-  const prepareExportData = (products: ProductWithCosts[], totalOrderILS: number): ProductCostRow[] => {
+  const prepareExportData = (products: ProductWithCosts[], totalLandedILS: number): ProductCostRow[] => {
     return products.map((product) => {
       const unitPriceILS = product.quantity > 0 ? product.priceILS / product.quantity : 0;
-      const percentOfOrder = totalOrderILS > 0
-        ? (product.finalCostILS / totalOrderILS) * 100
+      const percentOfOrder = totalLandedILS > 0
+        ? (product.finalCostILS / totalLandedILS) * 100
         : 0;
 
-      const currencySymbols: Record<string, string> = {
-        USD: '$',
-        CNY: '¥',
-        ILS: '₪',
-      };
-      const symbol = currencySymbols[product.currency] || product.currency;
+      const symbol = getCurrencySymbol(product.currency);
 
       return {
         productName: product.name,
@@ -153,9 +222,12 @@ export default function SummaryTab({
         productCostILS: product.priceILS,
         unitPriceILS,
         additionalCostsILS: product.additionalCostsILS,
+        dutyILS: product.dutyILS,
+        purchaseTaxILS: product.purchaseTaxILS,
         totalCostILS: product.finalCostILS,
         landedUnitCostILS: product.finalCostPerUnitILS,
         percentOfOrder,
+        vatILS: product.vatILS,
       };
     });
   };
@@ -182,6 +254,19 @@ export default function SummaryTab({
             <p className="text-sm text-gray-500">שער יואן</p>
             <p className="font-medium">{formatNumber(order.cnyRate, 2)}</p>
           </div>
+          {Object.entries(rates)
+            .filter(([currency]) => !['USD', 'CNY', 'ILS'].includes(currency))
+            .filter(([currency]) => products.some((p) => p.currency === currency))
+            .map(([currency, rate]) => (
+              <div key={currency}>
+                <p className="text-sm text-gray-500">שער {currency}</p>
+                <p className="font-medium">{formatNumber(rate, 4)}</p>
+              </div>
+            ))}
+          <div>
+            <p className="text-sm text-gray-500">תנאי סחר</p>
+            <p className="font-medium">{order.incoterm || '-'}</p>
+          </div>
           <div>
             <p className="text-sm text-gray-500">הגעה משוערת</p>
             <p className="font-medium">{order.estimatedArrival ? formatDate(order.estimatedArrival) : '-'}</p>
@@ -203,6 +288,204 @@ export default function SummaryTab({
         </div>
       </div>
 
+      {/* Container Planner */}
+      {(summary.totalCBM > 0 || summary.totalKG > 0) && (
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">תכנון מכולות</h3>
+
+          {containerPlan.nearBoundary && (
+            <div className="flex items-center gap-2 mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+              <ExclamationTriangleIcon className="w-5 h-5 flex-shrink-0" />
+              <span>
+                ההזמנה חורגת רק ב-{formatNumber(containerPlan.nearBoundary.overCBM, 2)} CBM
+                {containerPlan.nearBoundary.overKG > 0 &&
+                  ` ו-${formatNumber(containerPlan.nearBoundary.overKG, 0)} KG`}{' '}
+                מ-{formatContainers(containerPlan.nearBoundary.containers)} - הקטנה קלה תחסוך במשלוח
+              </span>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+            <div>
+              <p className="text-sm text-gray-500">המלצה</p>
+              <p className="font-medium">
+                {containerPlan.isLCL
+                  ? `LCL - ${formatNumber(containerPlan.lclChargeableUnits, 2)} W/M`
+                  : formatContainers(containerPlan.containers)}
+              </p>
+            </div>
+            {!containerPlan.isLCL && (
+              <>
+                <div>
+                  <p className="text-sm text-gray-500">ניצולת נפח</p>
+                  <p className="font-medium">{formatNumber(containerPlan.volumeUtilization * 100, 0)}%</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">ניצולת משקל</p>
+                  <p className="font-medium">{formatNumber(containerPlan.weightUtilization * 100, 0)}%</p>
+                </div>
+              </>
+            )}
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 bg-gray-50">
+                <th className="px-3 py-2 text-right font-medium text-gray-600">מכולה</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-600">כמות נדרשת</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-600">ניצולת נפח</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-600">ניצולת משקל</th>
+              </tr>
+            </thead>
+            <tbody>
+              {containerPlan.options.map((option) => (
+                <tr key={option.type} className="border-b border-gray-100">
+                  <td className="px-3 py-2 font-medium text-gray-900">{option.type}</td>
+                  <td className="px-3 py-2 text-gray-600">{option.count}</td>
+                  <td className="px-3 py-2 text-gray-600">{formatNumber(option.volumeUtilization * 100, 0)}%</td>
+                  <td className="px-3 py-2 text-gray-600">{formatNumber(option.weightUtilization * 100, 0)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Customs Valuation */}
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">מכס ומיסי יבוא</h3>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <p className="text-sm text-gray-500">ערך טובין</p>
+            <p className="font-medium">{formatCurrency(customs.goodsILS)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">הובלה + ביטוח</p>
+            <p className="font-medium">{formatCurrency(customs.freightILS + customs.insuranceILS)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">ערך CIF</p>
+            <p className="font-medium">{formatCurrency(customs.cifILS)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">מכס</p>
+            <p className="font-medium text-red-600">{formatCurrency(customs.dutyILS)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">מס קנייה</p>
+            <p className="font-medium text-red-600">{formatCurrency(customs.purchaseTaxILS)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">מע״מ יבוא (מוחזר)</p>
+            <p className="font-medium">{formatCurrency(customs.vatILS)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">עלות נחיתה כוללת</p>
+            <p className="font-medium">{formatCurrency(summary.totalLandedILS)}</p>
+          </div>
+          {customs.unclassifiedCount > 0 && (
+            <div>
+              <p className="text-sm text-gray-500">מוצרים ללא תעריף מכס</p>
+              <p className="font-medium text-amber-600">{customs.unclassifiedCount}</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Realized FX */}
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">הפרשי שער</h3>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <p className="text-sm text-gray-500">שולם לפי שער ההזמנה</p>
+            <p className="font-medium">{formatCurrency(summary.totalPaidILS)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">שולם בפועל</p>
+            <p className="font-medium">{formatCurrency(fxSummary.actualPaidILS)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">רווח/הפסד שער ממומש</p>
+            <p
+              className={`font-medium ${
+                fxSummary.realizedFxILS >= 0 ? 'text-green-600' : 'text-red-600'
+              }`}
+            >
+              {formatCurrency(fxSummary.realizedFxILS)}
+            </p>
+          </div>
+          {fxSummary.unratedPaymentCount > 0 && (
+            <div>
+              <p className="text-sm text-gray-500">תשלומים ללא שער יומי</p>
+              <p className="font-medium text-amber-600">{fxSummary.unratedPaymentCount}</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Supplier Breakdown */}
+      {supplierBreakdown.length > 1 && (
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">פירוט לפי ספק</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 bg-gray-50">
+                  <th className="px-3 py-3 text-right font-medium text-gray-600">ספק</th>
+                  <th className="px-3 py-3 text-right font-medium text-gray-600">מוצרים</th>
+                  <th className="px-3 py-3 text-right font-medium text-gray-600">ערך מוצרים ₪</th>
+                  <th className="px-3 py-3 text-right font-medium text-gray-600">עלויות מוקצות ₪</th>
+                  <th className="px-3 py-3 text-right font-medium text-gray-600">מכס ומס קנייה ₪</th>
+                  <th className="px-3 py-3 text-right font-medium text-gray-600">עלות נחיתה ₪</th>
+                  <th className="px-3 py-3 text-right font-medium text-gray-600">CBM</th>
+                  <th className="px-3 py-3 text-right font-medium text-gray-600">KG</th>
+                  <th className="px-3 py-3 text-right font-medium text-gray-600">שולם ₪</th>
+                  <th className="px-3 py-3 text-right font-medium text-gray-600">יתרה ₪</th>
+                </tr>
+              </thead>
+              <tbody>
+                {supplierBreakdown.map((row) => (
+                  <tr key={row.supplierId || row.supplier || '-'} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="px-3 py-3 font-medium text-gray-900">{row.supplier || 'ללא ספק'}</td>
+                    <td className="px-3 py-3 text-gray-600">{row.productCount}</td>
+                    <td className="px-3 py-3 text-gray-900">{formatNumber(row.productsILS)}</td>
+                    <td className="px-3 py-3 text-gray-600">{formatNumber(row.allocatedCostsILS)}</td>
+                    <td className="px-3 py-3 text-gray-600">{formatNumber(row.dutyAndTaxILS)}</td>
+                    <td className="px-3 py-3 font-medium text-gray-900">{formatNumber(row.landedILS)}</td>
+                    <td className="px-3 py-3 text-gray-600">
+                      {formatNumber(row.cbm, 3)}
+                      <span className="text-xs text-gray-400 mr-1">({formatNumber(row.cbmShare * 100, 0)}%)</span>
+                    </td>
+                    <td className="px-3 py-3 text-gray-600">
+                      {formatNumber(row.kg, 1)}
+                      <span className="text-xs text-gray-400 mr-1">({formatNumber(row.kgShare * 100, 0)}%)</span>
+                    </td>
+                    <td className="px-3 py-3 text-green-600">{formatNumber(row.paidILS)}</td>
+                    <td className={`px-3 py-3 ${row.balanceILS > 0.01 ? 'text-amber-600' : 'text-gray-600'}`}>
+                      {formatNumber(row.balanceILS)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Purchase Orders */}
+      <DocumentsSection orderId={order.orderId} suppliers={supplierBreakdown} />
+
+      {/* Packing List & Commercial Invoice */}
+      <ShippingDocumentsSection order={order} products={products} />
+
+      {/* Order attachments */}
+      <AttachmentsSection
+        orderId={order.orderId}
+        entityType="order"
+        entityId={order.orderId}
+        title="מסמכי הזמנה מצורפים"
+      />
+
       {/* Milestones */}
       <div>
         <div className="flex items-center justify-between mb-4">
@@ -219,11 +502,7 @@ export default function SummaryTab({
           <div className="py-6 px-4" dir="ltr">
             {/* Timeline with date range */}
             {(() => {
-              const sorted = [...milestones].sort((a, b) => {
-                const dateA = a.targetDate || a.actualDate || '';
-                const dateB = b.targetDate || b.actualDate || '';
-                return dateA.localeCompare(dateB);
-              });
+              const sorted = sortMilestones(milestones, milestoneTypes);
 
               // Calculate date range
               const startDate = order.createdDate ? new Date(order.createdDate) : new Date();
@@ -283,6 +562,9 @@ export default function SummaryTab({
                       const isCompleted = !!milestone.actualDate;
                       const isOverdue = !isCompleted && milestone.targetDate && milestone.targetDate < today;
                       const pos = getPosition(milestone.targetDate || milestone.actualDate || '');
+                      const typeColor = milestoneTypes.find(
+                        (t) => t.typeId === milestone.milestoneTypeId
+                      )?.color;
 
                       const getCircleClasses = () => {
                         if (isCompleted) return 'bg-green-500 border-green-500 text-white';
@@ -299,6 +581,11 @@ export default function SummaryTab({
                           {/* Circle */}
                           <div
                             className={`w-12 h-12 rounded-full flex items-center justify-center border-4 transition-all z-10 ${getCircleClasses()}`}
+                            style={
+                              !isCompleted && !isOverdue && typeColor
+                                ? { borderColor: typeColor, color: typeColor }
+                                : undefined
+                            }
                           >
                             {isCompleted ? (
                               <CheckCircleIcon className="w-7 h-7" />
@@ -320,7 +607,7 @@ export default function SummaryTab({
                                 isCompleted ? 'text-green-700' : isOverdue ? 'text-red-600' : 'text-gray-600'
                               }`}
                             >
-                              {milestone.status}
+                              {getMilestoneName(milestone, milestoneTypes)}
                             </p>
                             <p className={`text-xs ${isOverdue ? 'text-red-500 font-medium' : 'text-gray-400'}`}>
                               {milestone.actualDate
@@ -373,14 +660,25 @@ export default function SummaryTab({
       {products.length > 0 && (
         <div>
           <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-semibold text-gray-900">פירוט עלויות מוצרים</h3>
+            <div className="flex items-center gap-3">
+              <h3 className="text-lg font-semibold text-gray-900">פירוט עלויות מוצרים</h3>
+              {missingExpectedCosts.length > 0 && (
+                <span
+                  className="flex items-center gap-1 text-xs text-amber-700 bg-amber-50 border border-amber-200 px-2 py-0.5 rounded"
+                  title={`חסר: ${missingExpectedCosts.map(getCostCategoryLabel).join(', ')}`}
+                >
+                  <ExclamationTriangleIcon className="w-4 h-4" />
+                  עלות נחיתה לא מלאה
+                </span>
+              )}
+            </div>
             <div className="flex gap-2">
               <Button
                 size="sm"
                 variant="secondary"
                 onClick={() => {
-                  const exportData = prepareExportData(products, summary.totalOrderILS);
-                  exportToCSV(exportData, `${order.orderName}-עלויות`);
+                  const exportData = prepareExportData(products, summary.totalLandedILS);
+                  exportToCSV(exportData, `${order.orderName}-עלויות`, supplierBreakdown);
                 }}
               >
                 <DocumentTextIcon className="w-4 h-4" />
@@ -390,8 +688,8 @@ export default function SummaryTab({
                 size="sm"
                 variant="secondary"
                 onClick={() => {
-                  const exportData = prepareExportData(products, summary.totalOrderILS);
-                  exportToXLSX(exportData, `${order.orderName}-עלויות`);
+                  const exportData = prepareExportData(products, summary.totalLandedILS);
+                  exportToXLSX(exportData, `${order.orderName}-עלויות`, supplierBreakdown);
                 }}
               >
                 <TableCellsIcon className="w-4 h-4" />
@@ -411,16 +709,19 @@ export default function SummaryTab({
                   <th className="px-3 py-3 text-right font-medium text-gray-600">עלות מוצר ₪</th>
                   <th className="px-3 py-3 text-right font-medium text-gray-600">מחיר/יח ₪</th>
                   <th className="px-3 py-3 text-right font-medium text-gray-600">עלויות נוספות ₪</th>
+                  <th className="px-3 py-3 text-right font-medium text-gray-600">מכס ₪</th>
+                  <th className="px-3 py-3 text-right font-medium text-gray-600">מס קנייה ₪</th>
                   <th className="px-3 py-3 text-right font-medium text-gray-600">עלות כוללת ₪</th>
                   <th className="px-3 py-3 text-right font-medium text-gray-600">עלות/יח ₪</th>
                   <th className="px-3 py-3 text-right font-medium text-gray-600">% מההזמנה</th>
+                  <th className="px-3 py-3 text-right font-medium text-gray-600">מע״מ (מוחזר) ₪</th>
                 </tr>
               </thead>
               <tbody>
                 {products.map((product) => {
                   const unitPriceILS = product.quantity > 0 ? product.priceILS / product.quantity : 0;
-                  const percentOfOrder = summary.totalOrderILS > 0
-                    ? (product.finalCostILS / summary.totalOrderILS) * 100
+                  const percentOfOrder = summary.totalLandedILS > 0
+                    ? (product.finalCostILS / summary.totalLandedILS) * 100
                     : 0;
 
                   return (
@@ -434,9 +735,12 @@ export default function SummaryTab({
                       <td className="px-3 py-3 text-gray-900">{formatNumber(product.priceILS)}</td>
                       <td className="px-3 py-3 text-gray-600">{formatNumber(unitPriceILS)}</td>
                       <td className="px-3 py-3 text-gray-600">{formatNumber(product.additionalCostsILS)}</td>
+                      <td className="px-3 py-3 text-gray-600">{formatNumber(product.dutyILS)}</td>
+                      <td className="px-3 py-3 text-gray-600">{formatNumber(product.purchaseTaxILS)}</td>
                       <td className="px-3 py-3 font-medium text-gray-900">{formatNumber(product.finalCostILS)}</td>
                       <td className="px-3 py-3 font-medium text-gray-900">{formatNumber(product.finalCostPerUnitILS)}</td>
                       <td className="px-3 py-3 text-gray-600">{formatNumber(percentOfOrder, 1)}%</td>
+                      <td className="px-3 py-3 text-gray-500">{formatNumber(product.vatILS)}</td>
                     </tr>
                   );
                 })}
@@ -456,11 +760,20 @@ export default function SummaryTab({
                   <td className="px-3 py-3 text-gray-900">
                     {formatNumber(products.reduce((sum, p) => sum + p.additionalCostsILS, 0))}
                   </td>
+                  <td className="px-3 py-3 text-gray-900">
+                    {formatNumber(products.reduce((sum, p) => sum + p.dutyILS, 0))}
+                  </td>
+                  <td className="px-3 py-3 text-gray-900">
+                    {formatNumber(products.reduce((sum, p) => sum + p.purchaseTaxILS, 0))}
+                  </td>
                   <td className="px-3 py-3 text-gray-900">
                     {formatNumber(products.reduce((sum, p) => sum + p.finalCostILS, 0))}
                   </td>
                   <td className="px-3 py-3"></td>
                   <td className="px-3 py-3 text-gray-900">100%</td>
+                  <td className="px-3 py-3 text-gray-900">
+                    {formatNumber(products.reduce((sum, p) => sum + p.vatILS, 0))}
+                  </td>
                 </tr>
               </tfoot>
             </table>
@@ -469,52 +782,15 @@ export default function SummaryTab({
       )}
 
       {/* Add Milestone Modal */}
-      <Modal
-        isOpen={showAddMilestone}
-        onClose={() => setShowAddMilestone(false)}
-        title="הוסף מיילסטון"
-      >
-        <div className="space-y-4">
-          <Input
-            id="description"
-            label="תיאור"
-            value={newMilestone.description}
-            onChange={(e) =>
-              setNewMilestone({ ...newMilestone, description: e.target.value })
-            }
-            placeholder="לדוגמה: יצא מסין"
-            required
-          />
-
-          <Input
-            id="targetDate"
-            label="תאריך יעד"
-            type="date"
-            value={newMilestone.targetDate}
-            onChange={(e) =>
-              setNewMilestone({ ...newMilestone, targetDate: e.target.value })
-            }
-          />
-
-          <Input
-            id="notes"
-            label="הערות"
-            value={newMilestone.notes}
-            onChange={(e) =>
-              setNewMilestone({ ...newMilestone, notes: e.target.value })
-            }
-          />
-
-          <div className="flex justify-end gap-3 pt-4">
-            <Button variant="secondary" onClick={() => setShowAddMilestone(false)}>
-              ביטול
-            </Button>
-            <Button onClick={handleAddMilestone} disabled={!newMilestone.description}>
-              הוסף
-            </Button>
-          </div>
-        </div>
-      </Modal>
+      {showAddMilestone && (
+        <AddMilestoneModal
+          title="הוסף מיילסטון"
+          milestoneTypes={orderMilestoneTypes}
+          usedTypeIds={milestones.map((m) => m.milestoneTypeId)}
+          onAdd={handleAddMilestone}
+          onClose={() => setShowAddMilestone(false)}
+        />
+      )}
     </div>
   );
 }
@@ -1,9 +1,13 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
 import Modal from '@/components/ui/Modal';
 import Input from '@/components/ui/Input';
 import Button from '@/components/ui/Button';
+import Select from '@/components/ui/Select';
+import { INCOTERMS, type Incoterm } from '@/lib/incoterms';
 
 interface NewOrderModalProps {
   isOpen: boolean;
@@ -12,6 +16,10 @@ interface NewOrderModalProps {
     order_name: string;
     usd_rate: number;
     cny_rate: number;
+    exchange_rates: Record<string, number>;
+    incoterm: Incoterm;
+    payment_term_id: string;
+    supplier_id: string;
     estimated_arrival: string;
     notes: string;
   }) => Promise<void>;
@@ -32,10 +40,16 @@ export default function NewOrderModal({
     order_name: defaultName,
     usd_rate: 3.76,
     cny_rate: 0.52,
+    exchange_rates: {} as Record<string, number>,
+    incoterm: 'FOB' as Incoterm,
+    payment_term_id: '',
+    supplier_id: '',
     estimated_arrival: '',
     notes: '',
   });
   const [loading, setLoading] = useState(false);
+  const paymentTerms = useQuery(api.paymentTerms.getPaymentTerms) ?? [];
+  const suppliers = useQuery(api.suppliers.getAllSuppliers) ?? [];
   const [ratesLive, setRatesLive] = useState(false);
 
   // Fetch live rates when modal opens
@@ -48,6 +62,7 @@ export default function NewOrderModal({
             ...prev,
             usd_rate: rates.USD,
             cny_rate: rates.CNY,
+            exchange_rates: rates.rates || {},
           }));
           setRatesLive(rates.live);
         })
@@ -65,6 +80,10 @@ export default function NewOrderModal({
         order_name: defaultName,
         usd_rate: 3.76,
         cny_rate: 0.52,
+        exchange_rates: {},
+        incoterm: 'FOB',
+        payment_term_id: '',
+        supplier_id: '',
         estimated_arrival: '',
         notes: '',
       });
@@ -120,17 +139,58 @@ export default function NewOrderModal({
               required
             />
           </div>
+          {Object.keys(formData.exchange_rates).length > 2 && (
+            <p className="text-xs text-gray-500 mt-2">
+              יישמרו גם שערים ל-{Object.keys(formData.exchange_rates).length - 2} מטבעות נוספים
+            </p>
+          )}
         </div>
 
-        <Input
-          id="estimated_arrival"
-          label="הגעה משוערת"
-          type="date"
-          value={formData.estimated_arrival}
-          onChange={(e) =>
-            setFormData({ ...formData, estimated_arrival: e.target.value })
-          }
-        />
+        <div className="grid grid-cols-2 gap-4">
+          <Select
+            id="incoterm"
+            label="תנאי סחר (Incoterm)"
+            options={INCOTERMS}
+            value={formData.incoterm}
+            onChange={(e) =>
+              setFormData({ ...formData, incoterm: e.target.value as Incoterm })
+            }
+          />
+
+          <Input
+            id="estimated_arrival"
+            label="הגעה משוערת"
+            type="date"
+            value={formData.estimated_arrival}
+            onChange={(e) =>
+              setFormData({ ...formData, estimated_arrival: e.target.value })
+            }
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <Select
+            id="supplier_id"
+            label="ספק"
+            options={[
+              { value: '', label: 'ללא ספק' },
+              ...suppliers.map((supplier) => ({ value: supplier.supplierId, label: supplier.name })),
+            ]}
+            value={formData.supplier_id}
+            onChange={(e) => setFormData({ ...formData, supplier_id: e.target.value })}
+          />
+
+          <Select
+            id="payment_term_id"
+            label="תנאי תשלום"
+            options={[
+              { value: '', label: 'לפי הספק' },
+              ...paymentTerms.map((term) => ({ value: term.paymentTermId, label: term.name })),
+            ]}
+            value={formData.payment_term_id}
+            onChange={(e) => setFormData({ ...formData, payment_term_id: e.target.value })}
+          />
+        </div>
 
         <Input
           id="notes"
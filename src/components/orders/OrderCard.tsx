@@ -8,6 +8,7 @@ import {
   BanknotesIcon,
   ClockIcon,
   TrashIcon,
+  ExclamationTriangleIcon,
 } from '@heroicons/react/24/outline';
 
 interface OrderCardProps {
@@ -19,6 +20,7 @@ interface OrderCardProps {
     totalOrderILS?: number;
     totalPaidILS?: number;
     balanceILS?: number;
+    missingExpectedCosts?: string[];
   };
   onDelete?: (orderId: string) => void;
 }
@@ -47,6 +49,14 @@ export default function OrderCard({ order, onDelete }: OrderCardProps) {
             <p className="text-sm text-gray-500">{order.orderId}</p>
           </div>
 
+          {/* Incomplete landed cost */}
+          {order.missingExpectedCosts && order.missingExpectedCosts.length > 0 && (
+            <span className="flex items-center gap-1 text-xs text-amber-700 bg-amber-50 border border-amber-200 px-2 py-0.5 rounded">
+              <ExclamationTriangleIcon className="w-4 h-4" />
+              עלות נחיתה לא מלאה
+            </span>
+          )}
+
           {/* Products */}
           <div className="flex items-center gap-2 text-sm text-gray-600">
             <CubeIcon className="w-4 h-4 text-gray-400" />
@@ -0,0 +1,107 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import Spinner from '@/components/ui/Spinner';
+import { useToast } from '@/components/ui/Toast';
+
+interface CompanyFormData {
+  name?: string;
+  address?: string;
+  phone?: string;
+  email?: string;
+  taxId?: string;
+}
+
+export default function CompanyDetailsSection() {
+  const settings = useQuery(api.settings.getSettings);
+  const updateSettingsMutation = useMutation(api.settings.updateSettings);
+  const { showToast } = useToast();
+
+  const [formData, setFormData] = useState<CompanyFormData>({});
+
+  // Initialize form when settings load
+  if (settings && Object.keys(formData).length === 0) {
+    setFormData({ ...settings.company });
+  }
+
+  const handleSave = async () => {
+    try {
+      await updateSettingsMutation({
+        companyName: formData.name,
+        companyAddress: formData.address,
+        companyPhone: formData.phone,
+        companyEmail: formData.email,
+        companyTaxId: formData.taxId,
+      });
+      showToast('פרטי החברה נשמרו', 'success');
+    } catch (error) {
+      console.error('Error saving company details:', error);
+      showToast('שגיאה בשמירת פרטי החברה', 'error');
+    }
+  };
+
+  if (settings === undefined) {
+    return (
+      <div className="flex justify-center py-8">
+        <Spinner />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">פרטי החברה</h2>
+          <p className="text-sm text-gray-500">מודפסים על הזמנות רכש לספקים, מומלץ באנגלית</p>
+        </div>
+        <Button size="sm" onClick={handleSave}>
+          שמור
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input
+          id="companyName"
+          label="שם החברה"
+          dir="ltr"
+          value={formData.name ?? ''}
+          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+        />
+        <Input
+          id="companyTaxId"
+          label="ח.פ / מספר עוסק"
+          dir="ltr"
+          value={formData.taxId ?? ''}
+          onChange={(e) => setFormData({ ...formData, taxId: e.target.value })}
+        />
+        <Input
+          id="companyAddress"
+          label="כתובת"
+          dir="ltr"
+          value={formData.address ?? ''}
+          onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+        />
+        <Input
+          id="companyPhone"
+          label="טלפון"
+          dir="ltr"
+          value={formData.phone ?? ''}
+          onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+        />
+        <Input
+          id="companyEmail"
+          label="אימייל"
+          type="email"
+          dir="ltr"
+          value={formData.email ?? ''}
+          onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+}
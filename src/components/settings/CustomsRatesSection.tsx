@@ -0,0 +1,226 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import { formatNumber } from '@/lib/utils';
+import Button from '@/components/ui/Button';
+import Modal from '@/components/ui/Modal';
+import Input from '@/components/ui/Input';
+import Spinner from '@/components/ui/Spinner';
+import { useToast } from '@/components/ui/Toast';
+import { PlusIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+interface CustomsRate {
+  customsRateId: string;
+  hsCode: string;
+  description?: string;
+  dutyRate: number;
+  purchaseTaxRate: number;
+}
+
+interface CustomsRateFormData {
+  hsCode: string;
+  description: string;
+  dutyRate: number;
+  purchaseTaxRate: number;
+}
+
+const emptyRate: CustomsRateFormData = {
+  hsCode: '',
+  description: '',
+  dutyRate: 0,
+  purchaseTaxRate: 0,
+};
+
+export default function CustomsRatesSection() {
+  const customsRates = useQuery(api.customs.getCustomsRates);
+  const { showToast } = useToast();
+  const addRateMutation = useMutation(api.customs.addCustomsRate);
+  const updateRateMutation = useMutation(api.customs.updateCustomsRate);
+  const deleteRateMutation = useMutation(api.customs.deleteCustomsRate);
+
+  const [showModal, setShowModal] = useState(false);
+  const [editingRate, setEditingRate] = useState<CustomsRate | null>(null);
+  const [formData, setFormData] = useState(emptyRate);
+
+  const openAddModal = () => {
+    setEditingRate(null);
+    setFormData(emptyRate);
+    setShowModal(true);
+  };
+
+  const openEditModal = (rate: CustomsRate) => {
+    setEditingRate(rate);
+    setFormData({
+      hsCode: rate.hsCode,
+      description: rate.description || '',
+      dutyRate: rate.dutyRate,
+      purchaseTaxRate: rate.purchaseTaxRate,
+    });
+    setShowModal(true);
+  };
+
+  const handleSubmit = async () => {
+    try {
+      if (editingRate) {
+        await updateRateMutation({
+          customsRateId: editingRate.customsRateId,
+          hsCode: formData.hsCode,
+          description: formData.description,
+          dutyRate: formData.dutyRate,
+          purchaseTaxRate: formData.purchaseTaxRate,
+        });
+        showToast('תעריף עודכן בהצלחה', 'success');
+      } else {
+        await addRateMutation({
+          hsCode: formData.hsCode,
+          description: formData.description || undefined,
+          dutyRate: formData.dutyRate,
+          purchaseTaxRate: formData.purchaseTaxRate,
+        });
+        showToast('תעריף נוסף בהצלחה', 'success');
+      }
+
+      setShowModal(false);
+    } catch (error) {
+      console.error('Error saving customs rate:', error);
+      showToast('שגיאה בשמירת תעריף', 'error');
+    }
+  };
+
+  const handleDelete = async (customsRateId: string) => {
+    if (!confirm('האם למחוק את התעריף?')) return;
+
+    try {
+      await deleteRateMutation({ customsRateId });
+      showToast('תעריף נמחק', 'success');
+    } catch (error) {
+      console.error('Error deleting customs rate:', error);
+      showToast('שגיאה במחיקת תעריף', 'error');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">תעריפי מכס ומס קנייה</h2>
+          <p className="text-sm text-gray-500">
+            מוצר מקבל את התעריף של קוד ה-HS הארוך ביותר שמתאים לתחילת הקוד שלו
+          </p>
+        </div>
+        <Button size="sm" onClick={openAddModal}>
+          <PlusIcon className="w-4 h-4" />
+          הוסף תעריף
+        </Button>
+      </div>
+
+      {customsRates === undefined ? (
+        <div className="flex justify-center py-8">
+          <Spinner />
+        </div>
+      ) : customsRates.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">אין תעריפי מכס</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-right py-3 px-4 font-medium text-gray-600">קוד HS</th>
+                <th className="text-right py-3 px-4 font-medium text-gray-600">תיאור</th>
+                <th className="text-right py-3 px-4 font-medium text-gray-600">מכס %</th>
+                <th className="text-right py-3 px-4 font-medium text-gray-600">מס קנייה %</th>
+                <th className="text-right py-3 px-4 font-medium text-gray-600">פעולות</th>
+              </tr>
+            </thead>
+            <tbody>
+              {customsRates.map((rate) => (
+                <tr key={rate.customsRateId} className="border-b hover:bg-gray-50">
+                  <td className="py-3 px-4 font-medium" dir="ltr">{rate.hsCode}</td>
+                  <td className="py-3 px-4">{rate.description || '-'}</td>
+                  <td className="py-3 px-4">{formatNumber(rate.dutyRate, 1)}%</td>
+                  <td className="py-3 px-4">{formatNumber(rate.purchaseTaxRate, 1)}%</td>
+                  <td className="py-3 px-4">
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => openEditModal(rate)}
+                        className="p-1.5 text-gray-500 hover:bg-gray-100 rounded"
+                      >
+                        <PencilIcon className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(rate.customsRateId)}
+                        className="p-1.5 text-red-500 hover:bg-red-50 rounded"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Modal
+        isOpen={showModal}
+        onClose={() => setShowModal(false)}
+        title={editingRate ? 'עריכת תעריף' : 'הוסף תעריף'}
+      >
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              id="hsCode"
+              label="קוד HS (או תחילתו)"
+              dir="ltr"
+              value={formData.hsCode}
+              onChange={(e) => setFormData({ ...formData, hsCode: e.target.value })}
+              placeholder="8516"
+              required
+            />
+            <Input
+              id="description"
+              label="תיאור"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              id="dutyRate"
+              label="מכס %"
+              type="number"
+              step="0.1"
+              value={formData.dutyRate}
+              onChange={(e) =>
+                setFormData({ ...formData, dutyRate: parseFloat(e.target.value) || 0 })
+              }
+            />
+            <Input
+              id="purchaseTaxRate"
+              label="מס קנייה %"
+              type="number"
+              step="0.1"
+              value={formData.purchaseTaxRate}
+              onChange={(e) =>
+                setFormData({ ...formData, purchaseTaxRate: parseFloat(e.target.value) || 0 })
+              }
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button variant="secondary" onClick={() => setShowModal(false)}>
+              ביטול
+            </Button>
+            <Button onClick={handleSubmit} disabled={!formData.hsCode}>
+              {editingRate ? 'עדכן' : 'הוסף'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import Spinner from '@/components/ui/Spinner';
+import { useToast } from '@/components/ui/Toast';
+
+interface SettingsFormData {
+  allocationDecimals?: number;
+  priceIncreaseThreshold?: number;
+}
+
+export default function GeneralSettingsSection() {
+  const settings = useQuery(api.settings.getSettings);
+  const updateSettingsMutation = useMutation(api.settings.updateSettings);
+  const { showToast } = useToast();
+
+  const [formData, setFormData] = useState<SettingsFormData>({});
+
+  // Initialize form when settings load
+  if (settings && Object.keys(formData).length === 0) {
+    setFormData({
+      allocationDecimals: settings.allocationDecimals,
+      priceIncreaseThreshold: settings.priceIncreaseThreshold,
+    });
+  }
+
+  const handleSave = async () => {
+    try {
+      await updateSettingsMutation({
+        allocationDecimals: formData.allocationDecimals,
+        priceIncreaseThreshold: formData.priceIncreaseThreshold,
+      });
+      showToast('ההגדרות נשמרו', 'success');
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      showToast('שגיאה בשמירת ההגדרות', 'error');
+    }
+  };
+
+  if (settings === undefined) {
+    return (
+      <div className="flex justify-center py-8">
+        <Spinner />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">הגדרות כלליות</h2>
+        <Button size="sm" onClick={handleSave}>
+          שמור
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <Input
+            id="allocationDecimals"
+            label="ספרות אחרי הנקודה בחלוקת עלויות"
+            type="number"
+            min="0"
+            max="6"
+            step="1"
+            value={formData.allocationDecimals ?? 2}
+            onChange={(e) =>
+              setFormData({ ...formData, allocationDecimals: parseInt(e.target.value) || 0 })
+            }
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            החלקים מעוגלים כך שסכומם שווה בדיוק לעלות (2 = אגורות)
+          </p>
+        </div>
+        <div>
+          <Input
+            id="priceIncreaseThreshold"
+            label="סף התראה לעליית מחיר (%)"
+            type="number"
+            min="0"
+            step="0.5"
+            value={formData.priceIncreaseThreshold ?? 5}
+            onChange={(e) =>
+              setFormData({ ...formData, priceIncreaseThreshold: parseFloat(e.target.value) || 0 })
+            }
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            מוצר שמחירו ליחידה עלה יותר מזה לעומת ההזמנה הקודמת יסומן
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
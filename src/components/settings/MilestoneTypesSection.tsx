@@ -0,0 +1,291 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import Button from '@/components/ui/Button';
+import Modal from '@/components/ui/Modal';
+import Input from '@/components/ui/Input';
+import Select from '@/components/ui/Select';
+import Spinner from '@/components/ui/Spinner';
+import { useToast } from '@/components/ui/Toast';
+import { PlusIcon, PencilIcon, TrashIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+
+type MilestoneLevel = 'order' | 'product';
+
+interface MilestoneType {
+  typeId: string;
+  name: string;
+  level: MilestoneLevel;
+  defaultOrder: number;
+  color: string;
+}
+
+interface MilestoneTypeFormData {
+  name: string;
+  level: MilestoneLevel;
+  defaultOrder: number;
+  color: string;
+}
+
+const LEVELS: { value: MilestoneLevel; label: string }[] = [
+  { value: 'order', label: 'הזמנה' },
+  { value: 'product', label: 'מוצר' },
+];
+
+export default function MilestoneTypesSection() {
+  const milestoneTypes = useQuery(api.milestones.getMilestoneTypes);
+  const untypedCounts = useQuery(api.milestones.getUntypedMilestoneCounts);
+  const { showToast } = useToast();
+  const addTypeMutation = useMutation(api.milestones.addMilestoneType);
+  const updateTypeMutation = useMutation(api.milestones.updateMilestoneType);
+  const deleteTypeMutation = useMutation(api.milestones.deleteMilestoneType);
+  const migrateMutation = useMutation(api.milestones.migrateUntypedMilestones);
+
+  const [showModal, setShowModal] = useState(false);
+  const [editingType, setEditingType] = useState<MilestoneType | null>(null);
+  const [formData, setFormData] = useState<MilestoneTypeFormData>({
+    name: '',
+    level: 'order',
+    defaultOrder: 1,
+    color: '#3b82f6',
+  });
+  const [createMissingTypes, setCreateMissingTypes] = useState(false);
+  const [isMigrating, setIsMigrating] = useState(false);
+
+  const untypedTotal = untypedCounts ? untypedCounts.order + untypedCounts.product : 0;
+
+  const nextOrder = (level: MilestoneLevel) =>
+    Math.max(
+      0,
+      ...(milestoneTypes ?? []).filter((t) => t.level === level).map((t) => t.defaultOrder)
+    ) + 1;
+
+  const openAddModal = (level: MilestoneLevel) => {
+    setEditingType(null);
+    setFormData({ name: '', level, defaultOrder: nextOrder(level), color: '#3b82f6' });
+    setShowModal(true);
+  };
+
+  const openEditModal = (type: MilestoneType) => {
+    setEditingType(type);
+    setFormData({
+      name: type.name,
+      level: type.level,
+      defaultOrder: type.defaultOrder,
+      color: type.color,
+    });
+    setShowModal(true);
+  };
+
+  const handleSubmit = async () => {
+    try {
+      if (editingType) {
+        await updateTypeMutation({
+          typeId: editingType.typeId,
+          name: formData.name,
+          defaultOrder: formData.defaultOrder,
+          color: formData.color,
+        });
+        showToast('סוג מיילסטון עודכן בהצלחה', 'success');
+      } else {
+        await addTypeMutation(formData);
+        showToast('סוג מיילסטון נוסף בהצלחה', 'success');
+      }
+
+      setShowModal(false);
+    } catch (error) {
+      console.error('Error saving milestone type:', error);
+      showToast('שגיאה בשמירת סוג מיילסטון', 'error');
+    }
+  };
+
+  const handleDelete = async (type: MilestoneType) => {
+    if (!confirm(`האם למחוק את ${type.name}?`)) return;
+
+    try {
+      await deleteTypeMutation({ typeId: type.typeId });
+      showToast('סוג מיילסטון נמחק', 'success');
+    } catch (error) {
+      console.error('Error deleting milestone type:', error);
+      showToast('לא ניתן למחוק סוג שמשמש מיילסטונים או תנאי תשלום', 'error');
+    }
+  };
+
+  const handleMigrate = async () => {
+    setIsMigrating(true);
+    try {
+      const result = await migrateMutation({ createMissingTypes });
+      showToast(
+        `שויכו ${result.typed} מיילסטונים` +
+          (result.created > 0 ? `, נוצרו ${result.created} סוגים` : '') +
+          (result.remaining > 0 ? `, ${result.remaining} נותרו ללא סוג` : ''),
+        'success'
+      );
+    } catch (error) {
+      console.error('Error migrating milestones:', error);
+      showToast('שגיאה בשיוך מיילסטונים', 'error');
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">סוגי מיילסטונים</h2>
+        <p className="text-sm text-gray-500">
+          השלבים שאפשר לבחור בהזמנה ובמוצר, לפי סדר ברירת המחדל שלהם
+        </p>
+      </div>
+
+      {milestoneTypes === undefined ? (
+        <div className="flex justify-center py-8">
+          <Spinner />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {LEVELS.map((level) => {
+            const types = milestoneTypes.filter((t) => t.level === level.value);
+
+            return (
+              <div key={level.value}>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-medium text-gray-700">מיילסטונים של {level.label}</h3>
+                  <Button size="sm" variant="secondary" onClick={() => openAddModal(level.value)}>
+                    <PlusIcon className="w-4 h-4" />
+                    הוסף
+                  </Button>
+                </div>
+                {types.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-4 border rounded-lg">
+                    אין סוגים
+                  </p>
+                ) : (
+                  <div className="space-y-1">
+                    {types.map((type) => (
+                      <div
+                        key={type.typeId}
+                        className="flex items-center gap-3 p-2 border rounded-lg hover:bg-gray-50"
+                      >
+                        <span className="w-6 text-sm text-gray-400 text-center">
+                          {type.defaultOrder}
+                        </span>
+                        <span
+                          className="w-4 h-4 rounded-full flex-shrink-0"
+                          style={{ backgroundColor: type.color }}
+                        />
+                        <span className="flex-1 text-sm font-medium">{type.name}</span>
+                        <button
+                          onClick={() => openEditModal(type)}
+                          className="p-1.5 text-gray-500 hover:bg-gray-100 rounded"
+                        >
+                          <PencilIcon className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(type)}
+                          className="p-1.5 text-red-500 hover:bg-red-50 rounded"
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Milestones saved by name before types existed */}
+      {untypedCounts && untypedTotal > 0 && (
+        <div className="mt-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+          <p className="text-sm text-amber-800">
+            {untypedTotal} מיילסטונים נשמרו ללא סוג ({untypedCounts.order} בהזמנות,{' '}
+            {untypedCounts.product} במוצרים). ניתן לשייך אותם לסוג בעל אותו שם.
+          </p>
+          <div className="flex items-center justify-between gap-3 mt-3">
+            <label className="flex items-center gap-2 text-sm text-amber-800">
+              <input
+                type="checkbox"
+                checked={createMissingTypes}
+                onChange={(e) => setCreateMissingTypes(e.target.checked)}
+                className="rounded"
+              />
+              צור סוג חדש לשמות שאין להם סוג
+            </label>
+            <Button size="sm" onClick={handleMigrate} disabled={isMigrating}>
+              <ArrowPathIcon className="w-4 h-4" />
+              {isMigrating ? 'משייך...' : 'שייך לפי שם'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Modal
+        isOpen={showModal}
+        onClose={() => setShowModal(false)}
+        title={editingType ? 'עריכת סוג מיילסטון' : 'הוסף סוג מיילסטון'}
+      >
+        <div className="space-y-4">
+          <Input
+            id="milestoneTypeName"
+            label="שם"
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            placeholder="לדוגמה: יצא מסין"
+            required
+          />
+
+          <div className="grid grid-cols-3 gap-4">
+            <Select
+              id="milestoneTypeLevel"
+              label="רמה"
+              options={LEVELS}
+              value={formData.level}
+              onChange={(e) =>
+                setFormData({ ...formData, level: e.target.value as MilestoneLevel })
+              }
+              disabled={!!editingType}
+            />
+            <Input
+              id="milestoneTypeOrder"
+              label="סדר"
+              type="number"
+              step="1"
+              value={formData.defaultOrder}
+              onChange={(e) =>
+                setFormData({ ...formData, defaultOrder: parseInt(e.target.value) || 0 })
+              }
+            />
+            <div>
+              <label
+                htmlFor="milestoneTypeColor"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                צבע
+              </label>
+              <input
+                id="milestoneTypeColor"
+                type="color"
+                value={formData.color}
+                onChange={(e) => setFormData({ ...formData, color: e.target.value })}
+                className="w-full h-10 border border-gray-300 rounded-lg cursor-pointer"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button variant="secondary" onClick={() => setShowModal(false)}>
+              ביטול
+            </Button>
+            <Button onClick={handleSubmit} disabled={!formData.name.trim()}>
+              {editingType ? 'עדכן' : 'הוסף'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,375 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import { formatNumber } from '@/lib/utils';
+import Button from '@/components/ui/Button';
+import Modal from '@/components/ui/Modal';
+import Input from '@/components/ui/Input';
+import Spinner from '@/components/ui/Spinner';
+import { useToast } from '@/components/ui/Toast';
+import { PlusIcon, PencilIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface Installment {
+  percent: number;
+  description: string;
+  trigger: 'days' | 'milestone';
+  dayOffset: number;
+  milestoneTypeId?: string;
+}
+
+interface PaymentTerm {
+  paymentTermId: string;
+  name: string;
+  installments: Installment[];
+}
+
+interface PaymentTermFormData {
+  name: string;
+  installments: Installment[];
+}
+
+const emptyInstallment: Installment = {
+  percent: 100,
+  description: 'תשלום מלא',
+  trigger: 'days',
+  dayOffset: 0,
+};
+
+const emptyTerm: PaymentTermFormData = {
+  name: '',
+  installments: [emptyInstallment],
+};
+
+export default function PaymentTermsSection() {
+  const paymentTerms = useQuery(api.paymentTerms.getPaymentTerms);
+  const milestoneTypes = useQuery(api.milestones.getMilestoneTypesByLevel, { level: 'order' }) ?? [];
+  const supplierNames = useQuery(api.suppliers.getSupplierNames) ?? [];
+  const suppliers = useQuery(api.suppliers.getAllSuppliers) ?? [];
+  const { showToast } = useToast();
+  const addTermMutation = useMutation(api.paymentTerms.addPaymentTerm);
+  const updateTermMutation = useMutation(api.paymentTerms.updatePaymentTerm);
+  const deleteTermMutation = useMutation(api.paymentTerms.deletePaymentTerm);
+  const setSupplierTermMutation = useMutation(api.suppliers.setSupplierPaymentTerm);
+
+  const [showModal, setShowModal] = useState(false);
+  const [editingTerm, setEditingTerm] = useState<PaymentTerm | null>(null);
+  const [formData, setFormData] = useState(emptyTerm);
+
+  const percentTotal = formData.installments.reduce((sum, i) => sum + (i.percent || 0), 0);
+  const installmentsError =
+    Math.abs(percentTotal - 100) > 0.01
+      ? `סה״כ האחוזים ${formatNumber(percentTotal, 2)}% במקום 100%`
+      : formData.installments.some((i) => i.trigger === 'milestone' && !i.milestoneTypeId)
+      ? 'יש לבחור אבן דרך לכל תשלום שתלוי באבן דרך'
+      : null;
+
+  const getSupplierTermId = (name: string) =>
+    suppliers.find((s) => s.name === name)?.paymentTermId || '';
+
+  const describeInstallment = (installment: Installment) => {
+    const milestone = milestoneTypes.find((m) => m.typeId === installment.milestoneTypeId);
+    const anchor =
+      installment.trigger === 'milestone' ? milestone?.name || 'אבן דרך' : 'תאריך ההזמנה';
+    const offset = installment.dayOffset ? ` + ${installment.dayOffset} ימים` : '';
+    return `${formatNumber(installment.percent, 0)}% ${installment.description} (${anchor}${offset})`;
+  };
+
+  const openAddModal = () => {
+    setEditingTerm(null);
+    setFormData(emptyTerm);
+    setShowModal(true);
+  };
+
+  const openEditModal = (term: PaymentTerm) => {
+    setEditingTerm(term);
+    setFormData({
+      name: term.name,
+      installments: term.installments.map((i) => ({ ...i })),
+    });
+    setShowModal(true);
+  };
+
+  const updateInstallment = (index: number, changes: Partial<Installment>) => {
+    setFormData((prev) => ({
+      ...prev,
+      installments: prev.installments.map((installment, i) =>
+        i === index ? { ...installment, ...changes } : installment
+      ),
+    }));
+  };
+
+  const addInstallment = () => {
+    setFormData((prev) => ({
+      ...prev,
+      installments: [
+        ...prev.installments,
+        {
+          ...emptyInstallment,
+          percent: Math.max(0, 100 - percentTotal),
+          description: 'יתרה',
+        },
+      ],
+    }));
+  };
+
+  const removeInstallment = (index: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      installments: prev.installments.filter((_, i) => i !== index),
+    }));
+  };
+
+  const handleSubmit = async () => {
+    const installments = formData.installments.map((i) => ({
+      percent: i.percent,
+      description: i.description,
+      trigger: i.trigger,
+      dayOffset: i.dayOffset,
+      milestoneTypeId: i.trigger === 'milestone' ? i.milestoneTypeId : undefined,
+    }));
+
+    try {
+      if (editingTerm) {
+        await updateTermMutation({
+          paymentTermId: editingTerm.paymentTermId,
+          name: formData.name,
+          installments,
+        });
+        showToast('תנאי תשלום עודכנו בהצלחה', 'success');
+      } else {
+        await addTermMutation({ name: formData.name, installments });
+        showToast('תנאי תשלום נוספו בהצלחה', 'success');
+      }
+
+      setShowModal(false);
+    } catch (error) {
+      console.error('Error saving payment term:', error);
+      showToast('שגיאה בשמירת תנאי תשלום', 'error');
+    }
+  };
+
+  const handleDelete = async (paymentTermId: string) => {
+    if (!confirm('האם למחוק את תנאי התשלום?')) return;
+
+    try {
+      await deleteTermMutation({ paymentTermId });
+      showToast('תנאי תשלום נמחקו', 'success');
+    } catch (error) {
+      console.error('Error deleting payment term:', error);
+      showToast('שגיאה במחיקת תנאי תשלום', 'error');
+    }
+  };
+
+  const handleSupplierTermChange = async (name: string, paymentTermId: string) => {
+    try {
+      await setSupplierTermMutation({ name, paymentTermId });
+      showToast('תנאי התשלום של הספק עודכנו', 'success');
+    } catch (error) {
+      console.error('Error setting supplier payment term:', error);
+      showToast('שגיאה בעדכון הספק', 'error');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">תנאי תשלום</h2>
+          <p className="text-sm text-gray-500">
+            מוצר חדש יוצר תשלום ממתין לכל שלב, לפי תנאי ההזמנה או תנאי הספק
+          </p>
+        </div>
+        <Button size="sm" onClick={openAddModal}>
+          <PlusIcon className="w-4 h-4" />
+          הוסף תנאי תשלום
+        </Button>
+      </div>
+
+      {paymentTerms === undefined ? (
+        <div className="flex justify-center py-8">
+          <Spinner />
+        </div>
+      ) : paymentTerms.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">אין תנאי תשלום</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-right py-3 px-4 font-medium text-gray-600">שם</th>
+                <th className="text-right py-3 px-4 font-medium text-gray-600">שלבים</th>
+                <th className="text-right py-3 px-4 font-medium text-gray-600">פעולות</th>
+              </tr>
+            </thead>
+            <tbody>
+              {paymentTerms.map((term) => (
+                <tr key={term.paymentTermId} className="border-b hover:bg-gray-50">
+                  <td className="py-3 px-4 font-medium">{term.name}</td>
+                  <td className="py-3 px-4 text-gray-600">
+                    {term.installments.map(describeInstallment).join(' · ')}
+                  </td>
+                  <td className="py-3 px-4">
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => openEditModal(term)}
+                        className="p-1.5 text-gray-500 hover:bg-gray-100 rounded"
+                      >
+                        <PencilIcon className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(term.paymentTermId)}
+                        className="p-1.5 text-red-500 hover:bg-red-50 rounded"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Supplier defaults */}
+      {paymentTerms && paymentTerms.length > 0 && supplierNames.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-medium text-gray-700 mb-2">תנאי תשלום לפי ספק</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {supplierNames.map((name) => (
+              <div
+                key={name}
+                className="flex items-center justify-between gap-3 p-2 border rounded-lg"
+              >
+                <span className="text-sm font-medium">{name}</span>
+                <select
+                  value={getSupplierTermId(name)}
+                  onChange={(e) => handleSupplierTermChange(name, e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="">תשלום אחד</option>
+                  {paymentTerms.map((term) => (
+                    <option key={term.paymentTermId} value={term.paymentTermId}>
+                      {term.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <Modal
+        isOpen={showModal}
+        onClose={() => setShowModal(false)}
+        title={editingTerm ? 'עריכת תנאי תשלום' : 'הוסף תנאי תשלום'}
+        size="lg"
+      >
+        <div className="space-y-4">
+          <Input
+            id="termName"
+            label="שם"
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            placeholder="30% מקדמה, 70% לפני משלוח"
+            required
+          />
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">שלבי תשלום</label>
+            <div className="space-y-2">
+              {formData.installments.map((installment, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    step="1"
+                    min="0"
+                    value={installment.percent}
+                    onChange={(e) =>
+                      updateInstallment(index, { percent: parseFloat(e.target.value) || 0 })
+                    }
+                    className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                    title="אחוז"
+                  />
+                  <span className="text-sm text-gray-500">%</span>
+                  <input
+                    type="text"
+                    value={installment.description}
+                    onChange={(e) => updateInstallment(index, { description: e.target.value })}
+                    className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm"
+                    placeholder="מקדמה"
+                  />
+                  <select
+                    value={
+                      installment.trigger === 'milestone'
+                        ? installment.milestoneTypeId || ''
+                        : 'days'
+                    }
+                    onChange={(e) =>
+                      updateInstallment(
+                        index,
+                        e.target.value === 'days'
+                          ? { trigger: 'days', milestoneTypeId: undefined }
+                          : { trigger: 'milestone', milestoneTypeId: e.target.value }
+                      )
+                    }
+                    className="px-2 py-1 border border-gray-300 rounded text-sm"
+                  >
+                    <option value="days">מתאריך ההזמנה</option>
+                    {milestoneTypes.map((type) => (
+                      <option key={type.typeId} value={type.typeId}>
+                        מ{type.name}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="text-sm text-gray-500">+</span>
+                  <input
+                    type="number"
+                    step="1"
+                    value={installment.dayOffset}
+                    onChange={(e) =>
+                      updateInstallment(index, { dayOffset: parseInt(e.target.value) || 0 })
+                    }
+                    className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                    title="ימים"
+                  />
+                  <span className="text-sm text-gray-500">ימים</span>
+                  <button
+                    onClick={() => removeInstallment(index)}
+                    disabled={formData.installments.length === 1}
+                    className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-30"
+                  >
+                    <XMarkIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center justify-between mt-2">
+              <button
+                onClick={addInstallment}
+                className="text-sm text-blue-600 hover:text-blue-700"
+              >
+                + הוסף שלב
+              </button>
+              {installmentsError && (
+                <span className="text-sm text-red-600">{installmentsError}</span>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button variant="secondary" onClick={() => setShowModal(false)}>
+              ביטול
+            </Button>
+            <Button onClick={handleSubmit} disabled={!formData.name || !!installmentsError}>
+              {editingTerm ? 'עדכן' : 'הוסף'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
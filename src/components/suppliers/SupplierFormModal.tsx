@@ -0,0 +1,181 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import Modal from '@/components/ui/Modal';
+import Input from '@/components/ui/Input';
+import Select from '@/components/ui/Select';
+import Button from '@/components/ui/Button';
+import { useToast } from '@/components/ui/Toast';
+
+interface Supplier {
+  supplierId: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  country?: string;
+  notes?: string;
+  paymentTermId?: string;
+}
+
+interface SupplierFormModalProps {
+  onClose: () => void;
+  // Edits this supplier; adds a new one when omitted
+  supplier?: Supplier | null;
+}
+
+interface SupplierFormData {
+  name: string;
+  contactName: string;
+  email: string;
+  phone: string;
+  country: string;
+  notes: string;
+  paymentTermId: string;
+}
+
+const emptySupplier: SupplierFormData = {
+  name: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  country: '',
+  notes: '',
+  paymentTermId: '',
+};
+
+export default function SupplierFormModal({ onClose, supplier }: SupplierFormModalProps) {
+  const paymentTerms = useQuery(api.paymentTerms.getPaymentTerms) ?? [];
+  const addSupplierMutation = useMutation(api.suppliers.addSupplier);
+  const updateSupplierMutation = useMutation(api.suppliers.updateSupplier);
+  const { showToast } = useToast();
+
+  // Mounted fresh each time it opens, so the form starts from the supplier
+  const [formData, setFormData] = useState<SupplierFormData>(() =>
+    supplier
+      ? {
+          name: supplier.name,
+          contactName: supplier.contactName || '',
+          email: supplier.email || '',
+          phone: supplier.phone || '',
+          country: supplier.country || '',
+          notes: supplier.notes || '',
+          paymentTermId: supplier.paymentTermId || '',
+        }
+      : emptySupplier
+  );
+
+  const handleSubmit = async () => {
+    try {
+      if (supplier) {
+        await updateSupplierMutation({
+          supplierId: supplier.supplierId,
+          name: formData.name,
+          contactName: formData.contactName,
+          email: formData.email,
+          phone: formData.phone,
+          country: formData.country,
+          notes: formData.notes,
+          paymentTermId: formData.paymentTermId,
+        });
+        showToast('ספק עודכן בהצלחה', 'success');
+      } else {
+        await addSupplierMutation({
+          name: formData.name,
+          contactName: formData.contactName || undefined,
+          email: formData.email || undefined,
+          phone: formData.phone || undefined,
+          country: formData.country || undefined,
+          notes: formData.notes || undefined,
+          paymentTermId: formData.paymentTermId || undefined,
+        });
+        showToast('ספק נוסף בהצלחה', 'success');
+      }
+
+      onClose();
+    } catch (error) {
+      console.error('Error saving supplier:', error);
+      showToast('שגיאה בשמירת ספק', 'error');
+    }
+  };
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title={supplier ? 'עריכת ספק' : 'הוסף ספק'}
+      size="lg"
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            id="supplierName"
+            label="שם הספק"
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            required
+          />
+          <Input
+            id="country"
+            label="מדינה"
+            value={formData.country}
+            onChange={(e) => setFormData({ ...formData, country: e.target.value })}
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <Input
+            id="contactName"
+            label="איש קשר"
+            value={formData.contactName}
+            onChange={(e) => setFormData({ ...formData, contactName: e.target.value })}
+          />
+          <Input
+            id="email"
+            label="אימייל"
+            type="email"
+            dir="ltr"
+            value={formData.email}
+            onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+          />
+          <Input
+            id="phone"
+            label="טלפון"
+            dir="ltr"
+            value={formData.phone}
+            onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+          />
+        </div>
+
+        <Select
+          id="paymentTermId"
+          label="תנאי תשלום"
+          options={[
+            { value: '', label: 'תשלום אחד' },
+            ...paymentTerms.map((term) => ({ value: term.paymentTermId, label: term.name })),
+          ]}
+          value={formData.paymentTermId}
+          onChange={(e) => setFormData({ ...formData, paymentTermId: e.target.value })}
+        />
+
+        <Input
+          id="supplierNotes"
+          label="הערות"
+          value={formData.notes}
+          onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+        />
+
+        <div className="flex justify-end gap-3 pt-4">
+          <Button variant="secondary" onClick={onClose}>
+            ביטול
+          </Button>
+          <Button onClick={handleSubmit} disabled={!formData.name.trim()}>
+            {supplier ? 'עדכן' : 'הוסף'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { useQuery } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import Card from '@/components/ui/Card';
+import Spinner from '@/components/ui/Spinner';
+
+interface SupplierScorecardProps {
+  supplierId: string;
+  // One summary line, for showing next to a supplier picker
+  compact?: boolean;
+}
+
+function formatRate(rate: number | null) {
+  return rate === null ? '-' : `${Math.round(rate * 100)}%`;
+}
+
+function formatSlip(days: number | null) {
+  if (days === null) return '-';
+  if (days > 0) return `${days} ימים איחור`;
+  if (days < 0) return `${-days} ימים הקדמה`;
+  return 'בזמן';
+}
+
+export default function SupplierScorecard({ supplierId, compact }: SupplierScorecardProps) {
+  const scorecard = useQuery(api.suppliers.getSupplierScorecard, { supplierId });
+
+  if (compact) {
+    if (!scorecard || scorecard.productCount === 0) return null;
+    const lastLeadTime = scorecard.leadTimes[scorecard.leadTimes.length - 1];
+
+    return (
+      <p className="text-xs text-gray-500 mt-1">
+        {scorecard.orderCount} הזמנות
+        {lastLeadTime && ` · ${lastLeadTime.averageLeadDays} ימים עד ${lastLeadTime.name}`}
+        {scorecard.onTimeRate !== null && ` · ${formatRate(scorecard.onTimeRate)} בזמן`}
+        {scorecard.priceChangeRate !== null &&
+          ` · שינוי מחיר ב-${formatRate(scorecard.priceChangeRate)} מהמוצרים`}
+      </p>
+    );
+  }
+
+  if (scorecard === undefined) {
+    return (
+      <Card>
+        <div className="flex justify-center py-4">
+          <Spinner />
+        </div>
+      </Card>
+    );
+  }
+
+  const stats = [
+    {
+      label: 'עמידה ביעדים',
+      value: formatRate(scorecard.onTimeRate),
+      note: `${scorecard.measuredMilestones} אבני דרך עם יעד ותאריך בפועל`,
+    },
+    {
+      label: 'סטייה ממוצעת',
+      value: formatSlip(scorecard.averageSlipDays),
+      note: 'מתאריך היעד',
+    },
+    {
+      label: 'שינויי מחיר אחרי הזמנה',
+      value: formatRate(scorecard.priceChangeRate),
+      note: `${scorecard.priceChangedProducts} מתוך ${scorecard.productCount} מוצרים`,
+    },
+  ];
+
+  return (
+    <Card>
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">ביצועי ספק</h2>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        {stats.map((stat) => (
+          <div key={stat.label} className="bg-gray-50 rounded-lg p-3">
+            <p className="text-sm text-gray-500">{stat.label}</p>
+            <p className="text-xl font-bold text-gray-900">{stat.value}</p>
+            <p className="text-xs text-gray-400">{stat.note}</p>
+          </div>
+        ))}
+      </div>
+
+      {scorecard.leadTimes.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">אין עדיין אבני דרך שהושלמו</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-gray-50">
+                <th className="text-right py-3 px-4 font-medium text-gray-600">אבן דרך</th>
+                <th className="text-right py-3 px-4 font-medium text-gray-600">רמה</th>
+                <th className="text-right py-3 px-4 font-medium text-gray-600">ימים מההזמנה (ממוצע)</th>
+                <th className="text-right py-3 px-4 font-medium text-gray-600">מדידות</th>
+              </tr>
+            </thead>
+            <tbody>
+              {scorecard.leadTimes.map((leadTime) => (
+                <tr key={leadTime.milestoneTypeId} className="border-b">
+                  <td className="py-3 px-4 font-medium">{leadTime.name}</td>
+                  <td className="py-3 px-4">{leadTime.level === 'order' ? 'הזמנה' : 'מוצר'}</td>
+                  <td className="py-3 px-4">{leadTime.averageLeadDays}</td>
+                  <td className="py-3 px-4">{leadTime.count}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,51 @@
+export const CURRENCIES = [
+  { value: 'USD', label: 'USD ($)', symbol: '$' },
+  { value: 'EUR', label: 'EUR (€)', symbol: '€' },
+  { value: 'GBP', label: 'GBP (£)', symbol: '£' },
+  { value: 'JPY', label: 'JPY (¥)', symbol: '¥' },
+  { value: 'CNY', label: 'CNY (¥)', symbol: '¥' },
+  { value: 'ILS', label: 'ILS (₪)', symbol: '₪' },
+  { value: 'AUD', label: 'AUD (A$)', symbol: 'A$' },
+  { value: 'CAD', label: 'CAD (C$)', symbol: 'C$' },
+  { value: 'CHF', label: 'CHF (Fr)', symbol: 'Fr' },
+  { value: 'HKD', label: 'HKD (HK$)', symbol: 'HK$' },
+  { value: 'SGD', label: 'SGD (S$)', symbol: 'S$' },
+  { value: 'SEK', label: 'SEK (kr)', symbol: 'kr' },
+  { value: 'KRW', label: 'KRW (₩)', symbol: '₩' },
+  { value: 'NOK', label: 'NOK (kr)', symbol: 'kr' },
+  { value: 'NZD', label: 'NZD (NZ$)', symbol: 'NZ$' },
+  { value: 'INR', label: 'INR (₹)', symbol: '₹' },
+  { value: 'MXN', label: 'MXN ($)', symbol: '$' },
+  { value: 'TWD', label: 'TWD (NT$)', symbol: 'NT$' },
+  { value: 'ZAR', label: 'ZAR (R)', symbol: 'R' },
+  { value: 'BRL', label: 'BRL (R$)', symbol: 'R$' },
+  { value: 'DKK', label: 'DKK (kr)', symbol: 'kr' },
+  { value: 'PLN', label: 'PLN (zł)', symbol: 'zł' },
+  { value: 'THB', label: 'THB (฿)', symbol: '฿' },
+  { value: 'IDR', label: 'IDR (Rp)', symbol: 'Rp' },
+  { value: 'HUF', label: 'HUF (Ft)', symbol: 'Ft' },
+  { value: 'CZK', label: 'CZK (Kč)', symbol: 'Kč' },
+  { value: 'AED', label: 'AED (د.إ)', symbol: 'د.إ' },
+  { value: 'TRY', label: 'TRY (₺)', symbol: '₺' },
+  { value: 'SAR', label: 'SAR (﷼)', symbol: '﷼' },
+  { value: 'PHP', label: 'PHP (₱)', symbol: '₱' },
+  { value: 'MYR', label: 'MYR (RM)', symbol: 'RM' },
+  { value: 'RUB', label: 'RUB (₽)', symbol: '₽' },
+];
+
+export function getCurrencySymbol(currency: string): string {
+  return CURRENCIES.find((c) => c.value === currency)?.symbol || currency;
+}
+
+export function getCurrencyLabel(currency: string): string {
+  return CURRENCIES.find((c) => c.value === currency)?.label || currency;
+}
+
+// Currency options for an order, limited to those it has a rate for
+export function getRateCurrencyOptions(rates: Record<string, number>) {
+  const codes = new Set(['ILS', ...Object.keys(rates)]);
+  return CURRENCIES.filter((c) => codes.has(c.value)).map((c) => ({
+    value: c.value,
+    label: c.label,
+  }));
+}
@@ -1,4 +1,14 @@
 import * as XLSX from 'xlsx';
+import {
+  COMMERCIAL_INVOICE_HEADERS,
+  PACKING_LIST_HEADERS,
+  SHIPPING_DOCUMENT_TITLES,
+  getInvoiceTotals,
+  getPackingListTotals,
+  type ShippingDocumentInfo,
+  type ShippingDocumentKind,
+  type ShippingDocumentProduct,
+} from './shippingDocuments';
 
 export interface ProductCostRow {
   productName: string;
@@ -8,11 +18,45 @@ export interface ProductCostRow {
   productCostILS: number;
   unitPriceILS: number;
   additionalCostsILS: number;
+  dutyILS: number;
+  purchaseTaxILS: number;
   totalCostILS: number;
   landedUnitCostILS: number;
   percentOfOrder: number;
+  vatILS: number;
 }
 
+export interface SupplierBreakdownRow {
+  supplierId?: string;
+  supplier: string;
+  productCount: number;
+  productsILS: number;
+  allocatedCostsILS: number;
+  dutyAndTaxILS: number;
+  landedILS: number;
+  cbm: number;
+  kg: number;
+  cbmShare: number;
+  kgShare: number;
+  paidILS: number;
+  balanceILS: number;
+}
+
+const SUPPLIER_HEADERS = [
+  'ספק',
+  'מוצרים',
+  'ערך מוצרים ₪',
+  'עלויות מוקצות ₪',
+  'מכס ומס קנייה ₪',
+  'עלות נחיתה ₪',
+  'CBM',
+  '% נפח',
+  'KG',
+  '% משקל',
+  'שולם ₪',
+  'יתרה ₪',
+];
+
 interface ExportHeaders {
   productName: string;
   supplier: string;
@@ -21,9 +65,12 @@ interface ExportHeaders {
   productCostILS: string;
   unitPriceILS: string;
   additionalCostsILS: string;
+  dutyILS: string;
+  purchaseTaxILS: string;
   totalCostILS: string;
   landedUnitCostILS: string;
   percentOfOrder: string;
+  vatILS: string;
 }
 
 const HEBREW_HEADERS: ExportHeaders = {
@@ -34,9 +81,12 @@ const HEBREW_HEADERS: ExportHeaders = {
   productCostILS: 'עלות מוצר ₪',
   unitPriceILS: 'מחיר יחידה ₪',
   additionalCostsILS: 'עלויות נוספות ₪',
+  dutyILS: 'מכס ₪',
+  purchaseTaxILS: 'מס קנייה ₪',
   totalCostILS: 'עלות כוללת ₪',
   landedUnitCostILS: 'עלות ליחידה ₪',
   percentOfOrder: '% מההזמנה',
+  vatILS: 'מע״מ יבוא (מוחזר) ₪',
 };
 
 function formatNumber(value: number, decimals: number = 2): string {
@@ -52,9 +102,29 @@ function rowToArray(row: ProductCostRow): (string | number)[] {
     formatNumber(row.productCostILS),
     formatNumber(row.unitPriceILS),
     formatNumber(row.additionalCostsILS),
+    formatNumber(row.dutyILS),
+    formatNumber(row.purchaseTaxILS),
     formatNumber(row.totalCostILS),
     formatNumber(row.landedUnitCostILS),
     formatNumber(row.percentOfOrder, 1) + '%',
+    formatNumber(row.vatILS),
+  ];
+}
+
+function supplierRowToArray(row: SupplierBreakdownRow): (string | number)[] {
+  return [
+    row.supplier || 'ללא ספק',
+    row.productCount,
+    formatNumber(row.productsILS),
+    formatNumber(row.allocatedCostsILS),
+    formatNumber(row.dutyAndTaxILS),
+    formatNumber(row.landedILS),
+    formatNumber(row.cbm, 3),
+    formatNumber(row.cbmShare * 100, 1) + '%',
+    formatNumber(row.kg, 1),
+    formatNumber(row.kgShare * 100, 1) + '%',
+    formatNumber(row.paidILS),
+    formatNumber(row.balanceILS),
   ];
 }
 
@@ -64,9 +134,20 @@ function createTotalsRow(data: ProductCostRow[]): (string | number)[] {
       quantity: acc.quantity + row.quantity,
       productCostILS: acc.productCostILS + row.productCostILS,
       additionalCostsILS: acc.additionalCostsILS + row.additionalCostsILS,
+      dutyILS: acc.dutyILS + row.dutyILS,
+      purchaseTaxILS: acc.purchaseTaxILS + row.purchaseTaxILS,
       totalCostILS: acc.totalCostILS + row.totalCostILS,
+      vatILS: acc.vatILS + row.vatILS,
     }),
-    { quantity: 0, productCostILS: 0, additionalCostsILS: 0, totalCostILS: 0 }
+    {
+      quantity: 0,
+      productCostILS: 0,
+      additionalCostsILS: 0,
+      dutyILS: 0,
+      purchaseTaxILS: 0,
+      totalCostILS: 0,
+      vatILS: 0,
+    }
   );
 
   return [
@@ -77,13 +158,20 @@ function createTotalsRow(data: ProductCostRow[]): (string | number)[] {
     formatNumber(totals.productCostILS),
     '',
     formatNumber(totals.additionalCostsILS),
+    formatNumber(totals.dutyILS),
+    formatNumber(totals.purchaseTaxILS),
     formatNumber(totals.totalCostILS),
     '',
     '100%',
+    formatNumber(totals.vatILS),
   ];
 }
 
-export function exportToCSV(data: ProductCostRow[], filename: string): void {
+export function exportToCSV(
+  data: ProductCostRow[],
+  filename: string,
+  suppliers: SupplierBreakdownRow[] = []
+): void {
   // Create headers row
   const headers = Object.values(HEBREW_HEADERS);
 
@@ -93,8 +181,14 @@ export function exportToCSV(data: ProductCostRow[], filename: string): void {
   // Add totals row
   const totalsRow = createTotalsRow(data);
 
+  // Per-supplier section below the products, when the order has suppliers
+  const supplierSection =
+    suppliers.length > 0
+      ? [[], SUPPLIER_HEADERS, ...suppliers.map(supplierRowToArray)]
+      : [];
+
   // Combine all rows
-  const csvContent = [headers, ...rows, totalsRow]
+  const csvContent = [headers, ...rows, totalsRow, ...supplierSection]
     .map((row) => row.map((cell) => `"${cell}"`).join(','))
     .join('\n');
 
@@ -112,7 +206,11 @@ export function exportToCSV(data: ProductCostRow[], filename: string): void {
   URL.revokeObjectURL(link.href);
 }
 
-export function exportToXLSX(data: ProductCostRow[], filename: string): void {
+export function exportToXLSX(
+  data: ProductCostRow[],
+  filename: string,
+  suppliers: SupplierBreakdownRow[] = []
+): void {
   // Create headers row
   const headers = Object.values(HEBREW_HEADERS);
 
@@ -125,9 +223,12 @@ export function exportToXLSX(data: ProductCostRow[], filename: string): void {
     row.productCostILS,
     row.unitPriceILS,
     row.additionalCostsILS,
+    row.dutyILS,
+    row.purchaseTaxILS,
     row.totalCostILS,
     row.landedUnitCostILS,
     row.percentOfOrder / 100, // For percentage formatting
+    row.vatILS,
   ]);
 
   // Calculate totals
@@ -136,9 +237,20 @@ export function exportToXLSX(data: ProductCostRow[], filename: string): void {
       quantity: acc.quantity + row.quantity,
       productCostILS: acc.productCostILS + row.productCostILS,
       additionalCostsILS: acc.additionalCostsILS + row.additionalCostsILS,
+      dutyILS: acc.dutyILS + row.dutyILS,
+      purchaseTaxILS: acc.purchaseTaxILS + row.purchaseTaxILS,
       totalCostILS: acc.totalCostILS + row.totalCostILS,
+      vatILS: acc.vatILS + row.vatILS,
     }),
-    { quantity: 0, productCostILS: 0, additionalCostsILS: 0, totalCostILS: 0 }
+    {
+      quantity: 0,
+      productCostILS: 0,
+      additionalCostsILS: 0,
+      dutyILS: 0,
+      purchaseTaxILS: 0,
+      totalCostILS: 0,
+      vatILS: 0,
+    }
   );
 
   const totalsRow = [
@@ -149,9 +261,12 @@ export function exportToXLSX(data: ProductCostRow[], filename: string): void {
     totals.productCostILS,
     '',
     totals.additionalCostsILS,
+    totals.dutyILS,
+    totals.purchaseTaxILS,
     totals.totalCostILS,
     '',
     1, // 100%
+    totals.vatILS,
   ];
 
   // Combine all data
@@ -169,27 +284,30 @@ export function exportToXLSX(data: ProductCostRow[], filename: string): void {
     { wch: 14 }, // Product Cost ILS
     { wch: 14 }, // Unit Price ILS
     { wch: 16 }, // Additional Costs ILS
+    { wch: 12 }, // Duty ILS
+    { wch: 12 }, // Purchase Tax ILS
     { wch: 14 }, // Total Cost ILS
     { wch: 14 }, // Landed Unit Cost ILS
     { wch: 12 }, // % of Order
+    { wch: 18 }, // Recoverable VAT ILS
   ];
 
-  // Apply number formatting for currency columns (columns E-I, 1-indexed as 4-8)
+  // Apply number formatting for currency columns (columns E-K and M)
   const currencyFormat = '#,##0.00';
   const percentFormat = '0.0%';
 
   for (let r = 1; r <= rows.length + 1; r++) {
     // Skip header row (0)
-    // Currency columns: E (4), F (5), G (6), H (7), I (8)
-    ['E', 'F', 'G', 'H', 'I'].forEach((col) => {
+    // Currency columns: E (4) to K (10), M (12)
+    ['E', 'F', 'G', 'H', 'I', 'J', 'K', 'M'].forEach((col) => {
       const cellRef = `${col}${r + 1}`;
       if (ws[cellRef] && typeof ws[cellRef].v === 'number') {
         ws[cellRef].z = currencyFormat;
       }
     });
 
-    // Percentage column: J (9)
-    const percentRef = `J${r + 1}`;
+    // Percentage column: L (11)
+    const percentRef = `L${r + 1}`;
     if (ws[percentRef] && typeof ws[percentRef].v === 'number') {
       ws[percentRef].z = percentFormat;
     }
@@ -199,6 +317,230 @@ export function exportToXLSX(data: ProductCostRow[], filename: string): void {
   const wb = XLSX.utils.book_new();
   XLSX.utils.book_append_sheet(wb, ws, 'פירוט עלויות');
 
+  if (suppliers.length > 0) {
+    const supplierWs = XLSX.utils.aoa_to_sheet([
+      SUPPLIER_HEADERS,
+      ...suppliers.map((row) => [
+        row.supplier || 'ללא ספק',
+        row.productCount,
+        row.productsILS,
+        row.allocatedCostsILS,
+        row.dutyAndTaxILS,
+        row.landedILS,
+        row.cbm,
+        row.cbmShare,
+        row.kg,
+        row.kgShare,
+        row.paidILS,
+        row.balanceILS,
+      ]),
+    ]);
+    supplierWs['!cols'] = SUPPLIER_HEADERS.map((header) => ({ wch: Math.max(10, header.length + 4) }));
+
+    for (let r = 2; r <= suppliers.length + 1; r++) {
+      ['C', 'D', 'E', 'F', 'K', 'L'].forEach((col) => {
+        if (supplierWs[`${col}${r}`]) supplierWs[`${col}${r}`].z = currencyFormat;
+      });
+      ['H', 'J'].forEach((col) => {
+        if (supplierWs[`${col}${r}`]) supplierWs[`${col}${r}`].z = percentFormat;
+      });
+    }
+
+    XLSX.utils.book_append_sheet(wb, supplierWs, 'לפי ספק');
+  }
+
   // Write and download
   XLSX.writeFile(wb, `${filename}.xlsx`);
 }
+
+export interface StatementRow {
+  date: string;
+  orderName: string;
+  description: string;
+  reference?: string;
+  currency: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export function exportSupplierStatement(
+  supplier: string,
+  rows: StatementRow[],
+  balances: Record<string, number>,
+  filename: string
+): void {
+  const headers = ['תאריך', 'הזמנה', 'תיאור', 'אסמכתא', 'מטבע', 'חובה', 'זכות', 'יתרה'];
+
+  const dataRows = rows.map((row) => [
+    row.date,
+    row.orderName,
+    row.description,
+    row.reference || '',
+    row.currency,
+    row.debit || '',
+    row.credit || '',
+    row.balance,
+  ]);
+
+  // Closing balance per currency
+  const balanceRows = Object.entries(balances).map(([currency, balance]) => [
+    'יתרת סגירה',
+    '',
+    '',
+    '',
+    currency,
+    '',
+    '',
+    balance,
+  ]);
+
+  const wsData = [
+    [`כרטסת ספק: ${supplier}`],
+    [`הופק בתאריך ${new Date().toLocaleDateString('he-IL')}`],
+    [],
+    headers,
+    ...dataRows,
+    [],
+    ...balanceRows,
+  ];
+
+  const ws = XLSX.utils.aoa_to_sheet(wsData);
+
+  ws['!cols'] = [
+    { wch: 12 }, // Date
+    { wch: 20 }, // Order
+    { wch: 30 }, // Description
+    { wch: 14 }, // Reference
+    { wch: 8 },  // Currency
+    { wch: 14 }, // Debit
+    { wch: 14 }, // Credit
+    { wch: 14 }, // Balance
+  ];
+
+  // Amount columns: F (5) to H (7), below the title and header rows
+  const currencyFormat = '#,##0.00';
+  for (let r = 5; r <= wsData.length; r++) {
+    ['F', 'G', 'H'].forEach((col) => {
+      const cellRef = `${col}${r}`;
+      if (ws[cellRef] && typeof ws[cellRef].v === 'number') {
+        ws[cellRef].z = currencyFormat;
+      }
+    });
+  }
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, 'כרטסת');
+
+  XLSX.writeFile(wb, `${filename}.xlsx`);
+}
+
+export function exportShippingDocument(
+  kind: ShippingDocumentKind,
+  info: ShippingDocumentInfo,
+  products: ShippingDocumentProduct[],
+  filename: string
+): void {
+  const title = SHIPPING_DOCUMENT_TITLES[kind];
+  const { company } = info;
+
+  // Buyer and order details above the table
+  const headerRows = [
+    [`${title.en} / ${title.zh}`],
+    [],
+    ['Buyer / 买方', company.name],
+    ['Address / 地址', company.address],
+    ['Tel / 电话', company.phone],
+    ['Email', company.email],
+    ['Company No.', company.taxId],
+    ['Order Ref. / 参考号', `${info.orderName} (${info.orderId})`],
+    ['Incoterm / 贸易术语', info.incoterm || ''],
+    ['Date / 日期', new Date().toISOString().split('T')[0]],
+    [],
+  ];
+
+  let tableRows: (string | number)[][];
+  let totalRows: (string | number)[][];
+  let numberColumns: { col: string; format: string }[];
+
+  if (kind === 'packing-list') {
+    const totals = getPackingListTotals(products);
+    tableRows = [
+      PACKING_LIST_HEADERS,
+      ...products.map((p, index) => [
+        index + 1,
+        p.name,
+        p.supplier || '',
+        p.hsCode || '',
+        p.cartonCount || '',
+        p.quantity,
+        p.kgTotal,
+        p.cbmTotal,
+      ]),
+    ];
+    totalRows = [
+      ['Total / 合计', '', '', '', totals.cartons, totals.quantity, totals.kg, totals.cbm],
+    ];
+    numberColumns = [
+      { col: 'G', format: '#,##0.0' },
+      { col: 'H', format: '0.000' },
+    ];
+  } else {
+    const totals = getInvoiceTotals(products);
+    tableRows = [
+      COMMERCIAL_INVOICE_HEADERS,
+      ...products.map((p, index) => [
+        index + 1,
+        p.name,
+        p.supplier || '',
+        p.hsCode || '',
+        p.quantity,
+        p.currency,
+        p.pricePerUnit,
+        p.priceTotal,
+      ]),
+    ];
+    totalRows = Object.entries(totals).map(([currency, total]) => [
+      'Total / 合计',
+      '',
+      '',
+      '',
+      '',
+      currency,
+      '',
+      total,
+    ]);
+    numberColumns = [
+      { col: 'G', format: '#,##0.00' },
+      { col: 'H', format: '#,##0.00' },
+    ];
+  }
+
+  const wsData = [...headerRows, ...tableRows, ...totalRows];
+  const ws = XLSX.utils.aoa_to_sheet(wsData);
+
+  ws['!cols'] = [
+    { wch: 18 }, // No. / labels
+    { wch: 30 }, // Description
+    { wch: 20 }, // Supplier
+    { wch: 16 }, // HS Code
+    { wch: 14 },
+    { wch: 14 },
+    { wch: 16 },
+    { wch: 16 },
+  ];
+
+  for (let r = headerRows.length + 2; r <= wsData.length; r++) {
+    numberColumns.forEach(({ col, format }) => {
+      const cellRef = `${col}${r}`;
+      if (ws[cellRef] && typeof ws[cellRef].v === 'number') {
+        ws[cellRef].z = format;
+      }
+    });
+  }
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, title.en);
+
+  XLSX.writeFile(wb, `${filename}.xlsx`);
+}
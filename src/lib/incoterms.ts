@@ -0,0 +1,27 @@
+export type Incoterm = 'EXW' | 'FCA' | 'FOB' | 'CFR' | 'CIF' | 'DAP' | 'DDP';
+
+export type CostCategory = 'freight' | 'insurance' | 'origin' | 'destination' | 'clearance' | 'other';
+
+export const INCOTERMS: { value: Incoterm; label: string }[] = [
+  { value: 'EXW', label: 'EXW - מפעל הספק' },
+  { value: 'FCA', label: 'FCA - מסירה למוביל' },
+  { value: 'FOB', label: 'FOB - על האונייה בנמל המוצא' },
+  { value: 'CFR', label: 'CFR - כולל הובלה' },
+  { value: 'CIF', label: 'CIF - כולל הובלה וביטוח' },
+  { value: 'DAP', label: 'DAP - עד היעד, ללא מכס' },
+  { value: 'DDP', label: 'DDP - עד היעד כולל מכס' },
+];
+
+// Freight and insurance are added to the goods value for customs (CIF)
+export const COST_CATEGORIES: { value: CostCategory; label: string }[] = [
+  { value: 'freight', label: 'הובלה בינלאומית' },
+  { value: 'insurance', label: 'ביטוח' },
+  { value: 'origin', label: 'הוצאות בארץ המקור' },
+  { value: 'destination', label: 'הוצאות בנמל היעד' },
+  { value: 'clearance', label: 'עמילות מכס' },
+  { value: 'other', label: 'אחר' },
+];
+
+export function getCostCategoryLabel(category: string): string {
+  return COST_CATEGORIES.find((c) => c.value === category)?.label || category;
+}
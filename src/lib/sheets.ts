@@ -1,4 +1,15 @@
 import { google, sheets_v4 } from 'googleapis';
+import { ConvexHttpClient } from 'convex/browser';
+import { api } from '../../convex/_generated/api';
+import {
+  allocateCost,
+  findMissingRates,
+  roundTo,
+  toILS,
+  validateAllocationWeights,
+  DEFAULT_SETTINGS,
+  type ExchangeRates,
+} from '../../convex/helpers';
 
 function getSpreadsheetId(): string {
   const id = process.env.GOOGLE_SPREADSHEET_ID;
@@ -8,6 +19,22 @@ function getSpreadsheetId(): string {
   return id;
 }
 
+// Decimal places allocated costs are rounded to (2 = agorot), read from the
+// same settings table the Convex backend uses. Falls back to the default when
+// Convex can't be reached, so the Sheets backend keeps working without it.
+async function getAllocationDecimals(): Promise<number> {
+  const url = process.env.NEXT_PUBLIC_CONVEX_URL;
+  if (!url) return DEFAULT_SETTINGS.allocationDecimals;
+
+  try {
+    const settings = await new ConvexHttpClient(url).query(api.settings.getSettings, {});
+    return settings.allocationDecimals;
+  } catch (error) {
+    console.error('Error reading settings from Convex:', error);
+    return DEFAULT_SETTINGS.allocationDecimals;
+  }
+}
+
 // Sheet names
 export const SHEETS = {
   ORDERS: 'Orders',
@@ -37,6 +64,8 @@ export interface Order {
   totalOrderILS?: number;
   totalPaidILS?: number;
   balanceILS?: number;
+  // Currencies with no rate on the order, left out of the ILS totals
+  missingRates?: string[];
 }
 
 export interface Product {
@@ -47,7 +76,7 @@ export interface Product {
   quantity: number;
   price_per_unit: number;
   price_total: number;
-  currency: 'USD' | 'CNY' | 'ILS';
+  currency: string;
   cbm_per_unit: number;
   cbm_total: number;
   kg_per_unit: number;
@@ -66,8 +95,8 @@ export interface AdditionalCost {
   order_id: string;
   description: string;
   amount: number;
-  currency: 'USD' | 'CNY' | 'ILS';
-  allocation_method: 'נפח' | 'משקל' | 'עלות' | 'כמות' | 'שווה';
+  currency: string;
+  allocation_method: 'נפח' | 'משקל' | 'עלות' | 'כמות' | 'שווה' | 'אחוזים' | 'ידני';
   notes: string;
   // Computed
   amountILS?: number;
@@ -79,6 +108,8 @@ export interface CostProductLink {
   cost_id: string;
   product_id: string;
   is_linked: boolean;
+  // Percentage (אחוזים) or relative weight (ידני) for manual allocation
+  weight: number;
 }
 
 export interface Payment {
@@ -88,7 +119,7 @@ export interface Payment {
   cost_id: string;
   date: string;
   amount: number;
-  currency: 'USD' | 'CNY' | 'ILS';
+  currency: string;
   payee: string;
   description: string;
   reference: string;
@@ -155,13 +186,10 @@ function convertToBoolean(val: unknown): boolean {
   return false;
 }
 
-function toILS(amount: number, currency: string, usdRate: number, cnyRate: number): number {
-  switch (currency) {
-    case 'USD': return amount * usdRate;
-    case 'CNY': return amount * cnyRate;
-    case 'ILS': return amount;
-    default: return amount * usdRate;
-  }
+// Orders in the sheet only carry USD and CNY rates; any other currency converts
+// to 0 through the shared toILS and is reported in missingRates, as in Convex
+function getSheetOrderRates(order: Order): ExchangeRates {
+  return { USD: order.usd_rate, CNY: order.cny_rate, ILS: 1 };
 }
 
 // Data access functions
@@ -193,8 +221,10 @@ export async function getAllOrders(): Promise<Order[]> {
     getAllPayments(),
     getAllCostProductLinks(),
   ]);
+  const decimals = await getAllocationDecimals();
 
   for (const order of orders) {
+    const rates = getSheetOrderRates(order);
     const orderProducts = products.filter(p => p.order_id === order.order_id);
     const orderCosts = costs.filter(c => c.order_id === order.order_id);
     const orderPayments = payments.filter(p => p.order_id === order.order_id);
@@ -204,14 +234,15 @@ export async function getAllOrders(): Promise<Order[]> {
     // Calculate product totals in ILS
     let totalProductsILS = 0;
     for (const product of orderProducts) {
-      totalProductsILS += toILS(product.price_total, product.currency, order.usd_rate, order.cny_rate);
+      totalProductsILS += toILS(product.price_total, product.currency, rates);
     }
     order.totalProductsILS = totalProductsILS;
 
     // Calculate costs totals in ILS
     let totalCostsILS = 0;
     for (const cost of orderCosts) {
-      totalCostsILS += toILS(cost.amount, cost.currency, order.usd_rate, order.cny_rate);
+      // Rounded as in getOrderFull, so both show the same total
+      totalCostsILS += roundTo(toILS(cost.amount, cost.currency, rates), decimals);
     }
     order.totalCostsILS = totalCostsILS;
 
@@ -220,11 +251,20 @@ export async function getAllOrders(): Promise<Order[]> {
     // Calculate payments total in ILS
     let totalPaidILS = 0;
     for (const payment of orderPayments) {
-      totalPaidILS += toILS(payment.amount, payment.currency, order.usd_rate, order.cny_rate);
+      totalPaidILS += toILS(payment.amount, payment.currency, rates);
     }
     order.totalPaidILS = totalPaidILS;
 
     order.balanceILS = order.totalOrderILS - totalPaidILS;
+
+    order.missingRates = findMissingRates(
+      [
+        ...orderProducts.map(p => p.currency),
+        ...orderCosts.map(c => c.currency),
+        ...orderPayments.map(p => p.currency),
+      ],
+      rates
+    );
   }
 
   return orders;
@@ -302,7 +342,7 @@ export async function getAllCostProductLinks(): Promise<CostProductLink[]> {
 
   const response = await sheets.spreadsheets.values.get({
     spreadsheetId: getSpreadsheetId(),
-    range: `${SHEETS.COST_PRODUCT_LINKS}!A:D`,
+    range: `${SHEETS.COST_PRODUCT_LINKS}!A:E`,
   });
 
   const rows = response.data.values;
@@ -314,6 +354,7 @@ export async function getAllCostProductLinks(): Promise<CostProductLink[]> {
   for (let i = 1; i < rows.length; i++) {
     const link = rowToObject<CostProductLink>(headers, rows[i]);
     link.is_linked = convertToBoolean(link.is_linked);
+    link.weight = convertToNumber(link.weight);
     links.push(link);
   }
 
@@ -889,9 +930,24 @@ export async function deleteMilestone(milestoneId: string): Promise<boolean> {
   return true;
 }
 
-export async function updateCostProductLinks(costId: string, linkedProductIds: string[]): Promise<boolean> {
+export async function updateCostProductLinks(
+  costId: string,
+  linkedProductIds: string[],
+  weights: Record<string, number> = {}
+): Promise<boolean> {
   const sheets = await getSheets();
 
+  const cost = (await getAllCosts()).find(c => c.id === costId);
+  if (!cost) return false;
+
+  const error = validateAllocationWeights(
+    cost.allocation_method,
+    linkedProductIds.map(id => weights[id] ?? 0)
+  );
+  if (error) {
+    throw new Error(error);
+  }
+
   // Get existing links
   const links = await getAllCostProductLinks();
   const existingLinks = links.filter(l => l.cost_id === costId);
@@ -931,7 +987,7 @@ export async function updateCostProductLinks(costId: string, linkedProductIds: s
 
     await sheets.spreadsheets.values.append({
       spreadsheetId: getSpreadsheetId(),
-      range: `${SHEETS.COST_PRODUCT_LINKS}!A:D`,
+      range: `${SHEETS.COST_PRODUCT_LINKS}!A:E`,
       valueInputOption: 'USER_ENTERED',
       requestBody: {
         values: [[
@@ -939,6 +995,7 @@ export async function updateCostProductLinks(costId: string, linkedProductIds: s
           costId,
           productId,
           true,
+          weights[productId] ?? '',
         ]],
       },
     });
@@ -970,66 +1027,48 @@ export async function getOrderFull(orderId: string) {
   // Calculate product costs with allocation
   const costLinks = links.filter(l => costs.some(c => c.id === l.cost_id));
 
+  const decimals = await getAllocationDecimals();
+  const rates = getSheetOrderRates(order);
+
   // Calculate costs in ILS
   for (const cost of costs) {
-    cost.amountILS = toILS(cost.amount, cost.currency, order.usd_rate, order.cny_rate);
+    cost.amountILS = roundTo(
+      toILS(cost.amount, cost.currency, rates),
+      decimals
+    );
     cost.linkedProductCount = costLinks.filter(l => l.cost_id === cost.id && l.is_linked).length;
   }
 
+  // Allocate each cost once, rounded so the shares add up to the cost exactly
+  const allocations = costs.map(cost => {
+    const manualLinks = costLinks.filter(l => l.cost_id === cost.id && l.is_linked);
+    const linkedProductIds = manualLinks.map(l => l.product_id);
+    const linkedProducts = products.filter(p =>
+      linkedProductIds.length === 0 || linkedProductIds.includes(p.id)
+    );
+
+    return allocateCost(
+      { allocationMethod: cost.allocation_method },
+      cost.amountILS || 0,
+      linkedProducts.map(p => ({
+        productId: p.id,
+        quantity: p.quantity,
+        priceTotal: p.price_total,
+        currency: p.currency,
+        cbmTotal: p.cbm_total,
+        kgTotal: p.kg_total,
+      })),
+      Object.fromEntries(manualLinks.map(l => [l.product_id, l.weight])),
+      rates,
+      decimals
+    );
+  });
+
   // Calculate product costs
   for (const product of products) {
-    product.priceILS = toILS(product.price_total, product.currency, order.usd_rate, order.cny_rate);
-
-    // Calculate allocated costs
-    let allocatedCosts = 0;
-    for (const cost of costs) {
-      const linkedProductIds = costLinks
-        .filter(l => l.cost_id === cost.id && l.is_linked)
-        .map(l => l.product_id);
-
-      if (linkedProductIds.length === 0 || linkedProductIds.includes(product.id)) {
-        const linkedProducts = products.filter(p =>
-          linkedProductIds.length === 0 || linkedProductIds.includes(p.id)
-        );
-
-        if (linkedProducts.length > 0) {
-          const costILS = cost.amountILS || 0;
-          let share = 0;
-
-          switch (cost.allocation_method) {
-            case 'נפח': {
-              const totalCBM = linkedProducts.reduce((sum, p) => sum + p.cbm_total, 0);
-              share = totalCBM > 0 ? (product.cbm_total / totalCBM) * costILS : 0;
-              break;
-            }
-            case 'משקל': {
-              const totalKG = linkedProducts.reduce((sum, p) => sum + p.kg_total, 0);
-              share = totalKG > 0 ? (product.kg_total / totalKG) * costILS : 0;
-              break;
-            }
-            case 'עלות': {
-              const totalCost = linkedProducts.reduce((sum, p) =>
-                sum + toILS(p.price_total, p.currency, order.usd_rate, order.cny_rate), 0
-              );
-              const productCost = toILS(product.price_total, product.currency, order.usd_rate, order.cny_rate);
-              share = totalCost > 0 ? (productCost / totalCost) * costILS : 0;
-              break;
-            }
-            case 'כמות': {
-              const totalQty = linkedProducts.reduce((sum, p) => sum + p.quantity, 0);
-              share = totalQty > 0 ? (product.quantity / totalQty) * costILS : 0;
-              break;
-            }
-            case 'שווה':
-            default:
-              share = costILS / linkedProducts.length;
-              break;
-          }
-
-          allocatedCosts += share;
-        }
-      }
-    }
+    product.priceILS = toILS(product.price_total, product.currency, rates);
+
+    const allocatedCosts = allocations.reduce((sum, shares) => sum + (shares[product.id] || 0), 0);
 
     product.additionalCostsILS = allocatedCosts;
     product.finalCostILS = (product.priceILS || 0) + allocatedCosts;
@@ -1040,7 +1079,7 @@ export async function getOrderFull(orderId: string) {
 
   // Calculate payments in ILS
   for (const payment of payments) {
-    payment.amountILS = toILS(payment.amount, payment.currency, order.usd_rate, order.cny_rate);
+    payment.amountILS = toILS(payment.amount, payment.currency, rates);
   }
 
   // Calculate summary
@@ -1059,6 +1098,14 @@ export async function getOrderFull(orderId: string) {
     links: costLinks,
     orderMilestones,
     productMilestones,
+    missingRates: findMissingRates(
+      [
+        ...products.map(p => p.currency),
+        ...costs.map(c => c.currency),
+        ...payments.map(p => p.currency),
+      ],
+      rates
+    ),
     summary: {
       productCount: products.length,
       totalProductsILS,
@@ -0,0 +1,92 @@
+// Packing list and commercial invoice content, shared by the printable pages
+// and the Excel exports so both always match the order's products
+
+export type ShippingDocumentKind = 'packing-list' | 'commercial-invoice';
+
+export interface ShippingDocumentProduct {
+  productId: string;
+  name: string;
+  supplier?: string;
+  hsCode?: string;
+  quantity: number;
+  pricePerUnit: number;
+  priceTotal: number;
+  currency: string;
+  cartonCount?: number;
+  cbmTotal: number;
+  kgTotal: number;
+}
+
+export interface ShippingDocumentInfo {
+  orderId: string;
+  orderName: string;
+  incoterm?: string;
+  company: {
+    name: string;
+    address: string;
+    phone: string;
+    email: string;
+    taxId: string;
+  };
+}
+
+export const SHIPPING_DOCUMENT_TITLES: Record<ShippingDocumentKind, { en: string; zh: string; he: string }> = {
+  'packing-list': { en: 'PACKING LIST', zh: '装箱单', he: 'רשימת אריזה' },
+  'commercial-invoice': { en: 'COMMERCIAL INVOICE', zh: '商业发票', he: 'חשבונית מסחרית' },
+};
+
+export const PACKING_LIST_HEADERS = [
+  'No. / 序号',
+  'Description / 品名',
+  'Supplier / 供应商',
+  'HS Code / 海关编码',
+  'Cartons / 箱数',
+  'Quantity / 数量',
+  'G.W. (KG) / 毛重',
+  'Volume (CBM) / 体积',
+];
+
+export const COMMERCIAL_INVOICE_HEADERS = [
+  'No. / 序号',
+  'Description / 品名',
+  'Supplier / 供应商',
+  'HS Code / 海关编码',
+  'Quantity / 数量',
+  'Currency / 币种',
+  'Unit Price / 单价',
+  'Amount / 金额',
+];
+
+export interface PackingListTotals {
+  cartons: number;
+  quantity: number;
+  kg: number;
+  cbm: number;
+  // Products without a carton count, so the carton total is incomplete
+  missingCartons: number;
+}
+
+export function getPackingListTotals(products: ShippingDocumentProduct[]): PackingListTotals {
+  return products.reduce(
+    (acc, p) => ({
+      cartons: acc.cartons + (p.cartonCount || 0),
+      quantity: acc.quantity + p.quantity,
+      kg: acc.kg + p.kgTotal,
+      cbm: acc.cbm + p.cbmTotal,
+      missingCartons: acc.missingCartons + (p.cartonCount ? 0 : 1),
+    }),
+    { cartons: 0, quantity: 0, kg: 0, cbm: 0, missingCartons: 0 }
+  );
+}
+
+// Invoice totals are per currency, since suppliers may bill in different ones
+export function getInvoiceTotals(products: ShippingDocumentProduct[]): Record<string, number> {
+  return products.reduce<Record<string, number>>((acc, p) => {
+    acc[p.currency] = (acc[p.currency] || 0) + p.priceTotal;
+    return acc;
+  }, {});
+}
+
+export function getShippingDocumentFilename(kind: ShippingDocumentKind, orderName: string): string {
+  return `${orderName}-${kind === 'packing-list' ? 'PackingList' : 'CommercialInvoice'}`;
+}
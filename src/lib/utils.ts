@@ -1,18 +1,13 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { getCurrencySymbol } from '@/lib/currencies';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
 export function formatCurrency(amount: number, currency: string = 'ILS'): string {
-  const symbols: Record<string, string> = {
-    USD: '$',
-    CNY: '¥',
-    ILS: '₪',
-  };
-
-  const symbol = symbols[currency] || currency;
+  const symbol = getCurrencySymbol(currency);
   return `${symbol}${amount.toLocaleString('he-IL', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 }
 